@@ -0,0 +1,473 @@
+// Copyright Amazon.com, Inc. or its affiliates. All Rights Reserved.
+// SPDX-License-Identifier: Apache-2.0
+
+import { VideoTileState } from 'amazon-chime-sdk-js';
+import React, {
+  useCallback,
+  useEffect,
+  useMemo,
+  useRef,
+  useState,
+} from 'react';
+import ResizeObserver from 'resize-observer-polyfill';
+import styled from 'styled-components';
+import { v4 as uuidv4 } from 'uuid';
+
+import { useAudioVideo } from '../../../providers/AudioVideoProvider';
+import { useContentShareState } from '../../../providers/ContentShareProvider';
+import { useDataMessages } from '../../../providers/DataMessagesProvider';
+import { useLogger } from '../../../providers/LoggerProvider';
+import { AnnotationTool } from '../../../types';
+import {
+  Annotation,
+  AnnotationEvent,
+  AnnotationPoint,
+  AnnotationState,
+  applyAnnotationEvent,
+  drawAnnotation,
+  getContainedRect,
+  initialAnnotationState,
+  isAnnotationEvent,
+  simplifyPoints,
+  toAnnotationPoint,
+} from '../../../utils/annotations';
+import { baseStyles } from '../../ui/Base';
+import SecondaryButton from '../../ui/Button/SecondaryButton';
+import { BaseSdkProps } from '../Base';
+
+const StyledAnnotationLayer = styled.div<BaseSdkProps>`
+  position: absolute;
+  top: 0;
+  left: 0;
+  width: 100%;
+  height: 100%;
+  z-index: 1;
+
+  canvas {
+    display: block;
+    width: 100%;
+    height: 100%;
+    touch-action: none;
+  }
+
+  canvas.ch-annotation-drawing {
+    cursor: crosshair;
+  }
+
+  .ch-annotation-toolbar {
+    position: absolute;
+    top: 0.5rem;
+    left: 50%;
+    transform: translateX(-50%);
+    display: flex;
+    gap: 0.25rem;
+  }
+
+  .ch-annotation-text {
+    position: absolute;
+    font-size: ${(props) => props.theme.fontSizes.small.fontSize};
+  }
+
+  ${baseStyles}
+`;
+
+const defaultToolLabels: Record<AnnotationTool, string> = {
+  [AnnotationTool.PEN]: 'Pen',
+  [AnnotationTool.ARROW]: 'Arrow',
+  [AnnotationTool.HIGHLIGHTER]: 'Highlight',
+  [AnnotationTool.TEXT]: 'Text',
+};
+
+const allTools = Object.values(AnnotationTool);
+
+type Size = { width: number; height: number };
+
+interface Props extends BaseSdkProps {
+  /** The tile ID of the annotated content share, it defaults to the main content share of `useContentShareState`. */
+  tileId?: number;
+  /** The data message topic of the annotations, it defaults to `annotations`. */
+  topic?: string;
+  /** The color of the annotations of the local user, it defaults to `#e8308a`. */
+  color?: string;
+  /** The tools to show in the toolbar, it defaults to every tool. */
+  tools?: AnnotationTool[];
+  /** Overrides the labels of the tools. */
+  toolLabels?: Partial<Record<AnnotationTool, string>>;
+  /** Whether to show the toolbar, it defaults to `true`. Without it, annotating is off. */
+  showToolbar?: boolean;
+  /** The label of the button that clears the annotations, it defaults to `Clear`. */
+  clearLabel?: string;
+  /** The label of the button that stops other attendees from annotating, it defaults to `Disable for others`. */
+  disableLabel?: string;
+  /** The label of the button that lets other attendees annotate, it defaults to `Enable for others`. */
+  enableLabel?: string;
+  /** Called when an annotation could not be sent, such as when it is too large. The annotation is not shown. */
+  onAnnotationError?: (error: Error) => void;
+}
+
+export const AnnotationLayer: React.FC<React.PropsWithChildren<Props>> = ({
+  tileId: tileIdProp,
+  topic = 'annotations',
+  color = '#e8308a',
+  tools = allTools,
+  toolLabels,
+  showToolbar = true,
+  clearLabel = 'Clear',
+  disableLabel = 'Disable for others',
+  enableLabel = 'Enable for others',
+  onAnnotationError,
+  ...rest
+}) => {
+  const audioVideo = useAudioVideo();
+  const logger = useLogger();
+  const { tileId: mainTileId, shares } = useContentShareState();
+  const tileId = tileIdProp ?? mainTileId;
+  const share = shares.find((contentShare) => contentShare.tileId === tileId);
+  const shareAttendeeId = share?.attendeeId || null;
+  const isPresenter = !!share?.isLocalUser;
+  const { messages, send } = useDataMessages<AnnotationEvent>(topic);
+  const [state, setState] = useState<AnnotationState>(initialAnnotationState);
+  const [tool, setTool] = useState<AnnotationTool | null>(null);
+  const [size, setSize] = useState<Size>({ width: 0, height: 0 });
+  const [contentSize, setContentSize] = useState<Size | null>(null);
+  const [textPoint, setTextPoint] = useState<AnnotationPoint | null>(null);
+  const layerEl = useRef<HTMLDivElement>(null);
+  const canvasEl = useRef<HTMLCanvasElement>(null);
+  const stateRef = useRef(state);
+  const draftRef = useRef<Annotation | null>(null);
+  const processedItemsRef = useRef(new Set<string>());
+  const onAnnotationErrorRef = useRef(onAnnotationError);
+  onAnnotationErrorRef.current = onAnnotationError;
+
+  const rect = useMemo(
+    () =>
+      getContainedRect(
+        size.width,
+        size.height,
+        contentSize?.width,
+        contentSize?.height
+      ),
+    [size, contentSize]
+  );
+  const canAnnotate = !!shareAttendeeId && (state.enabled || isPresenter);
+  const drawingTool = showToolbar && canAnnotate ? tool : null;
+
+  const updateState = useCallback(
+    (update: (current: AnnotationState) => AnnotationState): void => {
+      const nextState = update(stateRef.current);
+      if (nextState !== stateRef.current) {
+        stateRef.current = nextState;
+        setState(nextState);
+      }
+    },
+    []
+  );
+
+  // Annotations only apply to the content share they were drawn on
+  useEffect(() => {
+    updateState(() => initialAnnotationState);
+    setTextPoint(null);
+    draftRef.current = null;
+  }, [shareAttendeeId, updateState]);
+
+  useEffect(() => {
+    if (!shareAttendeeId) {
+      return;
+    }
+
+    messages.forEach(({ messageId, payload, senderAttendeeId, local }) => {
+      const key = `${senderAttendeeId}/${messageId}`;
+      if (local || processedItemsRef.current.has(key)) {
+        return;
+      }
+
+      if (!isAnnotationEvent(payload)) {
+        processedItemsRef.current.add(key);
+        return;
+      }
+
+      // The events of another content share are applied once it is annotated
+      if (payload.shareAttendeeId !== shareAttendeeId) {
+        return;
+      }
+
+      processedItemsRef.current.add(key);
+      updateState((current) =>
+        applyAnnotationEvent(
+          current,
+          payload,
+          senderAttendeeId,
+          senderAttendeeId === shareAttendeeId
+        )
+      );
+    });
+  }, [messages, shareAttendeeId, updateState]);
+
+  useEffect(() => {
+    if (!layerEl.current) {
+      return;
+    }
+
+    const { width, height } = layerEl.current.getBoundingClientRect();
+    setSize({ width, height });
+
+    const resizeObserver = new ResizeObserver((entries) => {
+      const { width, height } = entries[0].contentRect;
+      setSize({ width, height });
+    });
+    resizeObserver.observe(layerEl.current);
+
+    return () => resizeObserver.disconnect();
+  }, [shareAttendeeId]);
+
+  // The content keeps its aspect ratio within the tile, so points are relative to the shown content
+  useEffect(() => {
+    if (!audioVideo || !tileId) {
+      setContentSize(null);
+      return;
+    }
+
+    const updateContentSize = (tileState?: VideoTileState): void => {
+      const {
+        videoStreamContentWidth: width,
+        videoStreamContentHeight: height,
+      } = tileState || {};
+      setContentSize(width && height ? { width, height } : null);
+    };
+    updateContentSize(audioVideo.getVideoTile(tileId)?.state());
+
+    const observer = {
+      videoTileDidUpdate: (tileState: VideoTileState): void => {
+        if (tileState.tileId === tileId) {
+          updateContentSize(tileState);
+        }
+      },
+    };
+    audioVideo.addObserver(observer);
+
+    return () => audioVideo.removeObserver(observer);
+  }, [audioVideo, tileId]);
+
+  const draw = useCallback((): void => {
+    const canvas = canvasEl.current;
+    const context = canvas?.getContext('2d');
+    if (!canvas || !context) {
+      return;
+    }
+
+    const pixelRatio = window.devicePixelRatio || 1;
+    const width = Math.round(size.width * pixelRatio);
+    const height = Math.round(size.height * pixelRatio);
+    if (canvas.width !== width || canvas.height !== height) {
+      canvas.width = width;
+      canvas.height = height;
+    }
+
+    context.setTransform(pixelRatio, 0, 0, pixelRatio, 0, 0);
+    context.clearRect(0, 0, size.width, size.height);
+    stateRef.current.annotations.forEach((annotation) =>
+      drawAnnotation(context, annotation, rect)
+    );
+    if (draftRef.current) {
+      drawAnnotation(context, draftRef.current, rect);
+    }
+  }, [size, rect]);
+
+  useEffect(() => {
+    draw();
+  }, [draw, state]);
+
+  const sendEvent = useCallback(
+    (event: AnnotationEvent): void => {
+      if (!shareAttendeeId) {
+        return;
+      }
+
+      try {
+        const { senderAttendeeId } = send(event);
+        updateState((current) =>
+          applyAnnotationEvent(
+            current,
+            event,
+            senderAttendeeId,
+            senderAttendeeId === shareAttendeeId
+          )
+        );
+      } catch (error) {
+        logger.error(
+          `[AnnotationLayer] failed to send an annotation: ${error}`
+        );
+        onAnnotationErrorRef.current?.(error as Error);
+      }
+    },
+    [send, shareAttendeeId, updateState, logger]
+  );
+
+  const addAnnotation = (annotation: Annotation): void => {
+    if (shareAttendeeId) {
+      sendEvent({ type: 'add', shareAttendeeId, annotation });
+    }
+  };
+
+  const getPoint = (event: React.PointerEvent): AnnotationPoint => {
+    const bounds = event.currentTarget.getBoundingClientRect();
+    return toAnnotationPoint(
+      event.clientX - bounds.left,
+      event.clientY - bounds.top,
+      rect
+    );
+  };
+
+  const onPointerDown = (
+    event: React.PointerEvent<HTMLCanvasElement>
+  ): void => {
+    if (!drawingTool) {
+      return;
+    }
+
+    const point = getPoint(event);
+    if (drawingTool === AnnotationTool.TEXT) {
+      setTextPoint(point);
+      return;
+    }
+
+    event.currentTarget.setPointerCapture?.(event.pointerId);
+    draftRef.current = {
+      id: uuidv4(),
+      tool: drawingTool,
+      color,
+      points: [point],
+    };
+    draw();
+  };
+
+  const onPointerMove = (
+    event: React.PointerEvent<HTMLCanvasElement>
+  ): void => {
+    const draft = draftRef.current;
+    if (!draft) {
+      return;
+    }
+
+    const point = getPoint(event);
+    // An arrow only keeps where it starts and ends
+    draft.points =
+      draft.tool === AnnotationTool.ARROW
+        ? [draft.points[0], point]
+        : [...draft.points, point];
+    draw();
+  };
+
+  const onPointerUp = (): void => {
+    const draft = draftRef.current;
+    if (!draft) {
+      return;
+    }
+
+    draftRef.current = null;
+    addAnnotation({ ...draft, points: simplifyPoints(draft.points) });
+    draw();
+  };
+
+  const commitText = (text: string): void => {
+    if (textPoint && text.trim()) {
+      addAnnotation({
+        id: uuidv4(),
+        tool: AnnotationTool.TEXT,
+        color,
+        points: [textPoint],
+        text: text.trim(),
+      });
+    }
+    setTextPoint(null);
+  };
+
+  const onTextKeyDown = (
+    event: React.KeyboardEvent<HTMLInputElement>
+  ): void => {
+    // Blurring commits the text
+    if (event.key === 'Enter') {
+      event.currentTarget.blur();
+    } else if (event.key === 'Escape') {
+      setTextPoint(null);
+    }
+  };
+
+  if (!shareAttendeeId) {
+    return null;
+  }
+
+  const labels = { ...defaultToolLabels, ...toolLabels };
+  let canvasClassName: string | undefined;
+  if (drawingTool) {
+    canvasClassName = 'ch-annotation-drawing';
+  }
+
+  return (
+    <StyledAnnotationLayer
+      ref={layerEl}
+      data-testid="annotation-layer"
+      {...rest}
+    >
+      <canvas
+        ref={canvasEl}
+        className={canvasClassName}
+        onPointerDown={onPointerDown}
+        onPointerMove={onPointerMove}
+        onPointerUp={onPointerUp}
+        onPointerCancel={onPointerUp}
+      />
+      {textPoint && (
+        <input
+          className="ch-annotation-text"
+          aria-label={labels[AnnotationTool.TEXT]}
+          autoFocus
+          maxLength={200}
+          style={{
+            left: rect.x + textPoint[0] * rect.width,
+            top: rect.y + textPoint[1] * rect.height,
+          }}
+          onKeyDown={onTextKeyDown}
+          onBlur={(event): void => commitText(event.currentTarget.value)}
+        />
+      )}
+      {showToolbar && (
+        <div className="ch-annotation-toolbar">
+          {canAnnotate &&
+            tools.map((toolOption) => (
+              <SecondaryButton
+                key={toolOption}
+                label={labels[toolOption]}
+                selected={tool === toolOption}
+                onClick={(): void =>
+                  setTool(tool === toolOption ? null : toolOption)
+                }
+              />
+            ))}
+          {isPresenter && (
+            <>
+              <SecondaryButton
+                label={clearLabel}
+                onClick={(): void =>
+                  sendEvent({ type: 'clear', shareAttendeeId })
+                }
+              />
+              <SecondaryButton
+                label={state.enabled ? disableLabel : enableLabel}
+                onClick={(): void =>
+                  sendEvent({
+                    type: 'enable',
+                    shareAttendeeId,
+                    enabled: !state.enabled,
+                  })
+                }
+              />
+            </>
+          )}
+        </div>
+      )}
+    </StyledAnnotationLayer>
+  );
+};
+
+export default AnnotationLayer;
@@ -3,22 +3,33 @@
 
 import React, { useEffect, useRef } from 'react';
 
+import { useVideoTileViewport } from '../../../hooks/sdk/useVideoTileViewport';
 import { useAudioVideo } from '../../../providers/AudioVideoProvider';
 import { useContentShareState } from '../../../providers/ContentShareProvider';
 import { ContentTile } from '../../ui/ContentTile';
 import { BaseSdkProps } from '../Base';
+import { VideoTileViewportControls } from '../VideoTileViewportControls';
 
 interface Props extends BaseSdkProps {
   nameplate?: string;
+  /** The tile ID of the content share to render, it defaults to the main content share of `useContentShareState`. */
+  tileId?: number;
+  /** Lets people zoom and pan the video and show it in fullscreen, with overlay controls. It defaults to `false`. */
+  zoomable?: boolean;
 }
 
 export const ContentShare: React.FC<React.PropsWithChildren<Props>> = ({
   className,
+  tileId: tileIdProp,
+  zoomable = false,
+  children,
   ...rest
 }) => {
   const audioVideo = useAudioVideo();
-  const { tileId } = useContentShareState();
+  const { tileId: mainTileId } = useContentShareState();
+  const tileId = tileIdProp ?? mainTileId;
   const videoEl = useRef<HTMLVideoElement | null>(null);
+  const viewport = useVideoTileViewport(zoomable ? tileId : null);
 
   useEffect(() => {
     if (!audioVideo || !videoEl.current || !tileId) {
@@ -41,7 +52,10 @@ export const ContentShare: React.FC<React.PropsWithChildren<Props>> = ({
       className={className || ''}
       {...rest}
       ref={videoEl}
-    />
+    >
+      {children}
+      {zoomable && <VideoTileViewportControls viewport={viewport} />}
+    </ContentTile>
   ) : null;
 };
 
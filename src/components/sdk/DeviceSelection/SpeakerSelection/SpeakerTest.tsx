@@ -0,0 +1,112 @@
+// Copyright Amazon.com, Inc. or its affiliates. All Rights Reserved.
+// SPDX-License-Identifier: Apache-2.0
+
+import React, { useCallback, useRef } from 'react';
+import styled from 'styled-components';
+
+import useSpeakerTest from '../../../../hooks/sdk/useSpeakerTest';
+import { SpeakerTestStatus } from '../../../../types';
+import { baseStyles } from '../../../ui/Base';
+import SecondaryButton from '../../../ui/Button/SecondaryButton';
+import { BaseSdkProps } from '../../Base';
+
+const StyledSpeakerTest = styled.div<BaseSdkProps>`
+  display: flex;
+  flex-direction: column;
+  gap: 0.5rem;
+  margin-bottom: 1rem;
+
+  .ch-speaker-test-controls {
+    display: flex;
+    align-items: center;
+    gap: 0.5rem;
+  }
+
+  .ch-speaker-test-level {
+    flex: 1;
+    height: 0.5rem;
+    border-radius: 0.25rem;
+    overflow: hidden;
+    background-color: ${(props) => props.theme.colors.greys.grey10};
+  }
+
+  .ch-speaker-test-level-fill {
+    height: 100%;
+    transform: scaleX(0);
+    transform-origin: left;
+    will-change: transform;
+    background-color: ${(props) => props.theme.colors.primary.light};
+  }
+
+  .ch-speaker-test-failure {
+    color: ${(props) => props.theme.colors.error.primary};
+  }
+
+  ${baseStyles}
+`;
+
+interface Props extends BaseSdkProps {
+  /** The label of the button that plays the test tone, it defaults to `Test speaker`. */
+  label?: string;
+  /** Called when the user confirms whether they heard the tone on the selected speaker. */
+  onResult?: (heard: boolean, deviceId: string | null) => void;
+}
+
+export const SpeakerTest: React.FC<React.PropsWithChildren<Props>> = ({
+  label = 'Test speaker',
+  onResult,
+  ...rest
+}) => {
+  const levelEl = useRef<HTMLDivElement>(null);
+  const onLevel = useCallback((level: number): void => {
+    if (levelEl.current) {
+      levelEl.current.style.transform = `scaleX(${level})`;
+    }
+  }, []);
+  const { status, play, stop, confirm } = useSpeakerTest({
+    onLevel,
+    onResult,
+  });
+
+  let content: React.ReactNode;
+  if (status === SpeakerTestStatus.AWAITING_CONFIRMATION) {
+    content = (
+      <>
+        <span>Did you hear a tone?</span>
+        <SecondaryButton label="Yes" onClick={(): void => confirm(true)} />
+        <SecondaryButton label="No" onClick={(): void => confirm(false)} />
+      </>
+    );
+  } else {
+    const playing = status === SpeakerTestStatus.PLAYING;
+    content = (
+      <>
+        <SecondaryButton
+          label={playing ? 'Stop' : label}
+          onClick={playing ? stop : play}
+        />
+        <div className="ch-speaker-test-level">
+          <div ref={levelEl} className="ch-speaker-test-level-fill" />
+        </div>
+      </>
+    );
+  }
+
+  return (
+    <StyledSpeakerTest data-testid="speaker-test" {...rest}>
+      <div className="ch-speaker-test-controls">{content}</div>
+      {status === SpeakerTestStatus.NOT_HEARD && (
+        <div className="ch-speaker-test-failure">
+          Select another speaker or turn up its volume.
+        </div>
+      )}
+      {status === SpeakerTestStatus.FAILED && (
+        <div className="ch-speaker-test-failure">
+          The test tone could not be played on this speaker.
+        </div>
+      )}
+    </StyledSpeakerTest>
+  );
+};
+
+export default SpeakerTest;
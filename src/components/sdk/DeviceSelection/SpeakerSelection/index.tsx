@@ -8,6 +8,7 @@ import { useLogger } from '../../../../providers/LoggerProvider';
 import { useMeetingManager } from '../../../../providers/MeetingProvider';
 import { BaseSdkProps } from '../../Base';
 import DeviceInput from '../DeviceInput';
+import SpeakerTest from './SpeakerTest';
 
 interface Props extends BaseSdkProps {
   /** The message that will be shown when no audio output speaker devices are found. */
@@ -17,12 +18,21 @@ interface Props extends BaseSdkProps {
   /** The callback fired when the selection is changed.
    *  It is required if you want to add testing functionality around speaker selection. */
   onChange?: (selectedAudioOutputDevice: string) => void;
+  /** Whether to show a button that plays a test tone through the selected speaker. Defaults to `false`. */
+  showSpeakerTest?: boolean;
+  /** The label of the button that plays the test tone, it defaults to `Test speaker`. */
+  speakerTestLabel?: string;
+  /** Called when the user confirms whether they heard the test tone on the selected speaker. */
+  onSpeakerTestResult?: (heard: boolean, deviceId: string | null) => void;
 }
 
 export const SpeakerSelection: React.FC<React.PropsWithChildren<Props>> = ({
   notFoundMsg = 'No speaker devices found',
   label = 'Speaker source',
   onChange,
+  showSpeakerTest = false,
+  speakerTestLabel,
+  onSpeakerTestResult,
   ...rest
 }) => {
   const logger = useLogger();
@@ -39,14 +49,19 @@ export const SpeakerSelection: React.FC<React.PropsWithChildren<Props>> = ({
   };
 
   return (
-    <DeviceInput
-      label={label}
-      devices={devices}
-      onChange={handleSelect}
-      selectedDevice={selectedDevice}
-      notFoundMsg={notFoundMsg}
-      {...rest}
-    />
+    <>
+      <DeviceInput
+        label={label}
+        devices={devices}
+        onChange={handleSelect}
+        selectedDevice={selectedDevice}
+        notFoundMsg={notFoundMsg}
+        {...rest}
+      />
+      {showSpeakerTest && (
+        <SpeakerTest label={speakerTestLabel} onResult={onSpeakerTestResult} />
+      )}
+    </>
   );
 };
 
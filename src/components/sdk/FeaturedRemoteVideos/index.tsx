@@ -4,7 +4,10 @@
 import React, { FC, HTMLAttributes, memo } from 'react';
 
 import { useContentShareState } from '../../../providers/ContentShareProvider';
-import { useFeaturedTileState } from '../../../providers/FeaturedVideoTileProvider';
+import {
+  isContentFeatured,
+  useFeaturedTileState,
+} from '../../../providers/FeaturedVideoTileProvider';
 import { useRemoteVideoTileState } from '../../../providers/RemoteVideoTileProvider';
 import { useRosterState } from '../../../providers/RosterProvider';
 import { useGridData } from '../../ui/VideoGrid';
@@ -20,14 +23,15 @@ export const FeaturedRemoteVideos: FC<React.PropsWithChildren<Props>> = (
 ) => {
   const gridData = useGridData();
   const { roster } = useRosterState();
-  const { tileId: featuredTileId } = useFeaturedTileState();
+  const { tileId: featuredTileId, pinned, policy } = useFeaturedTileState();
   const { tileId: contentTileId } = useContentShareState();
   const { tiles, tileIdToAttendeeId } = useRemoteVideoTileState();
+  const contentFeatured = isContentFeatured(policy, contentTileId, pinned);
 
   return (
     <>
       {tiles.map((tileId) => {
-        const featured = !contentTileId && featuredTileId === tileId;
+        const featured = !contentFeatured && featuredTileId === tileId;
         const styles = gridData && featured ? 'grid-area: ft;' : '';
         const classes = `${featured ? 'ch-featured-tile' : ''} ${
           props.className || ''
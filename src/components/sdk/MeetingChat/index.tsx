@@ -0,0 +1,195 @@
+// Copyright Amazon.com, Inc. or its affiliates. All Rights Reserved.
+// SPDX-License-Identifier: Apache-2.0
+
+import React, { ChangeEvent, FormEvent, useEffect, useState } from 'react';
+import styled from 'styled-components';
+
+import { DataMessageStatus } from '../../../providers/DataMessagesProvider';
+import {
+  ChatMessage,
+  useMeetingChat,
+} from '../../../providers/MeetingChatProvider';
+import { baseStyles } from '../../ui/Base';
+import PrimaryButton from '../../ui/Button/PrimaryButton';
+import { ChatBubble } from '../../ui/Chat/ChatBubble';
+import { ChatBubbleContainer } from '../../ui/Chat/ChatBubble/ChatBubbleContainer';
+import { EditableChatBubble } from '../../ui/Chat/ChatBubble/EditableChatBubble';
+import { InfiniteList } from '../../ui/Chat/InfiniteList';
+import { MessageAttachment } from '../../ui/Chat/MessageAttachment';
+import Input from '../../ui/Input';
+import { PopOverItem } from '../../ui/PopOver/PopOverItem';
+import { BaseSdkProps } from '../Base';
+
+const StyledMeetingChat = styled.div<BaseSdkProps>`
+  display: flex;
+  flex-direction: column;
+  height: 100%;
+
+  .ch-chat-messages {
+    flex: 1;
+    min-height: 0;
+  }
+
+  .ch-chat-form {
+    display: flex;
+    gap: 0.5rem;
+    padding: 0.5rem;
+  }
+
+  .ch-chat-form > :first-child {
+    flex: 1;
+  }
+
+  .ch-chat-failed {
+    color: ${(props) => props.theme.colors.error.primary};
+  }
+
+  ${baseStyles}
+`;
+
+interface Props extends BaseSdkProps {
+  /** The placeholder of the message input, it defaults to `Message everyone`. */
+  placeholder?: string;
+  /** The label of the send button, it defaults to `Send`. */
+  sendLabel?: string;
+  /** The text shown instead of redacted messages, it defaults to `This message was deleted`. */
+  redactedLabel?: string;
+  /** The text shown below messages that could not be sent, it defaults to `Not sent`. */
+  failedLabel?: string;
+  /** Formats the time of the messages, it defaults to the local time of the browser. */
+  formatTimestamp?: (timestamp: string) => string;
+}
+
+const defaultFormatTimestamp = (timestamp: string): string =>
+  new Date(timestamp).toLocaleTimeString([], {
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+
+export const MeetingChat: React.FC<React.PropsWithChildren<Props>> = ({
+  placeholder = 'Message everyone',
+  sendLabel = 'Send',
+  redactedLabel = 'This message was deleted',
+  failedLabel = 'Not sent',
+  formatTimestamp = defaultFormatTimestamp,
+  ...rest
+}) => {
+  const {
+    messages,
+    unreadCount,
+    sendMessage,
+    editMessage,
+    redactMessage,
+    markAsRead,
+  } = useMeetingChat();
+  const [content, setContent] = useState('');
+  const [editingMessageId, setEditingMessageId] = useState<string | null>(null);
+
+  // The messages are read while the chat is shown
+  useEffect(() => {
+    if (unreadCount) {
+      markAsRead();
+    }
+  }, [unreadCount, markAsRead]);
+
+  const handleSubmit = (event: FormEvent): void => {
+    event.preventDefault();
+    if (!content.trim()) {
+      return;
+    }
+
+    sendMessage(content.trim());
+    setContent('');
+  };
+
+  const renderMessage = (message: ChatMessage): React.ReactNode => {
+    const { messageId, content, senderName, local, redacted, attachment } =
+      message;
+    const variant = local ? 'outgoing' : 'incoming';
+
+    if (editingMessageId === messageId) {
+      return (
+        <EditableChatBubble
+          variant={variant}
+          senderName={senderName}
+          content={content}
+          save={(event, newContent): void => {
+            event.preventDefault();
+            editMessage(messageId, newContent);
+            setEditingMessageId(null);
+          }}
+          cancel={(): void => setEditingMessageId(null)}
+        />
+      );
+    }
+
+    let actions: React.ReactNode[] | undefined;
+    if (local && !redacted) {
+      actions = [
+        <PopOverItem
+          key="edit"
+          onClick={(): void => setEditingMessageId(messageId)}
+        >
+          <span>Edit</span>
+        </PopOverItem>,
+        <PopOverItem
+          key="delete"
+          onClick={(): void => redactMessage(messageId)}
+        >
+          <span>Delete</span>
+        </PopOverItem>,
+      ];
+    }
+
+    return (
+      <ChatBubbleContainer
+        timestamp={formatTimestamp(message.createdTimestamp)}
+        actions={actions}
+      >
+        <ChatBubble
+          variant={variant}
+          senderName={senderName}
+          redacted={redacted}
+          showTail
+        >
+          {redacted ? redactedLabel : content}
+          {attachment && (
+            <MessageAttachment
+              name={attachment.name}
+              downloadUrl={attachment.downloadUrl}
+              size={attachment.size}
+            />
+          )}
+          {message.status === DataMessageStatus.FAILED && (
+            <div className="ch-chat-failed">{failedLabel}</div>
+          )}
+        </ChatBubble>
+      </ChatBubbleContainer>
+    );
+  };
+
+  return (
+    <StyledMeetingChat data-testid="meeting-chat" {...rest}>
+      <InfiniteList
+        className="ch-chat-messages"
+        items={messages.map(renderMessage)}
+        onLoad={(): void => undefined}
+        isLoading={false}
+      />
+      <form className="ch-chat-form" onSubmit={handleSubmit}>
+        <Input
+          value={content}
+          placeholder={placeholder}
+          aria-label={placeholder}
+          showClear={false}
+          onChange={(event: ChangeEvent): void =>
+            setContent((event.target as HTMLInputElement).value)
+          }
+        />
+        <PrimaryButton label={sendLabel} disabled={!content.trim()} />
+      </form>
+    </StyledMeetingChat>
+  );
+};
+
+export default MeetingChat;
@@ -2,31 +2,111 @@
 // SPDX-License-Identifier: Apache-2.0
 
 import { DefaultBrowserBehavior } from 'amazon-chime-sdk-js';
-import React, { useEffect, useState } from 'react';
+import React, {
+  ChangeEvent,
+  useCallback,
+  useEffect,
+  useRef,
+  useState,
+} from 'react';
+import styled from 'styled-components';
 
+import useAudioOutputActivity from '../../../hooks/sdk/useAudioOutputActivity';
 import { useAudioOutputs } from '../../../providers/DevicesProvider';
-import { useLocalAudioOutput } from '../../../providers/LocalAudioOutputProvider';
+import {
+  useAudioOutputVolume,
+  useLocalAudioOutput,
+} from '../../../providers/LocalAudioOutputProvider';
 import { useLogger } from '../../../providers/LoggerProvider';
 import { useMeetingManager } from '../../../providers/MeetingProvider';
 import { isOptionActive } from '../../../utils/device-utils';
 import { ControlBarButton } from '../../ui/ControlBar/ControlBarButton';
 import { Sound } from '../../ui/icons';
 import { PopOverItemProps } from '../../ui/PopOver/PopOverItem';
+import { PopOverSeparator } from '../../ui/PopOver/PopOverSeparator';
 import { BaseSdkProps } from '../Base';
 
+const StyledVolumeControl = styled.li`
+  display: flex;
+  flex-direction: column;
+  padding: 0 2.5rem 0.5rem;
+  color: ${(props) => props.theme.popOver.itemText};
+  font-size: ${(props) => props.theme.fontSizes.text.fontSize};
+
+  input {
+    width: 100%;
+    margin: 0.5rem 0;
+  }
+
+  .ch-output-level {
+    height: 0.25rem;
+    border-radius: 0.125rem;
+    overflow: hidden;
+    background-color: ${(props) => props.theme.popOver.separator};
+  }
+
+  .ch-output-level-bar {
+    height: 100%;
+    background-color: ${(props) => props.theme.colors.primary.light};
+    transform: scaleX(0);
+    transform-origin: left;
+  }
+`;
+
+// Rendered only while the popover is open, so that the output level is only measured then
+const VolumeControl: React.FC<{ label: string }> = ({ label }) => {
+  const { volume, setVolume } = useAudioOutputVolume();
+  const levelEl = useRef<HTMLDivElement>(null);
+
+  const updateLevel = useCallback((level: number): void => {
+    if (levelEl.current) {
+      levelEl.current.style.transform = `scaleX(${level})`;
+    }
+  }, []);
+  useAudioOutputActivity(updateLevel);
+
+  return (
+    // Keep the popover open while the volume changes
+    <StyledVolumeControl onClick={(event): void => event.stopPropagation()}>
+      <label>
+        {label}
+        <input
+          type="range"
+          min={0}
+          max={100}
+          value={Math.round(volume * 100)}
+          onChange={(event: ChangeEvent<HTMLInputElement>): void =>
+            setVolume(Number(event.target.value) / 100)
+          }
+        />
+      </label>
+      <div className="ch-output-level" data-testid="audio-output-level">
+        <div className="ch-output-level-bar" ref={levelEl} />
+      </div>
+    </StyledVolumeControl>
+  );
+};
+
 interface Props extends BaseSdkProps {
   /** The label that will be shown for audio output speaker control, it defaults to `Speaker`. */
   label?: string;
+  /** The label of the volume slider in the popover, it defaults to `Volume`. */
+  volumeLabel?: string;
+  /** The label of the popover item that mutes the meeting audio, it defaults to `Mute`. */
+  muteLabel?: string;
 }
 
 export const AudioOutputControl: React.FC<React.PropsWithChildren<Props>> = ({
   label = 'Speaker',
+  volumeLabel = 'Volume',
+  muteLabel = 'Mute',
   ...rest
 }) => {
   const logger = useLogger();
   const meetingManager = useMeetingManager();
   const { devices, selectedDevice } = useAudioOutputs();
   const { isAudioOn, toggleAudio } = useLocalAudioOutput();
+  const { muted, toggleMute } = useAudioOutputVolume();
   const [dropdownOptions, setDropdownOptions] = useState<PopOverItemProps[]>(
     []
   );
@@ -68,12 +148,22 @@ export const AudioOutputControl: React.FC<React.PropsWithChildren<Props>> = ({
   return (
     <>
       <ControlBarButton
-        icon={<Sound disabled={!isAudioOn} />}
+        icon={<Sound disabled={!isAudioOn || muted} />}
         onClick={toggleAudio}
         label={label}
-        popOver={dropdownOptions.length ? dropdownOptions : null}
+        popOver={[
+          ...dropdownOptions,
+          {
+            children: <span>{muteLabel}</span>,
+            checked: muted,
+            onClick: toggleMute,
+          },
+        ]}
         {...rest}
-      />
+      >
+        <PopOverSeparator />
+        <VolumeControl label={volumeLabel} />
+      </ControlBarButton>
     </>
   );
 };
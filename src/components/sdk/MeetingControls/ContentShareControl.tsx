@@ -1,15 +1,34 @@
 // Copyright Amazon.com, Inc. or its affiliates. All Rights Reserved.
 // SPDX-License-Identifier: Apache-2.0
 
-import React from 'react';
+import React, { useRef } from 'react';
 
 import { useContentShareState } from '../../../providers/ContentShareProvider';
 import { useContentShareControls } from '../../../providers/ContentShareProvider';
+import { ContentShareSource, ContentShareSourceType } from '../../../types';
 import { ControlBarButton } from '../../ui/ControlBar/ControlBarButton';
 import { ScreenShare } from '../../ui/icons';
 import { PopOverItemProps } from '../../ui/PopOver/PopOverItem';
 import { BaseSdkProps } from '../Base';
 
+export type ContentShareSourceOption = {
+  /** The label of the dropdown item. */
+  label: string;
+  /** The source to share, users pick the file of a `FILE` source without one. */
+  source: ContentShareSource;
+};
+
+export const defaultContentShareSources: ContentShareSourceOption[] = [
+  { label: 'Share screen', source: { type: ContentShareSourceType.SCREEN } },
+  { label: 'Share window', source: { type: ContentShareSourceType.WINDOW } },
+  { label: 'Share tab', source: { type: ContentShareSourceType.TAB } },
+  {
+    label: 'Share screen with audio',
+    source: { type: ContentShareSourceType.SCREEN_WITH_AUDIO },
+  },
+  { label: 'Share video file', source: { type: ContentShareSourceType.FILE } },
+];
+
 interface Props extends BaseSdkProps {
   /** The label that will be shown for content share control, it defaults to `Content`. */
   label?: string;
@@ -19,6 +38,8 @@ interface Props extends BaseSdkProps {
   unpauseLabel?: string;
   /** Title attribute for the icon, it defaults to `Screen share`. */
   iconTitle?: string;
+  /** The sources to pick in the dropdown before sharing, such as `defaultContentShareSources`. */
+  sources?: ContentShareSourceOption[];
 }
 
 export const ContentShareControl: React.FC<React.PropsWithChildren<Props>> = ({
@@ -26,18 +47,47 @@ export const ContentShareControl: React.FC<React.PropsWithChildren<Props>> = ({
   pauseLabel = 'Pause',
   unpauseLabel = 'Unpause',
   iconTitle,
+  sources,
   ...rest
 }) => {
   const { isLocalUserSharing } = useContentShareState();
   const { paused, toggleContentShare, togglePauseContentShare } =
     useContentShareControls();
+  const fileInputEl = useRef<HTMLInputElement>(null);
+  const fileSourceRef = useRef<ContentShareSource | null>(null);
+
+  const shareSource = (source: ContentShareSource): void => {
+    if (source.type === ContentShareSourceType.FILE && !source.file) {
+      fileSourceRef.current = source;
+      fileInputEl.current?.click();
+      return;
+    }
+    toggleContentShare(source);
+  };
+
+  const onFileChange = (event: React.ChangeEvent<HTMLInputElement>): void => {
+    const file = event.target.files?.[0];
+    // Clear the input so that the same file can be picked again
+    event.target.value = '';
+    if (file && fileSourceRef.current) {
+      toggleContentShare({ ...fileSourceRef.current, file });
+    }
+  };
 
-  const dropdownOptions: PopOverItemProps[] = [
-    {
-      children: <span>{paused ? unpauseLabel : pauseLabel}</span>,
-      onClick: togglePauseContentShare,
-    },
-  ];
+  let dropdownOptions: PopOverItemProps[] | null = null;
+  if (isLocalUserSharing) {
+    dropdownOptions = [
+      {
+        children: <span>{paused ? unpauseLabel : pauseLabel}</span>,
+        onClick: togglePauseContentShare,
+      },
+    ];
+  } else if (sources?.length) {
+    dropdownOptions = sources.map(({ label, source }) => ({
+      children: <span>{label}</span>,
+      onClick: (): void => shareSource(source),
+    }));
+  }
 
   return (
     <>
@@ -45,9 +95,19 @@ export const ContentShareControl: React.FC<React.PropsWithChildren<Props>> = ({
         icon={<ScreenShare title={iconTitle} />}
         onClick={toggleContentShare}
         label={label}
-        popOver={isLocalUserSharing ? dropdownOptions : null}
+        popOver={dropdownOptions}
         {...rest}
       />
+      {sources && (
+        <input
+          ref={fileInputEl}
+          type="file"
+          accept="video/*,audio/*"
+          hidden
+          data-testid="content-share-file-input"
+          onChange={onFileChange}
+        />
+      )}
     </>
   );
 };
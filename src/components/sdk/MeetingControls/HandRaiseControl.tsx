@@ -0,0 +1,70 @@
+// Copyright Amazon.com, Inc. or its affiliates. All Rights Reserved.
+// SPDX-License-Identifier: Apache-2.0
+
+import React from 'react';
+
+import { useRaiseHand } from '../../../providers/RaiseHandProvider';
+import { ControlBarButton } from '../../ui/ControlBar/ControlBarButton';
+import { HandRaise } from '../../ui/icons';
+import { PopOverItemProps } from '../../ui/PopOver/PopOverItem';
+import { BaseSdkProps } from '../Base';
+
+interface Props extends BaseSdkProps {
+  /** The label that will be shown for the hand raise control, it defaults to `Raise hand`. */
+  label?: string;
+  /** The label that will be shown while the hand is raised, it defaults to `Lower hand`. */
+  lowerLabel?: string;
+  /** The label of the button that lowers every hand, only shown to hosts. It defaults to `Lower all hands`. */
+  lowerAllLabel?: string;
+  /** Title attribute for the icon, it defaults to `Raise hand`. */
+  iconTitle?: string;
+  /** Whether to show the reactions in the popover, it defaults to `true`. */
+  showReactions?: boolean;
+}
+
+export const HandRaiseControl: React.FC<React.PropsWithChildren<Props>> = ({
+  label = 'Raise hand',
+  lowerLabel = 'Lower hand',
+  lowerAllLabel = 'Lower all hands',
+  iconTitle = 'Raise hand',
+  showReactions = true,
+  ...rest
+}) => {
+  const {
+    isHandRaised,
+    toggleHand,
+    raisedHands,
+    canLowerHands,
+    lowerAllHands,
+    allowedReactions,
+    sendReaction,
+  } = useRaiseHand();
+
+  const dropdownOptions: PopOverItemProps[] = [];
+  if (showReactions) {
+    allowedReactions.forEach((emoji) =>
+      dropdownOptions.push({
+        children: <span role="img">{emoji}</span>,
+        onClick: (): void => sendReaction(emoji),
+      })
+    );
+  }
+  if (canLowerHands && raisedHands.length) {
+    dropdownOptions.push({
+      children: <span>{lowerAllLabel}</span>,
+      onClick: lowerAllHands,
+    });
+  }
+
+  return (
+    <ControlBarButton
+      icon={<HandRaise isRaised={isHandRaised} title={iconTitle} />}
+      onClick={toggleHand}
+      label={isHandRaised ? lowerLabel : label}
+      popOver={dropdownOptions.length ? dropdownOptions : null}
+      {...rest}
+    />
+  );
+};
+
+export default HandRaiseControl;
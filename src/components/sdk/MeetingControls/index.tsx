@@ -5,6 +5,7 @@ import AudioInputControl from './AudioInputControl';
 import AudioInputVFControl from './AudioInputVFControl';
 import AudioOutputControl from './AudioOutputControl';
 import ContentShareControl from './ContentShareControl';
+import HandRaiseControl from './HandRaiseControl';
 import VideoInputBackgroundBlurControl from './VideoInputBackgroundBlurControl';
 import VideoInputControl from './VideoInputControl';
 
@@ -15,4 +16,5 @@ export {
   VideoInputControl,
   VideoInputBackgroundBlurControl,
   ContentShareControl,
+  HandRaiseControl,
 };
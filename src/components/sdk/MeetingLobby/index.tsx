@@ -0,0 +1,134 @@
+// Copyright Amazon.com, Inc. or its affiliates. All Rights Reserved.
+// SPDX-License-Identifier: Apache-2.0
+
+import React, { useRef } from 'react';
+import styled from 'styled-components';
+
+import useLocalAudioInputActivityPreview from '../../../hooks/sdk/useLocalAudioInputActivityPreview';
+import { useVideoInputs } from '../../../providers/DevicesProvider';
+import {
+  LobbyFailureReason,
+  LobbyStep,
+  useLobby,
+} from '../../../providers/LobbyProvider';
+import { baseStyles } from '../../ui/Base';
+import PrimaryButton from '../../ui/Button/PrimaryButton';
+import { BaseSdkProps } from '../Base';
+import CameraSelection from '../DeviceSelection/CameraSelection';
+import MicSelection from '../DeviceSelection/MicSelection';
+import SpeakerSelection from '../DeviceSelection/SpeakerSelection';
+import PreviewVideo from '../PreviewVideo';
+
+const defaultStepMessages: Record<LobbyStep, string> = {
+  [LobbyStep.PERMISSIONS]: 'Allow access to your microphone and camera',
+  [LobbyStep.DEVICE_SELECTION]: 'Select your devices',
+  [LobbyStep.MIC_CHECK]: 'Say something to check your microphone',
+  [LobbyStep.CAMERA_PREVIEW]: 'Starting your camera preview',
+  [LobbyStep.READY]: 'You are ready to join',
+  [LobbyStep.JOINED]: 'You joined the meeting',
+};
+
+const defaultFailureMessages: Record<LobbyFailureReason, string> = {
+  [LobbyFailureReason.PERMISSION_DENIED]:
+    'Access to your devices was denied. Allow access in your browser settings and try again.',
+  [LobbyFailureReason.NO_MICROPHONE]: 'No microphone was found.',
+  [LobbyFailureReason.NO_CAMERA]: 'No camera was found.',
+  [LobbyFailureReason.JOIN_FAILED]: 'Failed to join the meeting.',
+};
+
+const StyledLobby = styled.div<BaseSdkProps>`
+  display: flex;
+  flex-direction: column;
+
+  .ch-lobby-failure {
+    color: ${(props) => props.theme.colors.error.primary};
+  }
+
+  .ch-lobby-mic-activity {
+    height: 0.5rem;
+    margin-bottom: 1rem;
+    border-radius: 0.25rem;
+    overflow: hidden;
+    background-color: ${(props) => props.theme.colors.greys.grey10};
+  }
+
+  .ch-lobby-mic-activity-fill {
+    height: 100%;
+    transform: scaleX(0);
+    transform-origin: left;
+    will-change: transform;
+    background-color: ${(props) => props.theme.colors.primary.light};
+  }
+
+  ${baseStyles}
+`;
+
+interface Props extends BaseSdkProps {
+  /** The label of the button that starts the meeting, it defaults to `Join meeting`. */
+  joinLabel?: string;
+  /** Overrides the message shown for each lobby step. */
+  stepMessages?: Partial<Record<LobbyStep, string>>;
+  /** Overrides the message shown for each failure reason. */
+  failureMessages?: Partial<Record<LobbyFailureReason, string>>;
+}
+
+const MicActivity: React.FC = () => {
+  const activityEl = useRef<HTMLDivElement>(null);
+  useLocalAudioInputActivityPreview(activityEl);
+
+  return (
+    <div className="ch-lobby-mic-activity">
+      <div className="ch-lobby-mic-activity-fill" ref={activityEl} />
+    </div>
+  );
+};
+
+export const MeetingLobby: React.FC<React.PropsWithChildren<Props>> = ({
+  joinLabel = 'Join meeting',
+  stepMessages,
+  failureMessages,
+  children,
+  ...rest
+}) => {
+  const { step, failureReason, startMeeting } = useLobby();
+  const { selectedDevice: selectedVideoInput } = useVideoInputs();
+
+  if (step === LobbyStep.JOINED) {
+    return null;
+  }
+
+  const showPreview =
+    !!selectedVideoInput &&
+    (step === LobbyStep.CAMERA_PREVIEW || step === LobbyStep.READY);
+
+  return (
+    <StyledLobby data-testid="meeting-lobby" {...rest}>
+      <p className="ch-lobby-step">
+        {stepMessages?.[step] || defaultStepMessages[step]}
+      </p>
+      {failureReason && (
+        <p className="ch-lobby-failure" role="alert">
+          {failureMessages?.[failureReason] ||
+            defaultFailureMessages[failureReason]}
+        </p>
+      )}
+      {step !== LobbyStep.PERMISSIONS && (
+        <>
+          <MicSelection />
+          <MicActivity />
+          <SpeakerSelection />
+          <CameraSelection />
+        </>
+      )}
+      {showPreview && <PreviewVideo />}
+      {children}
+      <PrimaryButton
+        label={joinLabel}
+        disabled={step !== LobbyStep.READY}
+        onClick={startMeeting}
+      />
+    </StyledLobby>
+  );
+};
+
+export default MeetingLobby;
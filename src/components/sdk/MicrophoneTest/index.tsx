@@ -0,0 +1,106 @@
+// Copyright Amazon.com, Inc. or its affiliates. All Rights Reserved.
+// SPDX-License-Identifier: Apache-2.0
+
+import React from 'react';
+import styled from 'styled-components';
+
+import useMicrophoneTest from '../../../hooks/sdk/useMicrophoneTest';
+import { MicrophoneTestStatus } from '../../../types';
+import { baseStyles } from '../../ui/Base';
+import PrimaryButton from '../../ui/Button/PrimaryButton';
+import SecondaryButton from '../../ui/Button/SecondaryButton';
+import { BaseSdkProps } from '../Base';
+
+const defaultStatusMessages: Record<MicrophoneTestStatus, string> = {
+  [MicrophoneTestStatus.IDLE]: 'Record a short sample to hear how you sound',
+  [MicrophoneTestStatus.RECORDING]: 'Recording, say something',
+  [MicrophoneTestStatus.RECORDED]: 'Play the sample to hear how you sound',
+  [MicrophoneTestStatus.PLAYING]: 'Playing the sample',
+  [MicrophoneTestStatus.FAILED]: 'Your microphone could not be tested',
+};
+
+const StyledMicrophoneTest = styled.div<BaseSdkProps>`
+  display: flex;
+  flex-direction: column;
+  gap: 0.5rem;
+
+  .ch-microphone-test-controls {
+    display: flex;
+    gap: 0.5rem;
+  }
+
+  .ch-microphone-test-warning {
+    color: ${(props) => props.theme.colors.error.primary};
+  }
+
+  ${baseStyles}
+`;
+
+interface Props extends BaseSdkProps {
+  /** How long the sample is recorded, in milliseconds. Defaults to `5000`. */
+  durationMs?: number;
+  /** The label of the button that records the sample, it defaults to `Record`. */
+  recordLabel?: string;
+  /** The label of the button that plays the sample, it defaults to `Play`. */
+  playLabel?: string;
+  /** The label of the button that stops recording or playing, it defaults to `Stop`. */
+  stopLabel?: string;
+  /** Overrides the message shown for each test status. */
+  statusMessages?: Partial<Record<MicrophoneTestStatus, string>>;
+  /** The warning shown when the microphone is too loud, it defaults to `Your microphone is too loud...`. */
+  clippingMessage?: string;
+  /** The warning shown when the background noise is loud, it defaults to `There is a lot of background noise...`. */
+  noiseMessage?: string;
+}
+
+export const MicrophoneTest: React.FC<React.PropsWithChildren<Props>> = ({
+  durationMs = 5000,
+  recordLabel = 'Record',
+  playLabel = 'Play',
+  stopLabel = 'Stop',
+  statusMessages,
+  clippingMessage = 'Your microphone is too loud. Move it away or lower its input volume.',
+  noiseMessage = 'There is a lot of background noise. Try a quieter place or turn on noise suppression.',
+  ...rest
+}) => {
+  const {
+    status,
+    measurements,
+    startRecording,
+    stopRecording,
+    play,
+    stopPlayback,
+  } = useMicrophoneTest({ durationMs });
+  const messages = { ...defaultStatusMessages, ...statusMessages };
+
+  let controls: React.ReactNode;
+  if (status === MicrophoneTestStatus.RECORDING) {
+    controls = <SecondaryButton label={stopLabel} onClick={stopRecording} />;
+  } else if (status === MicrophoneTestStatus.PLAYING) {
+    controls = <SecondaryButton label={stopLabel} onClick={stopPlayback} />;
+  } else {
+    controls = (
+      <>
+        <PrimaryButton label={recordLabel} onClick={startRecording} />
+        {status === MicrophoneTestStatus.RECORDED && (
+          <SecondaryButton label={playLabel} onClick={play} />
+        )}
+      </>
+    );
+  }
+
+  return (
+    <StyledMicrophoneTest data-testid="microphone-test" {...rest}>
+      <div className="ch-microphone-test-status">{messages[status]}</div>
+      {measurements?.clipping && (
+        <div className="ch-microphone-test-warning">{clippingMessage}</div>
+      )}
+      {measurements?.noisy && (
+        <div className="ch-microphone-test-warning">{noiseMessage}</div>
+      )}
+      <div className="ch-microphone-test-controls">{controls}</div>
+    </StyledMicrophoneTest>
+  );
+};
+
+export default MicrophoneTest;
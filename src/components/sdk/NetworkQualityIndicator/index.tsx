@@ -0,0 +1,89 @@
+// Copyright Amazon.com, Inc. or its affiliates. All Rights Reserved.
+// SPDX-License-Identifier: Apache-2.0
+
+import React from 'react';
+import styled from 'styled-components';
+
+import { ConnectionHealthReason, ConnectionQuality } from '../../../types';
+import { SignalStrength } from '../../ui/icons';
+import { BaseSdkProps } from '../Base';
+
+const defaultQualityLabels: Record<ConnectionQuality, string> = {
+  [ConnectionQuality.GOOD]: 'Good connection',
+  [ConnectionQuality.FAIR]: 'Unstable connection',
+  [ConnectionQuality.POOR]: 'Poor connection',
+};
+
+const defaultReasonLabels: Record<ConnectionHealthReason, string> = {
+  [ConnectionHealthReason.UPSTREAM_PACKET_LOSS]: 'Your audio is losing data',
+  [ConnectionHealthReason.DOWNSTREAM_PACKET_LOSS]:
+    'The meeting audio is losing data',
+  [ConnectionHealthReason.HIGH_ROUND_TRIP_TIME]: 'High latency',
+  [ConnectionHealthReason.HIGH_JITTER]: 'Unsteady audio delivery',
+  [ConnectionHealthReason.LOW_BANDWIDTH]: 'Low bandwidth',
+  [ConnectionHealthReason.WEAK_SIGNAL]: 'Weak signal',
+  [ConnectionHealthReason.CONNECTION_POOR]: 'The connection became poor',
+  [ConnectionHealthReason.VIDEO_STOP_SUGGESTED]:
+    'Turn off your video to improve the connection',
+};
+
+const StyledNetworkQualityIndicator = styled.span<{
+  quality: ConnectionQuality;
+}>`
+  display: inline-flex;
+  line-height: 0;
+  color: ${({ quality, theme }) => {
+    if (quality === ConnectionQuality.POOR) {
+      return theme.colors.error.primary;
+    }
+    if (quality === ConnectionQuality.FAIR) {
+      return theme.colors.warning.primary;
+    }
+    return theme.colors.success.primary;
+  }};
+`;
+
+interface Props extends BaseSdkProps {
+  /** The quality of the connection, such as returned by `useConnectionHealth`. */
+  quality: ConnectionQuality;
+  /** Why the quality is not good, listed in the title of the icon. */
+  reasons?: ConnectionHealthReason[];
+  /** The width of the icon, it defaults to `1.5rem`. */
+  width?: string;
+  /** Overrides the label of each quality. */
+  qualityLabels?: Partial<Record<ConnectionQuality, string>>;
+  /** Overrides the label of each reason. */
+  reasonLabels?: Partial<Record<ConnectionHealthReason, string>>;
+}
+
+export const NetworkQualityIndicator: React.FC<
+  React.PropsWithChildren<Props>
+> = ({
+  quality,
+  reasons = [],
+  width = '1.5rem',
+  qualityLabels,
+  reasonLabels,
+  ...rest
+}) => {
+  const label = { ...defaultQualityLabels, ...qualityLabels }[quality];
+  const reasonText = reasons
+    .map((reason) => ({ ...defaultReasonLabels, ...reasonLabels }[reason]))
+    .join(', ');
+  const title = reasonText ? `${label}: ${reasonText}` : label;
+
+  return (
+    <StyledNetworkQualityIndicator
+      quality={quality}
+      role="img"
+      aria-label={title}
+      data-testid="network-quality-indicator"
+      data-quality={quality}
+      {...rest}
+    >
+      <SignalStrength width={width} title={title} />
+    </StyledNetworkQualityIndicator>
+  );
+};
+
+export default NetworkQualityIndicator;
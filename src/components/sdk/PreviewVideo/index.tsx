@@ -49,7 +49,9 @@ export const PreviewVideo: React.FC<React.PropsWithChildren<BaseSdkProps>> = (
       }
 
       try {
-        await meetingManager.startVideoInputDevice(selectedDevice);
+        await meetingManager.startVideoInputDevice(selectedDevice, {
+          persist: false,
+        });
         audioVideo.startVideoPreviewForVideoInput(videoEl.current);
         setIsVideoEnabled(true);
       } catch (error) {
@@ -2,11 +2,25 @@
 // SPDX-License-Identifier: Apache-2.0
 
 import React, { HTMLAttributes, useEffect, useRef } from 'react';
+import styled from 'styled-components';
 
+import { useVideoTileViewport } from '../../../hooks/sdk/useVideoTileViewport';
 import { useApplyVideoObjectFit } from '../../../hooks/useApplyVideoObjectFit';
 import { useAudioVideo } from '../../../providers/AudioVideoProvider';
+import { useAttendeeHandState } from '../../../providers/RaiseHandProvider';
+import { slideDownAndScaleUp } from '../../../utils/animations';
 import { VideoTile } from '../../ui/VideoTile';
 import { BaseSdkProps } from '../Base';
+import { VideoTileViewportControls } from '../VideoTileViewportControls';
+
+const StyledReaction = styled.span`
+  position: absolute;
+  top: 0.5rem;
+  right: 0.5rem;
+  font-size: 2.5rem;
+  line-height: 1;
+  animation: ${slideDownAndScaleUp} 0.25s ease-out;
+`;
 
 interface Props
   extends Omit<HTMLAttributes<HTMLDivElement>, 'css'>,
@@ -15,17 +29,23 @@ interface Props
   tileId: number;
   /** The name to show on the video's nameplate */
   name?: string;
+  /** Lets people zoom and pan the video and show it in fullscreen, with overlay controls. It defaults to `false`. */
+  zoomable?: boolean;
 }
 
 export const RemoteVideo: React.FC<React.PropsWithChildren<Props>> = ({
   name,
   className,
   tileId,
+  zoomable = false,
   ...rest
 }) => {
   const audioVideo = useAudioVideo();
   const videoEl = useRef<HTMLVideoElement>(null);
   useApplyVideoObjectFit(videoEl);
+  const viewport = useVideoTileViewport(zoomable ? tileId : null);
+  const attendeeId = audioVideo?.getVideoTile(tileId)?.state().boundAttendeeId;
+  const { reaction } = useAttendeeHandState(attendeeId || undefined);
 
   useEffect(() => {
     if (!audioVideo || !videoEl.current) {
@@ -48,7 +68,19 @@ export const RemoteVideo: React.FC<React.PropsWithChildren<Props>> = ({
       ref={videoEl}
       nameplate={name}
       className={`ch-remote-video--${tileId} ${className || ''}`}
-    />
+    >
+      {reaction && (
+        <StyledReaction
+          key={reaction.timestampMs}
+          className="ch-reaction"
+          role="img"
+          data-testid="video-tile-reaction"
+        >
+          {reaction.emoji}
+        </StyledReaction>
+      )}
+      {zoomable && <VideoTileViewportControls viewport={viewport} />}
+    </VideoTile>
   );
 };
 
@@ -8,15 +8,21 @@ import { useRosterState } from '../../../providers/RosterProvider';
 import { BaseSdkProps } from '../Base';
 import { RemoteVideo } from '../RemoteVideo';
 
-export const RemoteVideos: React.FC<React.PropsWithChildren<BaseSdkProps>> = (
-  props
-) => {
+interface Props extends BaseSdkProps {
+  /** The remote tiles to render. Defaults to every remote tile. */
+  tileIds?: number[];
+}
+
+export const RemoteVideos: React.FC<React.PropsWithChildren<Props>> = ({
+  tileIds,
+  ...props
+}) => {
   const { roster } = useRosterState();
   const { tiles, tileIdToAttendeeId } = useRemoteVideoTileState();
 
   return (
     <>
-      {tiles.map((tileId) => {
+      {(tileIds || tiles).map((tileId) => {
         const attendee = roster[tileIdToAttendeeId[tileId]] || {};
         const { name }: any = attendee;
         return (
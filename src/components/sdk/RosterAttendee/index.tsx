@@ -3,11 +3,17 @@
 
 import React from 'react';
 
+import useAttendeeAudioStatus from '../../../hooks/sdk/useAttendeeAudioStatus';
 import useAttendeeStatus from '../../../hooks/sdk/useAttendeeStatus';
+import { useAttendeeHandState } from '../../../providers/RaiseHandProvider';
 import { useRosterState } from '../../../providers/RosterProvider';
+import { ConnectionHealthReason, ConnectionQuality } from '../../../types';
+import { getSignalStrengthQuality } from '../../../utils/connection-health';
+import { ListHandRaise } from '../../ui/icons';
 import RosterCell, { RosterCellProps } from '../../ui/Roster/RosterCell';
 import { BaseSdkProps } from '../Base';
 import MicrophoneActivity from '../MicrophoneActivity';
+import NetworkQualityIndicator from '../NetworkQualityIndicator';
 
 export interface RosterAttendeeProps
   extends Omit<RosterCellProps, 'name'>,
@@ -22,6 +28,36 @@ export const RosterAttendee: React.FC<
   const { muted, videoEnabled, sharingContent } = useAttendeeStatus(attendeeId);
   const { roster } = useRosterState();
   const attendeeName = roster[attendeeId]?.name || '';
+  const { handRaised, queuePosition, reaction } =
+    useAttendeeHandState(attendeeId);
+  const { signalStrength } = useAttendeeAudioStatus(attendeeId);
+  const poorConnection =
+    getSignalStrengthQuality(signalStrength) === ConnectionQuality.POOR;
+
+  let extraIcon: React.ReactNode;
+  if (handRaised || reaction || poorConnection) {
+    extraIcon = (
+      <>
+        {reaction && (
+          <span className="ch-reaction" role="img">
+            {reaction.emoji}
+          </span>
+        )}
+        {handRaised && (
+          <ListHandRaise
+            width="1.5rem"
+            title={`Hand raised (${queuePosition})`}
+          />
+        )}
+        {poorConnection && (
+          <NetworkQualityIndicator
+            quality={ConnectionQuality.POOR}
+            reasons={[ConnectionHealthReason.WEAK_SIGNAL]}
+          />
+        )}
+      </>
+    );
+  }
 
   return (
     <RosterCell
@@ -29,7 +65,9 @@ export const RosterAttendee: React.FC<
       muted={muted}
       videoEnabled={videoEnabled}
       sharingContent={sharingContent}
+      poorConnection={poorConnection}
       microphone={<MicrophoneActivity attendeeId={attendeeId} />}
+      extraIcon={extraIcon}
       {...rest}
     />
   );
@@ -0,0 +1,64 @@
+// Copyright Amazon.com, Inc. or its affiliates. All Rights Reserved.
+// SPDX-License-Identifier: Apache-2.0
+
+import React from 'react';
+
+import useAttendeeStatus from '../../../hooks/sdk/useAttendeeStatus';
+import { useLogger } from '../../../providers/LoggerProvider';
+import { useModeration } from '../../../providers/ModerationProvider';
+import { PopOverItem } from '../../ui/PopOver/PopOverItem';
+
+interface Props {
+  /** The ID of a Chime meeting attendee. */
+  attendeeId: string;
+  /** The label of the item that asks the attendee to mute, it defaults to `Ask to mute`. */
+  muteLabel?: string;
+  /** The label of the item that removes the attendee, it defaults to `Remove from meeting`. */
+  removeLabel?: string;
+  /** Called when the attendee could not be removed. By default, the error is logged. */
+  onRemoveError?: (error: Error) => void;
+}
+
+export const RosterAttendeeModerationMenu: React.FC<
+  React.PropsWithChildren<Props>
+> = ({
+  attendeeId,
+  muteLabel = 'Ask to mute',
+  removeLabel = 'Remove from meeting',
+  onRemoveError,
+}) => {
+  const logger = useLogger();
+  const { muted } = useAttendeeStatus(attendeeId);
+  const { canModerateAttendee, requestMute, removeAttendee } = useModeration();
+
+  if (!canModerateAttendee(attendeeId)) {
+    return null;
+  }
+
+  const handleRemove = async (): Promise<void> => {
+    try {
+      await removeAttendee(attendeeId);
+    } catch (error) {
+      if (onRemoveError) {
+        onRemoveError(error as Error);
+      } else {
+        logger.error(`Failed to remove attendee ${attendeeId}: ${error}`);
+      }
+    }
+  };
+
+  return (
+    <>
+      {!muted && (
+        <PopOverItem onClick={(): void => requestMute(attendeeId)}>
+          <span>{muteLabel}</span>
+        </PopOverItem>
+      )}
+      <PopOverItem onClick={handleRemove}>
+        <span>{removeLabel}</span>
+      </PopOverItem>
+    </>
+  );
+};
+
+export default RosterAttendeeModerationMenu;
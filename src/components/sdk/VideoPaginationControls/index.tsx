@@ -0,0 +1,73 @@
+// Copyright Amazon.com, Inc. or its affiliates. All Rights Reserved.
+// SPDX-License-Identifier: Apache-2.0
+
+import React from 'react';
+import styled from 'styled-components';
+
+import { useVideoPagination } from '../../../providers/VideoPaginationProvider';
+import { baseStyles } from '../../ui/Base';
+import IconButton from '../../ui/Button/IconButton';
+import { Caret } from '../../ui/icons';
+import { BaseSdkProps } from '../Base';
+
+const StyledControls = styled.div<BaseSdkProps>`
+  display: flex;
+  align-items: center;
+  gap: 0.5rem;
+  padding: 0.25rem 0.5rem;
+  border-radius: 0.25rem;
+  color: ${(props) => props.theme.colors.greys.white};
+  background-color: ${(props) => props.theme.colors.greys.grey80};
+
+  .ch-pagination-page {
+    font-size: 0.875rem;
+  }
+
+  ${baseStyles}
+`;
+
+interface Props extends BaseSdkProps {
+  /** The label of the previous page button, it defaults to `Previous page`. */
+  previousLabel?: string;
+  /** The label of the next page button, it defaults to `Next page`. */
+  nextLabel?: string;
+}
+
+export const VideoPaginationControls: React.FC<
+  React.PropsWithChildren<Props>
+> = ({ previousLabel = 'Previous page', nextLabel = 'Next page', ...rest }) => {
+  const {
+    page,
+    pageCount,
+    hasNextPage,
+    hasPreviousPage,
+    nextPage,
+    previousPage,
+  } = useVideoPagination();
+
+  if (pageCount < 2) {
+    return null;
+  }
+
+  return (
+    <StyledControls data-testid="video-pagination-controls" {...rest}>
+      <IconButton
+        label={previousLabel}
+        icon={<Caret direction="left" />}
+        disabled={!hasPreviousPage}
+        onClick={previousPage}
+      />
+      <span className="ch-pagination-page">
+        {page + 1} / {pageCount}
+      </span>
+      <IconButton
+        label={nextLabel}
+        icon={<Caret direction="right" />}
+        disabled={!hasNextPage}
+        onClick={nextPage}
+      />
+    </StyledControls>
+  );
+};
+
+export default VideoPaginationControls;
@@ -1,18 +1,24 @@
 // Copyright Amazon.com, Inc. or its affiliates. All Rights Reserved.
 // SPDX-License-Identifier: Apache-2.0
 
-import React from 'react';
+import React, { useEffect } from 'react';
+import styled from 'styled-components';
 
 import { useContentShareState } from '../../../providers/ContentShareProvider';
-import { useFeaturedTileState } from '../../../providers/FeaturedVideoTileProvider';
+import {
+  isContentFeatured,
+  useFeaturedTileState,
+} from '../../../providers/FeaturedVideoTileProvider';
 import { useLocalVideo } from '../../../providers/LocalVideoProvider';
 import { useRemoteVideoTileState } from '../../../providers/RemoteVideoTileProvider';
+import { useVideoPagination } from '../../../providers/VideoPaginationProvider';
 import { BaseProps } from '../../ui/Base';
 import { Layout, VideoGrid } from '../../ui/VideoGrid';
 import { ContentShare } from '../ContentShare';
 import { FeaturedRemoteVideos } from '../FeaturedRemoteVideos';
 import { LocalVideo } from '../LocalVideo';
 import { RemoteVideos } from '../RemoteVideos';
+import { VideoPaginationControls } from '../VideoPaginationControls';
 
 const fluidStyles = `
   height: 100%;
@@ -33,37 +39,110 @@ const staticStyles = `
   }
 `;
 
+const paginationControlsStyles = `
+  position: absolute;
+  bottom: 1rem;
+  left: 50%;
+  transform: translateX(-50%);
+  z-index: 1;
+`;
+
+// Places several content shares side by side in the featured area
+const StyledFeaturedContentShares = styled.div`
+  grid-area: ft;
+  display: grid;
+  grid-auto-flow: column;
+  grid-auto-columns: 1fr;
+  gap: 0.25rem;
+  min-width: 0;
+  min-height: 0;
+`;
+
 interface Props extends BaseProps {
   /** A component to render when there are no remote videos present */
   noRemoteVideoView?: React.ReactNode;
-  /** The layout of the grid. */
-  layout?: Layout;
+  /** The layout of the grid. The `gallery` layout only renders one page of remote videos
+   * and pauses the others.
+   */
+  layout?: Layout | 'gallery';
+  /** The number of remote videos per page in the `gallery` layout. */
+  pageSize?: number;
 }
 
 export const VideoTileGrid: React.FC<React.PropsWithChildren<Props>> = ({
   noRemoteVideoView,
   layout = 'featured',
+  pageSize,
   ...rest
 }) => {
-  const { tileId: featureTileId } = useFeaturedTileState();
-  const { tiles } = useRemoteVideoTileState();
-  const { tileId: contentTileId } = useContentShareState();
+  const { tileId: featureTileId, pinned, policy } = useFeaturedTileState();
+  const { tiles: allTiles } = useRemoteVideoTileState();
+  const { pageTiles, setPageSize, setPaginated } = useVideoPagination();
+  const { tileId: contentTileId, shares: contentShares } =
+    useContentShareState();
   const { isVideoEnabled } = useLocalVideo();
+  const gallery = layout === 'gallery';
+  const tiles = gallery ? pageTiles : allTiles;
+  // A pinned tile only replaces the content share in the featured layout
+  const contentFeatured = isContentFeatured(
+    policy,
+    contentTileId,
+    layout === 'featured' && pinned
+  );
   const featured =
     (layout === 'featured' && !!featureTileId) || !!contentTileId;
-  const remoteSize = tiles.length + (contentTileId ? 1 : 0);
+
+  useEffect(() => {
+    if (!gallery) {
+      return;
+    }
+
+    setPaginated(true);
+    return () => setPaginated(false);
+  }, [gallery, setPaginated]);
+
+  useEffect(() => {
+    if (pageSize) {
+      setPageSize(pageSize);
+    }
+  }, [pageSize, setPageSize]);
+
+  // Featured content shares take a single grid slot together
+  const contentSize =
+    contentFeatured && contentShares.length ? 1 : contentShares.length;
+  const remoteSize = tiles.length + contentSize;
   const gridSize =
     remoteSize > 1 && isVideoEnabled ? remoteSize + 1 : remoteSize;
 
+  let contentShareTiles: React.ReactNode = contentShares.map(({ tileId }) => (
+    <ContentShare key={tileId} tileId={tileId} />
+  ));
+  if (contentFeatured && contentShares.length === 1) {
+    contentShareTiles = (
+      <ContentShare tileId={contentShares[0].tileId} css="grid-area: ft;" />
+    );
+  } else if (contentFeatured && contentShares.length > 1) {
+    contentShareTiles = (
+      <StyledFeaturedContentShares data-testid="featured-content-shares">
+        {contentShareTiles}
+      </StyledFeaturedContentShares>
+    );
+  }
+
   return (
     <VideoGrid {...rest} size={gridSize} layout={featured ? 'featured' : null}>
-      <ContentShare css="grid-area: ft;" />
-      {layout === 'featured' ? <FeaturedRemoteVideos /> : <RemoteVideos />}
+      {contentShareTiles}
+      {layout === 'featured' ? (
+        <FeaturedRemoteVideos />
+      ) : (
+        <RemoteVideos tileIds={tiles} />
+      )}
       <LocalVideo
         nameplate="Me"
         css={gridSize > 1 ? fluidStyles : staticStyles}
       />
       {remoteSize === 0 && noRemoteVideoView}
+      {gallery && <VideoPaginationControls css={paginationControlsStyles} />}
     </VideoGrid>
   );
 };
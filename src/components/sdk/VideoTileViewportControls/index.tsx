@@ -0,0 +1,94 @@
+// Copyright Amazon.com, Inc. or its affiliates. All Rights Reserved.
+// SPDX-License-Identifier: Apache-2.0
+
+import React from 'react';
+import styled from 'styled-components';
+
+import { VideoTileViewport } from '../../../hooks/sdk/useVideoTileViewport';
+import { baseStyles } from '../../ui/Base';
+import IconButton from '../../ui/Button/IconButton';
+import { Dock, ZoomIn, ZoomOut } from '../../ui/icons';
+import { BaseSdkProps } from '../Base';
+
+const StyledVideoTileViewportControls = styled.div<BaseSdkProps>`
+  position: absolute;
+  right: 0.5rem;
+  bottom: 0.5rem;
+  display: flex;
+  gap: 0.25rem;
+  border-radius: 0.25rem;
+  background-color: rgba(46, 47, 52, 0.85);
+  color: ${(props) => props.theme.colors.greys.white};
+
+  /* Overrides the placeholder icon styles of the video tile */
+  && .ch-icon {
+    background-color: transparent;
+  }
+
+  ${baseStyles}
+`;
+
+interface Props extends BaseSdkProps {
+  /** The viewport of the tile, as returned by `useVideoTileViewport`. */
+  viewport: VideoTileViewport;
+  /** The label of the zoom in button, it defaults to `Zoom in`. */
+  zoomInLabel?: string;
+  /** The label of the zoom out button, it defaults to `Zoom out`. */
+  zoomOutLabel?: string;
+  /** The label of the button that shows the tile in fullscreen, it defaults to `Fullscreen`. */
+  fullscreenLabel?: string;
+  /** The label of the button that exits fullscreen, it defaults to `Exit fullscreen`. */
+  exitFullscreenLabel?: string;
+}
+
+export const VideoTileViewportControls: React.FC<
+  React.PropsWithChildren<Props>
+> = ({
+  viewport,
+  zoomInLabel = 'Zoom in',
+  zoomOutLabel = 'Zoom out',
+  fullscreenLabel = 'Fullscreen',
+  exitFullscreenLabel = 'Exit fullscreen',
+  ...rest
+}) => {
+  const {
+    zoom,
+    maxZoom,
+    isZoomed,
+    isFullscreen,
+    fullscreenEnabled,
+    zoomIn,
+    zoomOut,
+    toggleFullscreen,
+  } = viewport;
+
+  return (
+    <StyledVideoTileViewportControls
+      data-testid="video-tile-viewport-controls"
+      {...rest}
+    >
+      <IconButton
+        label={zoomOutLabel}
+        icon={<ZoomOut />}
+        disabled={!isZoomed}
+        onClick={zoomOut}
+      />
+      <IconButton
+        label={zoomInLabel}
+        icon={<ZoomIn />}
+        disabled={zoom >= maxZoom}
+        onClick={zoomIn}
+      />
+      {fullscreenEnabled && (
+        <IconButton
+          label={isFullscreen ? exitFullscreenLabel : fullscreenLabel}
+          icon={<Dock undock={!isFullscreen} />}
+          selected={isFullscreen}
+          onClick={toggleFullscreen}
+        />
+      )}
+    </StyledVideoTileViewportControls>
+  );
+};
+
+export default VideoTileViewportControls;
@@ -0,0 +1,33 @@
+// Copyright Amazon.com, Inc. or its affiliates. All Rights Reserved.
+// SPDX-License-Identifier: Apache-2.0
+
+import React from 'react';
+import SpeakerTimeChart from './';
+
+export default {
+  title: 'UI Components/SpeakerTimeChart',
+  component: SpeakerTimeChart,
+};
+
+const speakers = [
+  { attendeeId: 'attendee-1', name: 'Alice', talkTimeMs: 754000 },
+  { attendeeId: 'attendee-2', name: 'Bob', talkTimeMs: 421000 },
+  { attendeeId: 'attendee-3', name: 'Carol', talkTimeMs: 96000 },
+];
+
+export const _SpeakerTimeChart = (args) => {
+  return (
+    <div style={{ width: '20rem' }}>
+      <SpeakerTimeChart {...args} />
+    </div>
+  );
+};
+
+_SpeakerTimeChart.args = {
+  speakers,
+  title: 'Speaking time',
+};
+
+_SpeakerTimeChart.story = {
+  name: 'SpeakerTimeChart',
+};
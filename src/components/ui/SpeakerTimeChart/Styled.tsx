@@ -0,0 +1,37 @@
+// Copyright Amazon.com, Inc. or its affiliates. All Rights Reserved.
+// SPDX-License-Identifier: Apache-2.0
+
+import styled from 'styled-components';
+
+import { baseSpacing, baseStyles } from '../Base';
+
+export const StyledSpeakerTimeChart = styled.div`
+  width: 100%;
+
+  .ch-speaker-time-chart {
+    display: block;
+    overflow: visible;
+  }
+
+  .ch-speaker-time-label,
+  .ch-speaker-time-duration {
+    fill: ${(props) => props.theme.globalStyle.text};
+    font-size: ${(props) => props.theme.fontSizes.small.fontSize};
+  }
+
+  .ch-speaker-time-duration {
+    font-variant-numeric: tabular-nums;
+  }
+
+  .ch-speaker-time-track {
+    fill: ${(props) => props.theme.globalStyle.text};
+    fill-opacity: 0.15;
+  }
+
+  .ch-speaker-time-bar {
+    fill: ${(props) => props.theme.colors.primary.light};
+  }
+
+  ${baseSpacing};
+  ${baseStyles}
+`;
@@ -0,0 +1,110 @@
+// Copyright Amazon.com, Inc. or its affiliates. All Rights Reserved.
+// SPDX-License-Identifier: Apache-2.0
+
+import React, { FC } from 'react';
+
+import { BaseProps } from '../Base';
+import { StyledSpeakerTimeChart } from './Styled';
+
+export interface SpeakerTime {
+  attendeeId: string;
+  /** The name shown next to the bar, it defaults to the attendee ID. */
+  name?: string;
+  talkTimeMs: number;
+}
+
+export interface SpeakerTimeChartProps extends BaseProps {
+  /** The speaking time of each attendee, drawn in the given order. */
+  speakers: SpeakerTime[];
+  /** The time the bars are relative to, such as the meeting duration. It defaults to the total speaking time. */
+  totalMs?: number;
+  /** The accessible title of the chart, it defaults to `Speaking time`. */
+  title?: string;
+  /** Formats the speaking time of each attendee, it defaults to minutes and seconds. */
+  formatDuration?: (durationMs: number) => string;
+}
+
+const ROW_HEIGHT = 36;
+const BAR_HEIGHT = 8;
+
+const defaultFormatDuration = (durationMs: number): string => {
+  const seconds = Math.round(durationMs / 1000);
+  return `${Math.floor(seconds / 60)}:${`${seconds % 60}`.padStart(2, '0')}`;
+};
+
+export const SpeakerTimeChart: FC<
+  React.PropsWithChildren<SpeakerTimeChartProps>
+> = ({
+  speakers,
+  totalMs,
+  title = 'Speaking time',
+  formatDuration = defaultFormatDuration,
+  className,
+  tag,
+  ...rest
+}) => {
+  const total =
+    totalMs ?? speakers.reduce((sum, { talkTimeMs }) => sum + talkTimeMs, 0);
+  const height = Math.max(speakers.length, 1) * ROW_HEIGHT;
+
+  return (
+    <StyledSpeakerTimeChart
+      className={className || ''}
+      as={tag}
+      data-testid="speaker-time-chart"
+      {...rest}
+    >
+      <svg
+        className="ch-speaker-time-chart"
+        width="100%"
+        height={height}
+        role="img"
+        aria-label={title}
+      >
+        <title>{title}</title>
+        {speakers.map(({ attendeeId, name, talkTimeMs }, index) => {
+          const label = name || attendeeId;
+          const duration = formatDuration(talkTimeMs);
+          const share = total > 0 ? Math.min(talkTimeMs / total, 1) : 0;
+          const y = index * ROW_HEIGHT;
+
+          return (
+            <g key={attendeeId} data-testid="speaker-time-row">
+              <title>{`${label}: ${duration}`}</title>
+              <text className="ch-speaker-time-label" x="0" y={y + 16}>
+                {label}
+              </text>
+              <text
+                className="ch-speaker-time-duration"
+                x="100%"
+                y={y + 16}
+                textAnchor="end"
+              >
+                {duration}
+              </text>
+              <rect
+                className="ch-speaker-time-track"
+                x="0"
+                y={y + 22}
+                width="100%"
+                height={BAR_HEIGHT}
+                rx={BAR_HEIGHT / 2}
+              />
+              <rect
+                className="ch-speaker-time-bar"
+                data-testid="speaker-time-bar"
+                x="0"
+                y={y + 22}
+                width={`${share * 100}%`}
+                height={BAR_HEIGHT}
+                rx={BAR_HEIGHT / 2}
+              />
+            </g>
+          );
+        })}
+      </svg>
+    </StyledSpeakerTimeChart>
+  );
+};
+
+export default SpeakerTimeChart;
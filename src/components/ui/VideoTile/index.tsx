@@ -19,7 +19,7 @@ export interface VideoTileProps
 
 export const VideoTile = forwardRef(
   (props: VideoTileProps, ref: React.Ref<HTMLVideoElement>) => {
-    const { tag, className, nameplate, ...rest } = props;
+    const { tag, className, nameplate, children, ...rest } = props;
 
     return (
       <StyledVideoTile
@@ -34,6 +34,7 @@ export const VideoTile = forwardRef(
             <p className="ch-text">{nameplate}</p>
           </header>
         )}
+        {children}
       </StyledVideoTile>
     );
   }
@@ -0,0 +1,19 @@
+// Copyright Amazon.com, Inc. or its affiliates. All Rights Reserved.
+// SPDX-License-Identifier: Apache-2.0
+
+import { useEffect } from 'react';
+
+import { useAudioOutputVolume } from '../../providers/LocalAudioOutputProvider';
+
+export const useAudioOutputActivity = (cb: (decimal: number) => void): void => {
+  const { subscribeToOutputLevel, unsubscribeFromOutputLevel } =
+    useAudioOutputVolume();
+
+  useEffect(() => {
+    subscribeToOutputLevel(cb);
+
+    return () => unsubscribeFromOutputLevel(cb);
+  }, [subscribeToOutputLevel, unsubscribeFromOutputLevel, cb]);
+};
+
+export default useAudioOutputActivity;
@@ -0,0 +1,90 @@
+// Copyright Amazon.com, Inc. or its affiliates. All Rights Reserved.
+// SPDX-License-Identifier: Apache-2.0
+
+import { AudioVideoObserver } from 'amazon-chime-sdk-js';
+import { useEffect, useMemo, useState } from 'react';
+
+import { useAudioVideo } from '../../providers/AudioVideoProvider';
+import { useMeetingManager } from '../../providers/MeetingProvider';
+import {
+  ConnectionHealth,
+  getConnectionHealth,
+} from '../../utils/connection-health';
+import { useAttendeeAudioStatus } from './useAttendeeAudioStatus';
+import { useMediaStreamMetrics } from './useMediaStreamMetrics';
+
+/**
+ * Grades the connection of the local attendee from the observable metrics, the connection events
+ * of the Amazon Chime SDK and the signal strength, and returns the reasons it is not good.
+ */
+export function useConnectionHealth(): ConnectionHealth {
+  const audioVideo = useAudioVideo();
+  const meetingManager = useMeetingManager();
+  const {
+    audioPacketsSentFractionLossPercent,
+    audioPacketsReceivedFractionLossPercent,
+    currentRoundTripTimeMs,
+    audioUpstreamJitterMs,
+    audioDownstreamJitterMs,
+    availableOutgoingBandwidth,
+  } = useMediaStreamMetrics();
+  const localAttendeeId =
+    meetingManager.meetingSessionConfiguration?.credentials?.attendeeId || '';
+  const { signalStrength } = useAttendeeAudioStatus(localAttendeeId);
+  const [connectionPoor, setConnectionPoor] = useState(false);
+  const [videoStopSuggested, setVideoStopSuggested] = useState(false);
+
+  useEffect(() => {
+    if (!audioVideo) {
+      return;
+    }
+
+    const observer: AudioVideoObserver = {
+      connectionDidBecomePoor: (): void => setConnectionPoor(true),
+      connectionDidSuggestStopVideo: (): void => setVideoStopSuggested(true),
+      connectionDidBecomeGood: (): void => {
+        setConnectionPoor(false);
+        setVideoStopSuggested(false);
+      },
+    };
+
+    audioVideo.addObserver(observer);
+
+    return (): void => {
+      audioVideo.removeObserver(observer);
+      setConnectionPoor(false);
+      setVideoStopSuggested(false);
+    };
+  }, [audioVideo]);
+
+  return useMemo(
+    () =>
+      getConnectionHealth({
+        upstreamPacketLossPercent: audioPacketsSentFractionLossPercent,
+        downstreamPacketLossPercent: audioPacketsReceivedFractionLossPercent,
+        roundTripTimeMs: currentRoundTripTimeMs,
+        jitterMs: Math.max(
+          audioUpstreamJitterMs || 0,
+          audioDownstreamJitterMs || 0
+        ),
+        availableOutgoingBandwidthKbps: availableOutgoingBandwidth,
+        signalStrength: localAttendeeId ? signalStrength : null,
+        connectionPoor,
+        videoStopSuggested,
+      }),
+    [
+      audioPacketsSentFractionLossPercent,
+      audioPacketsReceivedFractionLossPercent,
+      currentRoundTripTimeMs,
+      audioUpstreamJitterMs,
+      audioDownstreamJitterMs,
+      availableOutgoingBandwidth,
+      localAttendeeId,
+      signalStrength,
+      connectionPoor,
+      videoStopSuggested,
+    ]
+  );
+}
+
+export default useConnectionHealth;
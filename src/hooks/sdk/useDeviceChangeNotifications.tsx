@@ -0,0 +1,92 @@
+// Copyright Amazon.com, Inc. or its affiliates. All Rights Reserved.
+// SPDX-License-Identifier: Apache-2.0
+
+import { useEffect } from 'react';
+
+import { useMeetingManager } from '../../providers/MeetingProvider';
+import { DeviceChange } from '../../providers/MeetingProvider/types';
+import {
+  ActionType,
+  NotificationType,
+  Severity,
+  useNotificationDispatch,
+} from '../../providers/NotificationProvider';
+import { DeviceChangePolicy } from '../../types';
+
+const DEVICE_KIND_NAMES: Record<MediaDeviceKind, string> = {
+  audioinput: 'microphone',
+  audiooutput: 'speaker',
+  videoinput: 'camera',
+};
+
+export function getDeviceChangeNotification({
+  kind,
+  policy,
+  addedDevices,
+  removedDevices,
+  previousDevice,
+  selectedDevice,
+}: DeviceChange): NotificationType | null {
+  const kindName = DEVICE_KIND_NAMES[kind];
+  const previousDeviceRemoved =
+    !!previousDevice &&
+    removedDevices.some(({ deviceId }) => deviceId === previousDevice.deviceId);
+  const disconnectedMessage = previousDeviceRemoved
+    ? `${previousDevice?.label || `Your ${kindName}`} was disconnected.`
+    : '';
+
+  if (selectedDevice && selectedDevice.deviceId !== previousDevice?.deviceId) {
+    return {
+      severity: Severity.INFO,
+      message: `${disconnectedMessage} Switched ${kindName} to ${
+        selectedDevice.label || 'a new device'
+      }.`.trim(),
+    };
+  }
+
+  if (previousDeviceRemoved && !selectedDevice) {
+    return {
+      severity: Severity.WARNING,
+      message: `${disconnectedMessage} Select another ${kindName}.`,
+    };
+  }
+
+  if (policy === DeviceChangePolicy.AskUser && addedDevices.length) {
+    return {
+      severity: Severity.INFO,
+      message: `New ${kindName} available: ${
+        addedDevices[0].label || 'unknown device'
+      }.`,
+    };
+  }
+
+  return null;
+}
+
+/**
+ * Dispatches a notification into the `NotificationProvider` whenever the `MeetingManager`
+ * device change policy switches a device or needs the user to select one.
+ */
+export function useDeviceChangeNotifications(): void {
+  const meetingManager = useMeetingManager();
+  const dispatch = useNotificationDispatch();
+
+  useEffect(() => {
+    const callback = (deviceChange: DeviceChange): void => {
+      const notification = getDeviceChangeNotification(deviceChange);
+      if (notification) {
+        dispatch({
+          type: ActionType.ADD,
+          payload: { autoClose: true, ...notification },
+        });
+      }
+    };
+
+    meetingManager.subscribeToDeviceChange(callback);
+    return (): void => {
+      meetingManager.unsubscribeFromDeviceChange(callback);
+    };
+  }, [meetingManager, dispatch]);
+}
+
+export default useDeviceChangeNotifications;
@@ -0,0 +1,256 @@
+// Copyright Amazon.com, Inc. or its affiliates. All Rights Reserved.
+// SPDX-License-Identifier: Apache-2.0
+
+import {
+  DefaultDeviceController,
+  RemovableAnalyserNode,
+} from 'amazon-chime-sdk-js';
+import { useCallback, useEffect, useRef, useState } from 'react';
+
+import { useAudioVideo } from '../../providers/AudioVideoProvider';
+import { useAudioOutputs } from '../../providers/DevicesProvider';
+import { useAudioOutputVolume } from '../../providers/LocalAudioOutputProvider';
+import { MicrophoneTestStatus } from '../../types';
+import {
+  AudioFrameMeasurement,
+  measureAudioFrame,
+  MicrophoneTestMeasurements,
+  setAudioElementSinkId,
+  summarizeMicrophoneTest,
+} from '../../utils/audio-test';
+
+export interface MicrophoneTestOptions {
+  /** How long the sample is recorded, in milliseconds. Defaults to `5000`. */
+  durationMs?: number;
+}
+
+export interface MicrophoneTestState {
+  status: MicrophoneTestStatus;
+  /** The clipping and noise floor of the last recording. */
+  measurements: MicrophoneTestMeasurements | null;
+  error: Error | null;
+  /** Records a sample from the selected audio input, stopping after `durationMs`. */
+  startRecording: () => void;
+  stopRecording: () => void;
+  /** Plays the recorded sample through the selected audio output, lowering the meeting audio meanwhile. */
+  play: () => Promise<void>;
+  stopPlayback: () => void;
+  /** Stops the test and discards the recording. */
+  reset: () => void;
+}
+
+type Recording = {
+  recorder: MediaRecorder;
+  analyser: RemovableAnalyserNode;
+  frame: number;
+  timeout: ReturnType<typeof setTimeout>;
+  /** Whether the recording is discarded when it stops. */
+  discarded: boolean;
+};
+
+type Playback = {
+  audio: HTMLAudioElement;
+  releaseDucking: () => void;
+};
+
+/**
+ * Records a sample from the selected audio input, including Voice Focus transform devices,
+ * and plays it back through the selected audio output, so users can hear how they sound.
+ */
+export function useMicrophoneTest({
+  durationMs = 5000,
+}: MicrophoneTestOptions = {}): MicrophoneTestState {
+  const audioVideo = useAudioVideo();
+  const { selectedDevice: selectedAudioOutputDevice } = useAudioOutputs();
+  const { startDucking } = useAudioOutputVolume();
+  const [status, setStatus] = useState(MicrophoneTestStatus.IDLE);
+  const [measurements, setMeasurements] =
+    useState<MicrophoneTestMeasurements | null>(null);
+  const [error, setError] = useState<Error | null>(null);
+  const recordingRef = useRef<Recording | null>(null);
+  const playbackRef = useRef<Playback | null>(null);
+  const recordingUrlRef = useRef<string | null>(null);
+
+  const fail = useCallback((error: Error): void => {
+    setError(error);
+    setStatus(MicrophoneTestStatus.FAILED);
+  }, []);
+
+  const endRecording = useCallback((discard: boolean): void => {
+    const recording = recordingRef.current;
+    if (!recording) {
+      return;
+    }
+
+    recordingRef.current = null;
+    recording.discarded = discard;
+    cancelAnimationFrame(recording.frame);
+    clearTimeout(recording.timeout);
+    if (recording.recorder.state !== 'inactive') {
+      recording.recorder.stop();
+    }
+    recording.analyser.disconnect();
+    recording.analyser.removeOriginalInputs();
+  }, []);
+
+  const stopRecording = useCallback(
+    (): void => endRecording(false),
+    [endRecording]
+  );
+
+  const stopPlayback = useCallback((): void => {
+    const playback = playbackRef.current;
+    if (!playback) {
+      return;
+    }
+
+    playbackRef.current = null;
+    playback.audio.pause();
+    playback.audio.removeAttribute('src');
+    playback.releaseDucking();
+    setStatus(MicrophoneTestStatus.RECORDED);
+  }, []);
+
+  const discardRecording = useCallback((): void => {
+    if (recordingUrlRef.current) {
+      URL.revokeObjectURL(recordingUrlRef.current);
+      recordingUrlRef.current = null;
+    }
+  }, []);
+
+  const startRecording = useCallback((): void => {
+    endRecording(true);
+    stopPlayback();
+    discardRecording();
+    setMeasurements(null);
+    setError(null);
+
+    const analyser = audioVideo?.createAnalyserNodeForAudioInput();
+    if (!analyser) {
+      fail(new Error('Cannot test the microphone without an audio input'));
+      return;
+    }
+
+    let recorder: MediaRecorder;
+    try {
+      // The analyser passes the input through, including the Voice Focus transform
+      const destination =
+        DefaultDeviceController.getAudioContext().createMediaStreamDestination();
+      analyser.connect(destination);
+      recorder = new MediaRecorder(destination.stream);
+    } catch (error) {
+      analyser.disconnect();
+      analyser.removeOriginalInputs();
+      fail(error as Error);
+      return;
+    }
+
+    const chunks: Blob[] = [];
+    const frames: AudioFrameMeasurement[] = [];
+    const samples = new Float32Array(analyser.fftSize);
+
+    const recording: Recording = {
+      recorder,
+      analyser,
+      frame: 0,
+      timeout: setTimeout(stopRecording, durationMs),
+      discarded: false,
+    };
+
+    recorder.ondataavailable = ({ data }: BlobEvent): void => {
+      chunks.push(data);
+    };
+    recorder.onstop = (): void => {
+      if (recording.discarded) {
+        return;
+      }
+
+      recordingUrlRef.current = URL.createObjectURL(
+        new Blob(chunks, { type: recorder.mimeType })
+      );
+      setMeasurements(summarizeMicrophoneTest(frames));
+      setStatus(MicrophoneTestStatus.RECORDED);
+    };
+
+    const measure = (): void => {
+      analyser.getFloatTimeDomainData(samples);
+      frames.push(measureAudioFrame(samples));
+      if (recordingRef.current === recording) {
+        recording.frame = requestAnimationFrame(measure);
+      }
+    };
+
+    recordingRef.current = recording;
+    recording.frame = requestAnimationFrame(measure);
+    recorder.start();
+    setStatus(MicrophoneTestStatus.RECORDING);
+  }, [
+    audioVideo,
+    durationMs,
+    fail,
+    endRecording,
+    stopRecording,
+    stopPlayback,
+    discardRecording,
+  ]);
+
+  const play = useCallback(async (): Promise<void> => {
+    const url = recordingUrlRef.current;
+    if (!url) {
+      return;
+    }
+
+    stopPlayback();
+    const audio = new Audio(url);
+    const releaseDucking = startDucking();
+    const playback = { audio, releaseDucking };
+    playbackRef.current = playback;
+    audio.onended = (): void => {
+      if (playbackRef.current === playback) {
+        stopPlayback();
+      }
+    };
+
+    try {
+      await setAudioElementSinkId(audio, selectedAudioOutputDevice);
+      setStatus(MicrophoneTestStatus.PLAYING);
+      await audio.play();
+    } catch (error) {
+      if (playbackRef.current === playback) {
+        playbackRef.current = null;
+        releaseDucking();
+        fail(error as Error);
+      }
+    }
+  }, [selectedAudioOutputDevice, startDucking, stopPlayback, fail]);
+
+  const reset = useCallback((): void => {
+    endRecording(true);
+    stopPlayback();
+    discardRecording();
+    setMeasurements(null);
+    setError(null);
+    setStatus(MicrophoneTestStatus.IDLE);
+  }, [endRecording, stopPlayback, discardRecording]);
+
+  useEffect(() => {
+    return () => {
+      endRecording(true);
+      stopPlayback();
+      discardRecording();
+    };
+  }, []);
+
+  return {
+    status,
+    measurements,
+    error,
+    startRecording,
+    stopRecording,
+    play,
+    stopPlayback,
+    reset,
+  };
+}
+
+export default useMicrophoneTest;
@@ -0,0 +1,247 @@
+// Copyright Amazon.com, Inc. or its affiliates. All Rights Reserved.
+// SPDX-License-Identifier: Apache-2.0
+
+import { AudioInputDevice, DefaultDeviceController } from 'amazon-chime-sdk-js';
+import { useCallback, useEffect, useRef, useState } from 'react';
+
+import { useAudioInputs } from '../../providers/DevicesProvider';
+import { getOutputLevel } from '../../providers/LocalAudioOutputProvider/state';
+import { useLogger } from '../../providers/LoggerProvider';
+import {
+  ActionType,
+  Severity,
+  useNotificationDispatch,
+} from '../../providers/NotificationProvider';
+import { getDeviceId } from '../../utils/device-utils';
+import { useToggleLocalMute } from './useToggleLocalMute';
+
+// Pauses between words shorter than this are part of the same speech
+const SPEECH_PAUSE_MS = 1000;
+
+export interface MutedSpeechDetectionOptions {
+  /** The microphone level from which the user is considered speaking, from 0 to 1. Defaults to `0.3`. */
+  threshold?: number;
+  /** How long the user speaks while muted before the speech is detected, in milliseconds. Defaults to `1000`. */
+  minDurationMs?: number;
+  /** The minimum time between two detections while the user stays muted, in milliseconds. Defaults to `30000`. */
+  cooldownMs?: number;
+  /** Called when the user speaks while muted. */
+  onMutedSpeech?: () => void;
+  /** Whether to dispatch a notification into the `NotificationProvider`. Defaults to `false`. */
+  notify?: boolean;
+  /** The message of the notification. Defaults to `You are muted. Unmute to speak.` */
+  notificationMessage?: string;
+}
+
+export type MutedSpeechState = {
+  speechStartedAt: number | null;
+  lastSpeechAt: number | null;
+  lastDetectedAt: number | null;
+  /** Whether the current speech was already detected. */
+  detected: boolean;
+};
+
+export const initialMutedSpeechState: MutedSpeechState = {
+  speechStartedAt: null,
+  lastSpeechAt: null,
+  lastDetectedAt: null,
+  detected: false,
+};
+
+/**
+ * Updates the muted speech state with a microphone level measured while the user is muted,
+ * and returns whether the speech is detected with this level.
+ */
+export function detectMutedSpeech(
+  state: MutedSpeechState,
+  level: number,
+  now: number,
+  {
+    threshold,
+    minDurationMs,
+    cooldownMs,
+  }: Required<
+    Pick<
+      MutedSpeechDetectionOptions,
+      'threshold' | 'minDurationMs' | 'cooldownMs'
+    >
+  >
+): { state: MutedSpeechState; detected: boolean } {
+  if (level < threshold) {
+    return { state, detected: false };
+  }
+
+  const newSpeech =
+    state.speechStartedAt === null ||
+    state.lastSpeechAt === null ||
+    now - state.lastSpeechAt > SPEECH_PAUSE_MS;
+  const speechStartedAt = newSpeech ? now : state.speechStartedAt ?? now;
+  const alreadyDetected = newSpeech ? false : state.detected;
+  const coolingDown =
+    state.lastDetectedAt !== null && now - state.lastDetectedAt < cooldownMs;
+  const detected =
+    !alreadyDetected && !coolingDown && now - speechStartedAt >= minDurationMs;
+
+  return {
+    state: {
+      speechStartedAt,
+      lastSpeechAt: now,
+      lastDetectedAt: detected ? now : state.lastDetectedAt,
+      detected: alreadyDetected || detected,
+    },
+    detected,
+  };
+}
+
+/**
+ * Acquires a live copy of the audio input to meter while the user is muted,
+ * since muting disables the track that the meeting session sends.
+ */
+async function acquireMeterStream(
+  device: AudioInputDevice
+): Promise<MediaStream> {
+  if (device instanceof MediaStream) {
+    return new MediaStream(
+      device.getAudioTracks().map((track) => {
+        const meterTrack = track.clone();
+        meterTrack.enabled = true;
+        return meterTrack;
+      })
+    );
+  }
+
+  const deviceId = await getDeviceId(device);
+  return navigator.mediaDevices.getUserMedia({
+    audio: deviceId ? { deviceId: { exact: deviceId } } : true,
+  });
+}
+
+/**
+ * Detects when the local user speaks while muted by combining the local mute state
+ * with the microphone level. Returns whether muted speech was detected since the user last muted.
+ */
+export function useMutedSpeechDetection({
+  threshold = 0.3,
+  minDurationMs = 1000,
+  cooldownMs = 30000,
+  onMutedSpeech,
+  notify = false,
+  notificationMessage = 'You are muted. Unmute to speak.',
+}: MutedSpeechDetectionOptions = {}): { mutedSpeechDetected: boolean } {
+  const { muted } = useToggleLocalMute();
+  const { selectedDevice } = useAudioInputs();
+  const logger = useLogger();
+  const dispatch = useNotificationDispatch();
+  const [mutedSpeechDetected, setMutedSpeechDetected] = useState(false);
+  const stateRef = useRef(initialMutedSpeechState);
+  const mutedRef = useRef(muted);
+  mutedRef.current = muted;
+  const optionsRef = useRef({
+    threshold,
+    minDurationMs,
+    cooldownMs,
+    onMutedSpeech,
+    notify,
+    notificationMessage,
+  });
+  optionsRef.current = {
+    threshold,
+    minDurationMs,
+    cooldownMs,
+    onMutedSpeech,
+    notify,
+    notificationMessage,
+  };
+
+  useEffect(() => {
+    stateRef.current = initialMutedSpeechState;
+    setMutedSpeechDetected(false);
+  }, [muted]);
+
+  const activityCallback = useCallback(
+    (level: number): void => {
+      if (!mutedRef.current) {
+        return;
+      }
+
+      const { onMutedSpeech, notify, notificationMessage, ...options } =
+        optionsRef.current;
+      const { state, detected } = detectMutedSpeech(
+        stateRef.current,
+        level,
+        Date.now(),
+        options
+      );
+      stateRef.current = state;
+      if (!detected) {
+        return;
+      }
+
+      setMutedSpeechDetected(true);
+      onMutedSpeech?.();
+      if (notify) {
+        dispatch({
+          type: ActionType.ADD,
+          payload: {
+            severity: Severity.WARNING,
+            message: notificationMessage,
+            autoClose: true,
+          },
+        });
+      }
+    },
+    [dispatch]
+  );
+
+  useEffect(() => {
+    if (!muted || !selectedDevice) {
+      return;
+    }
+
+    let isMounted = true;
+    let stream: MediaStream | null = null;
+    let source: MediaStreamAudioSourceNode | null = null;
+    let frame = 0;
+
+    const startMetering = async (): Promise<void> => {
+      try {
+        const meterStream = await acquireMeterStream(selectedDevice);
+        if (!isMounted) {
+          meterStream.getTracks().forEach((track) => track.stop());
+          return;
+        }
+
+        stream = meterStream;
+        const audioContext = DefaultDeviceController.getAudioContext();
+        source = audioContext.createMediaStreamSource(meterStream);
+        const analyser = audioContext.createAnalyser();
+        source.connect(analyser);
+        const data = new Uint8Array(analyser.fftSize);
+
+        const measure = (): void => {
+          analyser.getByteTimeDomainData(data);
+          activityCallback(getOutputLevel(data));
+          frame = requestAnimationFrame(measure);
+        };
+        frame = requestAnimationFrame(measure);
+      } catch (error) {
+        logger.warn(
+          `[useMutedSpeechDetection] failed to meter the audio input while muted: ${error}`
+        );
+      }
+    };
+
+    startMetering();
+
+    return (): void => {
+      isMounted = false;
+      cancelAnimationFrame(frame);
+      source?.disconnect();
+      stream?.getTracks().forEach((track) => track.stop());
+    };
+  }, [muted, selectedDevice, activityCallback, logger]);
+
+  return { mutedSpeechDetected };
+}
+
+export default useMutedSpeechDetection;
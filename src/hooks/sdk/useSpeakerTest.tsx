@@ -0,0 +1,216 @@
+// Copyright Amazon.com, Inc. or its affiliates. All Rights Reserved.
+// SPDX-License-Identifier: Apache-2.0
+
+import { DefaultDeviceController } from 'amazon-chime-sdk-js';
+import { useCallback, useEffect, useRef, useState } from 'react';
+
+import { useAudioOutputs } from '../../providers/DevicesProvider';
+import { useAudioOutputVolume } from '../../providers/LocalAudioOutputProvider';
+import { getOutputLevel } from '../../providers/LocalAudioOutputProvider/state';
+import { SpeakerTestStatus } from '../../types';
+import {
+  getTestToneBeeps,
+  setAudioElementSinkId,
+} from '../../utils/audio-test';
+
+// Fades the beeps in and out to avoid clicks, in seconds
+const FADE_S = 0.01;
+
+export interface SpeakerTestOptions {
+  /** How long the tone plays, in milliseconds. Defaults to `3000`. */
+  durationMs?: number;
+  /** The frequency of the tone, in hertz. Defaults to `440`. */
+  frequency?: number;
+  /** The volume of the tone, from 0 to 1. Defaults to `0.5`. */
+  volume?: number;
+  /** Called with the level of the tone, from 0 to 1, while it plays. */
+  onLevel?: (level: number) => void;
+  /** Called when the user confirms whether they heard the tone on the selected audio output. */
+  onResult?: (heard: boolean, deviceId: string | null) => void;
+}
+
+export interface SpeakerTestState {
+  status: SpeakerTestStatus;
+  error: Error | null;
+  /** Plays the tone through the selected audio output, lowering the meeting audio meanwhile. */
+  play: () => Promise<void>;
+  stop: () => void;
+  /** Records whether the user heard the tone, stopping it if it still plays. */
+  confirm: (heard: boolean) => void;
+  reset: () => void;
+}
+
+type Tone = {
+  oscillator: OscillatorNode;
+  gain: GainNode;
+  analyser: AnalyserNode;
+  audio: HTMLAudioElement;
+  frame: number;
+  releaseDucking: () => void;
+};
+
+/**
+ * Plays a generated test tone through the selected audio output, so users can check that they hear it.
+ */
+export function useSpeakerTest({
+  durationMs = 3000,
+  frequency = 440,
+  volume = 0.5,
+  onLevel,
+  onResult,
+}: SpeakerTestOptions = {}): SpeakerTestState {
+  const { selectedDevice: selectedAudioOutputDevice } = useAudioOutputs();
+  const { startDucking } = useAudioOutputVolume();
+  const [status, setStatus] = useState(SpeakerTestStatus.IDLE);
+  const [error, setError] = useState<Error | null>(null);
+  const toneRef = useRef<Tone | null>(null);
+  const onLevelRef = useRef(onLevel);
+  onLevelRef.current = onLevel;
+  const onResultRef = useRef(onResult);
+  onResultRef.current = onResult;
+
+  const endTone = useCallback((): boolean => {
+    const tone = toneRef.current;
+    if (!tone) {
+      return false;
+    }
+
+    toneRef.current = null;
+    cancelAnimationFrame(tone.frame);
+    tone.oscillator.onended = null;
+    try {
+      tone.oscillator.stop();
+    } catch (error) {
+      // The oscillator already stopped
+    }
+    tone.oscillator.disconnect();
+    tone.gain.disconnect();
+    tone.audio.pause();
+    tone.audio.srcObject = null;
+    tone.releaseDucking();
+    onLevelRef.current?.(0);
+    return true;
+  }, []);
+
+  const stop = useCallback((): void => {
+    if (endTone()) {
+      setStatus(SpeakerTestStatus.AWAITING_CONFIRMATION);
+    }
+  }, [endTone]);
+
+  const play = useCallback(async (): Promise<void> => {
+    endTone();
+    setError(null);
+
+    let tone: Tone | null = null;
+    try {
+      const context = DefaultDeviceController.getAudioContext();
+      // Browsers suspend audio contexts created before the user interacted with the page
+      await context.resume();
+
+      const oscillator = context.createOscillator();
+      oscillator.frequency.value = frequency;
+      const gain = context.createGain();
+      gain.gain.value = 0;
+
+      const analyser = context.createAnalyser();
+      analyser.fftSize = 1024;
+      const destination = context.createMediaStreamDestination();
+      oscillator.connect(gain);
+      gain.connect(analyser);
+      gain.connect(destination);
+
+      // Play the tone through an audio element, which can select the audio output
+      const audio = new Audio();
+      audio.srcObject = destination.stream;
+      tone = {
+        oscillator,
+        gain,
+        analyser,
+        audio,
+        frame: 0,
+        releaseDucking: startDucking(),
+      };
+      toneRef.current = tone;
+
+      await setAudioElementSinkId(audio, selectedAudioOutputDevice);
+      await audio.play();
+      if (toneRef.current !== tone) {
+        return;
+      }
+
+      const startTime = context.currentTime;
+      getTestToneBeeps(durationMs).forEach(({ startMs, endMs }) => {
+        const beepStart = startTime + startMs / 1000;
+        const beepEnd = startTime + endMs / 1000;
+        gain.gain.setValueAtTime(0, beepStart);
+        gain.gain.linearRampToValueAtTime(volume, beepStart + FADE_S);
+        gain.gain.setValueAtTime(volume, beepEnd - FADE_S);
+        gain.gain.linearRampToValueAtTime(0, beepEnd);
+      });
+
+      oscillator.onended = stop;
+      oscillator.start(startTime);
+      oscillator.stop(startTime + durationMs / 1000);
+
+      const playingTone = tone;
+      const data = new Uint8Array(analyser.fftSize);
+      const measure = (): void => {
+        analyser.getByteTimeDomainData(data);
+        onLevelRef.current?.(getOutputLevel(data));
+        if (toneRef.current === playingTone) {
+          playingTone.frame = requestAnimationFrame(measure);
+        }
+      };
+      playingTone.frame = requestAnimationFrame(measure);
+      setStatus(SpeakerTestStatus.PLAYING);
+    } catch (error) {
+      // Another tone started meanwhile
+      if (tone && toneRef.current !== tone) {
+        return;
+      }
+
+      endTone();
+      setError(error as Error);
+      setStatus(SpeakerTestStatus.FAILED);
+    }
+  }, [
+    durationMs,
+    frequency,
+    volume,
+    selectedAudioOutputDevice,
+    startDucking,
+    endTone,
+    stop,
+  ]);
+
+  const confirm = useCallback(
+    (heard: boolean): void => {
+      endTone();
+      setStatus(heard ? SpeakerTestStatus.HEARD : SpeakerTestStatus.NOT_HEARD);
+      onResultRef.current?.(heard, selectedAudioOutputDevice);
+    },
+    [endTone, selectedAudioOutputDevice]
+  );
+
+  const reset = useCallback((): void => {
+    endTone();
+    setError(null);
+    setStatus(SpeakerTestStatus.IDLE);
+  }, [endTone]);
+
+  // A result only applies to the audio output it was tested on
+  useEffect(() => {
+    reset();
+  }, [selectedAudioOutputDevice]);
+
+  useEffect(() => {
+    return () => {
+      endTone();
+    };
+  }, []);
+
+  return { status, error, play, stop, confirm, reset };
+}
+
+export default useSpeakerTest;
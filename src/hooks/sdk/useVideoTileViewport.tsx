@@ -0,0 +1,399 @@
+// Copyright Amazon.com, Inc. or its affiliates. All Rights Reserved.
+// SPDX-License-Identifier: Apache-2.0
+
+import { AudioVideoObserver, VideoTileState } from 'amazon-chime-sdk-js';
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import ResizeObserver from 'resize-observer-polyfill';
+
+import { useAudioVideo } from '../../providers/AudioVideoProvider';
+import {
+  clampViewport,
+  DEFAULT_MAX_ZOOM,
+  DEFAULT_ZOOM_STEP,
+  getViewportTransform,
+  initialViewport,
+  panViewport,
+  VideoViewport,
+  ViewportSize,
+  zoomViewport,
+} from '../../utils/video-tile-viewport';
+
+// How much a pixel of wheel scrolling zooms
+const WHEEL_ZOOM_SPEED = 0.002;
+
+// How much of the tile an arrow key pans
+const KEYBOARD_PAN_RATIO = 0.1;
+
+export interface VideoTileViewportOptions {
+  /** The largest zoom. Defaults to `4`. */
+  maxZoom?: number;
+  /** How much `zoomIn` and `zoomOut` zoom at once. Defaults to `1.25`. */
+  zoomStep?: number;
+}
+
+export interface VideoTileViewport {
+  zoom: number;
+  maxZoom: number;
+  isZoomed: boolean;
+  isFullscreen: boolean;
+  /** Whether the browser can show the tile in fullscreen. */
+  fullscreenEnabled: boolean;
+  zoomIn: () => void;
+  zoomOut: () => void;
+  resetZoom: () => void;
+  /** Moves the zoomed video by the given pixels. */
+  pan: (deltaX: number, deltaY: number) => void;
+  toggleFullscreen: () => Promise<void>;
+}
+
+type Pointer = { x: number; y: number };
+
+/**
+ * Lets people zoom and pan the video bound to a tile with the wheel, pinch gestures, dragging and the keyboard,
+ * and show the tile in fullscreen. The element that contains the video is the tile, such as a `VideoTile`.
+ */
+export function useVideoTileViewport(
+  tileId: number | null,
+  {
+    maxZoom = DEFAULT_MAX_ZOOM,
+    zoomStep = DEFAULT_ZOOM_STEP,
+  }: VideoTileViewportOptions = {}
+): VideoTileViewport {
+  const audioVideo = useAudioVideo();
+  const [videoElement, setVideoElement] = useState<HTMLVideoElement | null>(
+    null
+  );
+  const [viewport, setViewport] = useState<VideoViewport>(initialViewport);
+  const [isFullscreen, setIsFullscreen] = useState(false);
+  const viewportRef = useRef(viewport);
+  const maxZoomRef = useRef(maxZoom);
+  maxZoomRef.current = maxZoom;
+  const zoomStepRef = useRef(zoomStep);
+  zoomStepRef.current = zoomStep;
+  const tileElement = videoElement?.parentElement || null;
+
+  const updateViewport = useCallback(
+    (
+      update: (current: VideoViewport, size: ViewportSize) => VideoViewport
+    ): void => {
+      if (!tileElement) {
+        return;
+      }
+
+      const nextViewport = update(viewportRef.current, {
+        width: tileElement.clientWidth,
+        height: tileElement.clientHeight,
+      });
+      viewportRef.current = nextViewport;
+      setViewport(nextViewport);
+    },
+    [tileElement]
+  );
+
+  const zoomBy = useCallback(
+    (factor: number, origin?: [number, number]): void =>
+      updateViewport((current, size) =>
+        zoomViewport(
+          current,
+          current.zoom * factor,
+          size,
+          maxZoomRef.current,
+          origin
+        )
+      ),
+    [updateViewport]
+  );
+
+  const pan = useCallback(
+    (deltaX: number, deltaY: number): void =>
+      updateViewport((current, size) =>
+        panViewport(current, deltaX, deltaY, size, maxZoomRef.current)
+      ),
+    [updateViewport]
+  );
+
+  const zoomIn = useCallback((): void => zoomBy(zoomStepRef.current), [zoomBy]);
+
+  const zoomOut = useCallback(
+    (): void => zoomBy(1 / zoomStepRef.current),
+    [zoomBy]
+  );
+
+  const resetZoom = useCallback(
+    (): void => updateViewport(() => initialViewport),
+    [updateViewport]
+  );
+
+  // The video element is bound by the component that renders the tile
+  useEffect(() => {
+    if (!audioVideo || !tileId) {
+      setVideoElement(null);
+      return;
+    }
+
+    setVideoElement(
+      audioVideo.getVideoTile(tileId)?.state().boundVideoElement || null
+    );
+
+    const observer: AudioVideoObserver = {
+      videoTileDidUpdate: (tileState: VideoTileState): void => {
+        if (tileState.tileId === tileId) {
+          setVideoElement(tileState.boundVideoElement || null);
+        }
+      },
+      videoTileWasRemoved: (removedTileId: number): void => {
+        if (removedTileId === tileId) {
+          setVideoElement(null);
+        }
+      },
+    };
+
+    audioVideo.addObserver(observer);
+
+    return (): void => audioVideo.removeObserver(observer);
+  }, [audioVideo, tileId]);
+
+  useEffect(() => {
+    if (!videoElement || !tileElement) {
+      return;
+    }
+
+    viewportRef.current = initialViewport;
+    setViewport(initialViewport);
+
+    const { overflow, touchAction } = tileElement.style;
+    const addsTabIndex = !tileElement.hasAttribute('tabindex');
+    tileElement.style.overflow = 'hidden';
+    tileElement.style.touchAction = 'none';
+    if (addsTabIndex) {
+      tileElement.tabIndex = 0;
+    }
+
+    const pointers = new Map<number, Pointer>();
+
+    // Positions are relative to the center of the tile, which the video is scaled from
+    const getOrigin = (clientX: number, clientY: number): [number, number] => {
+      const bounds = tileElement.getBoundingClientRect();
+      return [
+        clientX - bounds.left - bounds.width / 2,
+        clientY - bounds.top - bounds.height / 2,
+      ];
+    };
+
+    const onWheel = (event: WheelEvent): void => {
+      event.preventDefault();
+      zoomBy(
+        Math.exp(-event.deltaY * WHEEL_ZOOM_SPEED),
+        getOrigin(event.clientX, event.clientY)
+      );
+    };
+
+    const onPointerDown = (event: PointerEvent): void => {
+      if (event.target !== videoElement) {
+        return;
+      }
+
+      videoElement.setPointerCapture?.(event.pointerId);
+      pointers.set(event.pointerId, { x: event.clientX, y: event.clientY });
+    };
+
+    const onPointerMove = (event: PointerEvent): void => {
+      const previous = pointers.get(event.pointerId);
+      if (!previous) {
+        return;
+      }
+
+      const others = Array.from(pointers.entries())
+        .filter(([pointerId]) => pointerId !== event.pointerId)
+        .map(([, pointer]) => pointer);
+      pointers.set(event.pointerId, { x: event.clientX, y: event.clientY });
+
+      if (!others.length) {
+        pan(event.clientX - previous.x, event.clientY - previous.y);
+        return;
+      }
+
+      // Pinches around the middle of the first two pointers
+      const [other] = others;
+      const distanceBefore = Math.hypot(
+        previous.x - other.x,
+        previous.y - other.y
+      );
+      const distanceAfter = Math.hypot(
+        event.clientX - other.x,
+        event.clientY - other.y
+      );
+      if (distanceBefore) {
+        zoomBy(
+          distanceAfter / distanceBefore,
+          getOrigin(
+            (event.clientX + other.x) / 2,
+            (event.clientY + other.y) / 2
+          )
+        );
+      }
+    };
+
+    const onPointerUp = (event: PointerEvent): void => {
+      pointers.delete(event.pointerId);
+    };
+
+    const onDoubleClick = (event: MouseEvent): void => {
+      if (event.target !== videoElement) {
+        return;
+      }
+
+      if (viewportRef.current.zoom > 1) {
+        resetZoom();
+      } else {
+        zoomBy(
+          zoomStepRef.current * zoomStepRef.current,
+          getOrigin(event.clientX, event.clientY)
+        );
+      }
+    };
+
+    const onKeyDown = (event: KeyboardEvent): void => {
+      if (event.target !== tileElement) {
+        return;
+      }
+
+      const panX = tileElement.clientWidth * KEYBOARD_PAN_RATIO;
+      const panY = tileElement.clientHeight * KEYBOARD_PAN_RATIO;
+      switch (event.key) {
+        case '+':
+        case '=':
+          zoomIn();
+          break;
+        case '-':
+          zoomOut();
+          break;
+        case '0':
+          resetZoom();
+          break;
+        case 'ArrowLeft':
+          pan(panX, 0);
+          break;
+        case 'ArrowRight':
+          pan(-panX, 0);
+          break;
+        case 'ArrowUp':
+          pan(0, panY);
+          break;
+        case 'ArrowDown':
+          pan(0, -panY);
+          break;
+        default:
+          return;
+      }
+      event.preventDefault();
+    };
+
+    // Keeps the zoomed video within the tile when it is resized, such as in fullscreen
+    const resizeObserver = new ResizeObserver(() =>
+      updateViewport((current, size) =>
+        clampViewport(current, size, maxZoomRef.current)
+      )
+    );
+    resizeObserver.observe(tileElement);
+
+    tileElement.addEventListener('wheel', onWheel, { passive: false });
+    tileElement.addEventListener('pointerdown', onPointerDown);
+    tileElement.addEventListener('pointermove', onPointerMove);
+    tileElement.addEventListener('pointerup', onPointerUp);
+    tileElement.addEventListener('pointercancel', onPointerUp);
+    tileElement.addEventListener('dblclick', onDoubleClick);
+    tileElement.addEventListener('keydown', onKeyDown);
+
+    return (): void => {
+      resizeObserver.disconnect();
+      tileElement.removeEventListener('wheel', onWheel);
+      tileElement.removeEventListener('pointerdown', onPointerDown);
+      tileElement.removeEventListener('pointermove', onPointerMove);
+      tileElement.removeEventListener('pointerup', onPointerUp);
+      tileElement.removeEventListener('pointercancel', onPointerUp);
+      tileElement.removeEventListener('dblclick', onDoubleClick);
+      tileElement.removeEventListener('keydown', onKeyDown);
+      tileElement.style.overflow = overflow;
+      tileElement.style.touchAction = touchAction;
+      if (addsTabIndex) {
+        tileElement.removeAttribute('tabindex');
+      }
+      videoElement.style.transform = '';
+    };
+  }, [
+    videoElement,
+    tileElement,
+    updateViewport,
+    zoomBy,
+    pan,
+    zoomIn,
+    zoomOut,
+    resetZoom,
+  ]);
+
+  useEffect(() => {
+    if (videoElement) {
+      videoElement.style.transform = getViewportTransform(viewport);
+    }
+  }, [videoElement, viewport]);
+
+  useEffect(() => {
+    if (!tileElement) {
+      setIsFullscreen(false);
+      return;
+    }
+
+    const onFullscreenChange = (): void =>
+      setIsFullscreen(document.fullscreenElement === tileElement);
+    onFullscreenChange();
+    document.addEventListener('fullscreenchange', onFullscreenChange);
+
+    return (): void =>
+      document.removeEventListener('fullscreenchange', onFullscreenChange);
+  }, [tileElement]);
+
+  const toggleFullscreen = useCallback(async (): Promise<void> => {
+    if (!tileElement) {
+      return;
+    }
+
+    try {
+      if (document.fullscreenElement === tileElement) {
+        await document.exitFullscreen();
+      } else {
+        await tileElement.requestFullscreen?.();
+      }
+    } catch (error) {
+      // Browsers refuse fullscreen outside of a user gesture, the tile stays as it is
+    }
+  }, [tileElement]);
+
+  return useMemo(
+    () => ({
+      zoom: viewport.zoom,
+      maxZoom,
+      isZoomed: viewport.zoom > 1,
+      isFullscreen,
+      fullscreenEnabled: !!tileElement && !!document.fullscreenEnabled,
+      zoomIn,
+      zoomOut,
+      resetZoom,
+      pan,
+      toggleFullscreen,
+    }),
+    [
+      viewport.zoom,
+      maxZoom,
+      isFullscreen,
+      tileElement,
+      zoomIn,
+      zoomOut,
+      resetZoom,
+      pan,
+      toggleFullscreen,
+    ]
+  );
+}
+
+export default useVideoTileViewport;
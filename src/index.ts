@@ -54,6 +54,7 @@ export { EditableChatBubble } from './components/ui/Chat/ChatBubble/EditableChat
 export { ChatBubbleContainer } from './components/ui/Chat/ChatBubble/ChatBubbleContainer';
 export { InfiniteList } from './components/ui/Chat/InfiniteList';
 export { MessageAttachment } from './components/ui/Chat/MessageAttachment';
+export { SpeakerTimeChart } from './components/ui/SpeakerTimeChart';
 export { formatDate, formatTime } from './components/ui/Utilities';
 export {
   WithTooltip,
@@ -75,18 +76,27 @@ export {
   AudioInputVFControl,
   AudioOutputControl,
   ContentShareControl,
+  HandRaiseControl,
   VideoInputControl,
   VideoInputBackgroundBlurControl,
 } from './components/sdk/MeetingControls';
 export { ContentShare } from './components/sdk/ContentShare';
+export { AnnotationLayer } from './components/sdk/AnnotationLayer';
+export { VideoTileViewportControls } from './components/sdk/VideoTileViewportControls';
 export { LocalVideo } from './components/sdk/LocalVideo';
 export { PreviewVideo } from './components/sdk/PreviewVideo';
 export { RemoteVideo } from './components/sdk/RemoteVideo';
 export { RemoteVideos } from './components/sdk/RemoteVideos';
 export { FeaturedRemoteVideos } from './components/sdk/FeaturedRemoteVideos';
+export { VideoPaginationControls } from './components/sdk/VideoPaginationControls';
+export { MeetingChat } from './components/sdk/MeetingChat';
+export { RosterAttendeeModerationMenu } from './components/sdk/RosterAttendeeModerationMenu';
 export { VideoTileGrid } from './components/sdk/VideoTileGrid';
 export { MicrophoneActivity } from './components/sdk/MicrophoneActivity';
+export { MicrophoneTest } from './components/sdk/MicrophoneTest';
+export { NetworkQualityIndicator } from './components/sdk/NetworkQualityIndicator';
 export { RosterAttendee } from './components/sdk/RosterAttendee';
+export { MeetingLobby } from './components/sdk/MeetingLobby';
 
 // Constants
 export { KEY_CODES } from './constants';
@@ -106,6 +116,7 @@ export {
 } from './providers/NotificationProvider';
 export { AudioVideoContext } from './providers/AudioVideoProvider';
 export { MeetingEventProviderContext } from './providers/MeetingEventProvider';
+export { MeetingManagerRegistryContext } from './providers/MeetingManagerRegistryProvider';
 
 // Hooks
 export { useClickOutside } from './hooks/useClickOutside';
@@ -117,19 +128,33 @@ export { useApplyVideoObjectFit } from './hooks/useApplyVideoObjectFit';
 export { useElementAspectRatio } from './hooks/useElementAspectRatio';
 
 export { useMeetingManager } from './providers/MeetingProvider';
+export { useMeetingManagerRegistry } from './providers/MeetingManagerRegistryProvider';
+export { useLobby } from './providers/LobbyProvider';
 export { useVoiceFocus } from './providers/VoiceFocusProvider';
 export { useBackgroundBlur } from './providers/BackgroundBlurProvider';
 export { useBackgroundReplacement } from './providers/BackgroundReplacementProvider';
 export { useAudioVideo } from './providers/AudioVideoProvider';
-export { useRosterState } from './providers/RosterProvider';
+export { useRosterState, useRosterHistory } from './providers/RosterProvider';
 export { useRemoteVideoTileState } from './providers/RemoteVideoTileProvider';
 export { useFeaturedTileState } from './providers/FeaturedVideoTileProvider';
+export { useVideoPagination } from './providers/VideoPaginationProvider';
+export { useDataMessages } from './providers/DataMessagesProvider';
+export { useMeetingChat } from './providers/MeetingChatProvider';
+export {
+  useRaiseHand,
+  useAttendeeHandState,
+} from './providers/RaiseHandProvider';
+export { useModeration } from './providers/ModerationProvider';
+export { useSpeakingStats } from './providers/SpeakingAnalyticsProvider';
 export {
   useAudioInputs,
   useVideoInputs,
   useAudioOutputs,
 } from './providers/DevicesProvider';
-export { useLocalAudioOutput } from './providers/LocalAudioOutputProvider';
+export {
+  useLocalAudioOutput,
+  useAudioOutputVolume,
+} from './providers/LocalAudioOutputProvider';
 export { useLocalVideo } from './providers/LocalVideoProvider';
 export {
   useContentShareState,
@@ -145,12 +170,21 @@ export { useToggleLocalMute } from './hooks/sdk/useToggleLocalMute';
 export { useMeetingStatus } from './hooks/sdk/useMeetingStatus';
 export { useLocalAudioInputActivity } from './hooks/sdk/useLocalAudioInputActivity';
 export { useLocalAudioInputActivityPreview } from './hooks/sdk/useLocalAudioInputActivityPreview';
+export { useAudioOutputActivity } from './hooks/sdk/useAudioOutputActivity';
 export { useDeviceLabelTriggerStatus } from './hooks/sdk/useDeviceLabelTriggerStatus';
 export { useMediaStreamMetrics } from './hooks/sdk/useMediaStreamMetrics';
+export { useDeviceChangeNotifications } from './hooks/sdk/useDeviceChangeNotifications';
+export { useMutedSpeechDetection } from './hooks/sdk/useMutedSpeechDetection';
+export { useMicrophoneTest } from './hooks/sdk/useMicrophoneTest';
+export { useSpeakerTest } from './hooks/sdk/useSpeakerTest';
+export { useConnectionHealth } from './hooks/sdk/useConnectionHealth';
+export { useVideoTileViewport } from './hooks/sdk/useVideoTileViewport';
 
 // Providers
 export { NotificationProvider } from './providers/NotificationProvider';
 export { MeetingProvider } from './providers/MeetingProvider';
+export { MeetingManagerRegistryProvider } from './providers/MeetingManagerRegistryProvider';
+export { LobbyProvider } from './providers/LobbyProvider';
 export { LocalAudioOutputProvider } from './providers/LocalAudioOutputProvider';
 export { LocalVideoProvider } from './providers/LocalVideoProvider';
 export { ContentShareProvider } from './providers/ContentShareProvider';
@@ -159,6 +193,12 @@ export { RosterProvider } from './providers/RosterProvider';
 export { DevicesProvider } from './providers/DevicesProvider';
 export { RemoteVideoTileProvider } from './providers/RemoteVideoTileProvider';
 export { FeaturedVideoTileProvider } from './providers/FeaturedVideoTileProvider';
+export { VideoPaginationProvider } from './providers/VideoPaginationProvider';
+export { DataMessagesProvider } from './providers/DataMessagesProvider';
+export { MeetingChatProvider } from './providers/MeetingChatProvider';
+export { RaiseHandProvider } from './providers/RaiseHandProvider';
+export { ModerationProvider } from './providers/ModerationProvider';
+export { SpeakingAnalyticsProvider } from './providers/SpeakingAnalyticsProvider';
 export { VoiceFocusProvider } from './providers/VoiceFocusProvider';
 export { BackgroundBlurProvider } from './providers/BackgroundBlurProvider';
 export { BackgroundReplacementProvider } from './providers/BackgroundReplacementProvider';
@@ -182,7 +222,13 @@ export { lightTheme, darkTheme, GlobalStyles, StyledReset } from './theme';
 
 // Types
 export { VideoQuality } from './hooks/sdk/useSelectVideoQuality';
-export { RosterAttendeeType, RosterType } from './types';
+export {
+  RosterAttendeeType,
+  RosterType,
+  ContentShareSource,
+  ContentShareError,
+  ContentShareResult,
+} from './types';
 
 // enums
 export {
@@ -190,16 +236,144 @@ export {
   DeviceLabels,
   DeviceLabelTrigger,
   DeviceLabelTriggerStatus,
+  DeviceChangePolicy,
+  MicrophoneTestStatus,
+  SpeakerTestStatus,
+  ConnectionQuality,
+  ConnectionHealthReason,
+  ContentShareSourceType,
+  ContentShareErrorType,
+  ContentSharePolicy,
+  AnnotationTool,
 } from './types';
 export { Severity, ActionType } from './providers/NotificationProvider';
+export { LobbyStep, LobbyFailureReason } from './providers/LobbyProvider';
+export {
+  RosterSortBy,
+  AttendanceReportFormat,
+} from './providers/RosterProvider';
+export { FeaturedTilePolicy } from './providers/FeaturedVideoTileProvider';
+export { DataMessageStatus } from './providers/DataMessagesProvider';
+export { AttendeeRole } from './providers/ModerationProvider';
 
 // Class
 export { MeetingManager } from './providers/MeetingProvider/MeetingManager';
+export { MeetingManagerRegistry } from './providers/MeetingProvider/MeetingManagerRegistry';
+export { AttendeeInfoResolver } from './providers/MeetingProvider/AttendeeInfoResolver';
+export {
+  InMemoryDevicePreferenceStore,
+  LocalStorageDevicePreferenceStore,
+} from './providers/MeetingProvider/DevicePreferenceStore';
+export {
+  InMemoryChatMessageStore,
+  LocalStorageChatMessageStore,
+} from './providers/MeetingChatProvider';
+export { InMemoryModerationAdapter } from './providers/ModerationProvider';
 
 // Interface
-export { MeetingManagerJoinOptions } from './providers/MeetingProvider/types';
+export {
+  MeetingManagerJoinOptions,
+  ReconnectPolicy,
+  DeviceChange,
+  AttendeeRequest,
+  StartDeviceOptions,
+} from './providers/MeetingProvider/types';
+export {
+  AttendeeInfoResolverOptions,
+  AttendeeInfoSource,
+  RetryPolicy,
+} from './providers/MeetingProvider/AttendeeInfoResolver';
 export { NotificationType, Action } from './providers/NotificationProvider';
+export { LobbyContextType } from './providers/LobbyProvider';
+export {
+  RosterState,
+  RosterSelectorOptions,
+  RosterHistoryState,
+  RosterHistoryEntry,
+  AttendanceRecord,
+} from './providers/RosterProvider';
+export { VideoPaginationState } from './providers/VideoPaginationProvider';
+export {
+  DataMessageTopic,
+  DataMessageItem,
+  DataMessagesState,
+  DataMessageCodec,
+  DataMessageChannelOptions,
+} from './providers/DataMessagesProvider';
+export {
+  MeetingChatState,
+  ChatMessage,
+  ChatAttachment,
+  ChatMessageStore,
+  ChatHistory,
+} from './providers/MeetingChatProvider';
+export {
+  RaiseHandState,
+  AttendeeHandState,
+  RaisedHand,
+  Reaction,
+} from './providers/RaiseHandProvider';
+export {
+  ModerationState,
+  ModerationAdapter,
+} from './providers/ModerationProvider';
+export {
+  SpeakingStatsState,
+  AttendeeSpeakingStats,
+  SpeakerStats,
+  SilenceStats,
+  VolumeSample,
+} from './providers/SpeakingAnalyticsProvider';
+export { SpeakerTime } from './components/ui/SpeakerTimeChart';
+export { MutedSpeechDetectionOptions } from './hooks/sdk/useMutedSpeechDetection';
+export {
+  MicrophoneTestOptions,
+  MicrophoneTestState,
+} from './hooks/sdk/useMicrophoneTest';
+export {
+  SpeakerTestOptions,
+  SpeakerTestState,
+} from './hooks/sdk/useSpeakerTest';
+export {
+  VideoTileViewport,
+  VideoTileViewportOptions,
+} from './hooks/sdk/useVideoTileViewport';
+export { MicrophoneTestMeasurements } from './utils/audio-test';
+export {
+  ConnectionHealth,
+  ConnectionHealthInputs,
+} from './utils/connection-health';
+export { ContentShareSourceOption } from './components/sdk/MeetingControls/ContentShareControl';
+export { AudioOutputVolumeState } from './providers/LocalAudioOutputProvider';
+export {
+  ContentShareState,
+  ContentShareTile,
+} from './providers/ContentShareProvider';
+export {
+  Annotation,
+  AnnotationEvent,
+  AnnotationPoint,
+} from './utils/annotations';
+export {
+  DevicePreference,
+  DevicePreferenceStore,
+} from './providers/MeetingProvider/DevicePreferenceStore';
 
 // Utilities
 export { Versioning } from './versioning/Versioning';
 export { isOptionActive, getDeviceId } from './utils/device-utils';
+export {
+  jsonCodec,
+  binaryCodec,
+  MAX_DATA_MESSAGE_SIZE,
+} from './providers/DataMessagesProvider';
+export { DEFAULT_REACTIONS } from './providers/RaiseHandProvider';
+export {
+  getAttendeeRole,
+  ROLE_METADATA_KEY,
+} from './providers/ModerationProvider';
+export {
+  getConnectionHealth,
+  getSignalStrengthQuality,
+} from './utils/connection-health';
+export { defaultContentShareSources } from './components/sdk/MeetingControls/ContentShareControl';
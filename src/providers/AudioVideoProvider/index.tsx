@@ -4,6 +4,7 @@
 import { AudioVideoFacade } from 'amazon-chime-sdk-js';
 import React, { createContext, useContext, useEffect, useState } from 'react';
 
+import { MeetingManagerRegistryContext } from '../../providers/MeetingManagerRegistryProvider';
 import { useMeetingManager } from '../../providers/MeetingProvider';
 
 type AudioVideoValue = AudioVideoFacade | null;
@@ -33,8 +34,41 @@ export const AudioVideoProvider: React.FC<React.PropsWithChildren<unknown>> = ({
   );
 };
 
-export const useAudioVideo = (): AudioVideoValue => {
+export const useAudioVideo = (meetingId?: string): AudioVideoValue => {
   const audioVideo = useContext(AudioVideoContext);
+  const registry = useContext(MeetingManagerRegistryContext);
+  const scopedMeetingManager = (meetingId && registry?.get(meetingId)) || null;
+  const [scopedAudioVideo, setScopedAudioVideo] = useState<AudioVideoValue>(
+    () => scopedMeetingManager?.audioVideo || null
+  );
+
+  useEffect(() => {
+    if (!scopedMeetingManager) {
+      return;
+    }
+
+    function audioVideoUpdateCb(av: AudioVideoValue): void {
+      setScopedAudioVideo(av);
+    }
+
+    setScopedAudioVideo(scopedMeetingManager.audioVideo);
+    scopedMeetingManager.subscribeToAudioVideo(audioVideoUpdateCb);
+
+    return () =>
+      scopedMeetingManager.unsubscribeFromAudioVideo(audioVideoUpdateCb);
+  }, [scopedMeetingManager]);
+
+  if (meetingId && !registry) {
+    throw new Error(
+      'useAudioVideo with a meetingId must be used within MeetingManagerRegistryProvider'
+    );
+  }
+
+  if (meetingId && !scopedMeetingManager) {
+    throw new Error(
+      `useAudioVideo could not find a MeetingManager registered for ${meetingId}`
+    );
+  }
 
-  return audioVideo;
+  return meetingId ? scopedAudioVideo : audioVideo;
 };
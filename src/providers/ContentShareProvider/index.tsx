@@ -12,11 +12,26 @@ import React, {
   useRef,
 } from 'react';
 
-import { ContentShareControlContextType } from '../../types';
+import {
+  ContentShareControlContextType,
+  ContentShareError,
+  ContentShareErrorType,
+  ContentSharePolicy,
+  ContentShareResult,
+  ContentShareSource,
+} from '../../types';
+import {
+  acquireContentShareSource,
+  getContentShareErrorType,
+  isContentShareSource,
+} from '../../utils/content-share';
 import { useAudioVideo } from '../AudioVideoProvider';
 import {
   ContentActionType,
   ContentShareState,
+  ContentShareTile,
+  getContentShareLimit,
+  getContentShareState,
   initialState,
   reducer,
 } from './state';
@@ -25,13 +40,50 @@ const ContentShareContext = createContext<ContentShareState | null>(null);
 const ContentShareControlContext =
   createContext<ContentShareControlContextType | null>(null);
 
-export const ContentShareProvider: React.FC<
-  React.PropsWithChildren<unknown>
-> = ({ children }) => {
+interface Props {
+  /** Called when the local content share could not start, or stopped because another attendee started sharing. */
+  onContentShareError?: (error: ContentShareError) => void;
+  /** Which content shares to show when several attendees share, it defaults to `NEWEST_WINS`. */
+  policy?: ContentSharePolicy;
+  /** How many content shares to show at once with the `ALLOW_CONCURRENT` policy, it defaults to `2`. */
+  maxConcurrentShares?: number;
+}
+
+export const ContentShareProvider: React.FC<React.PropsWithChildren<Props>> = ({
+  onContentShareError,
+  policy = ContentSharePolicy.NEWEST_WINS,
+  maxConcurrentShares = 2,
+  children,
+}) => {
   const audioVideo = useAudioVideo();
-  const [state, dispatch] = useReducer(reducer, initialState);
+  const [reducerState, dispatch] = useReducer(reducer, initialState);
+  const state = useMemo(
+    () => getContentShareState(reducerState, policy, maxConcurrentShares),
+    [reducerState, policy, maxConcurrentShares]
+  );
   const { paused, isLocalUserSharing, isLocalShareLoading } = state;
   const localUserTileIdRef = useRef<number | null>(null);
+  const policyRef = useRef(policy);
+  policyRef.current = policy;
+  const onContentShareErrorRef = useRef(onContentShareError);
+  onContentShareErrorRef.current = onContentShareError;
+  // Stops the source that the local user shares with a `ContentShareSource`
+  const releaseSourceRef = useRef<(() => void) | null>(null);
+
+  const releaseSource = useCallback((): void => {
+    releaseSourceRef.current?.();
+    releaseSourceRef.current = null;
+  }, []);
+
+  const reportError = useCallback(
+    (type: ContentShareErrorType, error?: Error): ContentShareError => {
+      const contentShareError: ContentShareError = { type, error };
+      dispatch({ type: ContentActionType.ERROR, payload: contentShareError });
+      onContentShareErrorRef.current?.(contentShareError);
+      return contentShareError;
+    },
+    []
+  );
 
   useEffect(() => {
     if (!audioVideo) {
@@ -54,11 +106,14 @@ export const ContentShareProvider: React.FC<
           .realtimeController.state.localAttendeeId;
         const isLocalUser = baseAttendeeId === localAttendeeId;
 
-        if (
+        // Only the newest content share is kept, other policies let the local user share along
+        const sharedByOther =
+          policyRef.current === ContentSharePolicy.NEWEST_WINS &&
           !isLocalUser &&
-          localUserTileIdRef.current &&
-          localUserTileIdRef.current < tileState.tileId
-        ) {
+          !!localUserTileIdRef.current &&
+          localUserTileIdRef.current < tileState.tileId;
+
+        if (sharedByOther) {
           audioVideo.stopContentShare();
           localUserTileIdRef.current = null;
         }
@@ -74,6 +129,10 @@ export const ContentShareProvider: React.FC<
             isLocalUser,
           },
         });
+
+        if (sharedByOther) {
+          reportError(ContentShareErrorType.SHARED_BY_OTHER);
+        }
       },
       videoTileWasRemoved: (tileId: number) => {
         if (tileId === localUserTileIdRef.current) {
@@ -89,6 +148,7 @@ export const ContentShareProvider: React.FC<
 
     const contentShareObserver = {
       contentShareDidStop: () => {
+        releaseSource();
         dispatch({ type: ContentActionType.DID_STOP });
       },
     };
@@ -99,45 +159,90 @@ export const ContentShareProvider: React.FC<
     return () => {
       audioVideo.removeObserver(videoObserver);
       audioVideo.removeContentShareObserver(contentShareObserver);
+      releaseSource();
       dispatch({ type: ContentActionType.RESET });
     };
   }, [audioVideo]);
 
-  useEffect(() => {
-    if (!audioVideo) {
-      return;
-    }
-
-    const cb = (event: PromiseRejectionEvent) => {
-      if (event.reason.name === 'NotAllowedError') {
-        dispatch({ type: ContentActionType.DENIED });
+  const startContentShareFromSource = useCallback(
+    async (source: ContentShareSource): Promise<void> => {
+      if (!audioVideo) {
+        return;
       }
-    };
 
-    window.addEventListener('unhandledrejection', cb);
-    return () => window.removeEventListener('unhandledrejection', cb);
-  }, [isLocalShareLoading]);
+      releaseSource();
+      const { stream, release } = await acquireContentShareSource(source, () =>
+        audioVideo.stopContentShare()
+      );
+      releaseSourceRef.current = release;
+
+      try {
+        await audioVideo.startContentShare(stream);
+      } catch (error) {
+        releaseSource();
+        throw error;
+      }
+    },
+    [audioVideo, releaseSource]
+  );
 
   const toggleContentShare = useCallback(
-    async (source?: string | MediaStream): Promise<void> => {
+    async (
+      source?: string | MediaStream | ContentShareSource
+    ): Promise<ContentShareResult> => {
       if (!audioVideo) {
-        return;
+        return { sharing: false, error: null };
       }
 
       if (isLocalUserSharing || isLocalShareLoading) {
         audioVideo.stopContentShare();
-      } else {
+        return { sharing: false, error: null };
+      }
+
+      const remoteShareCount = reducerState.tiles.filter(
+        ({ isLocalUser }) => !isLocalUser
+      ).length;
+      if (
+        policy !== ContentSharePolicy.NEWEST_WINS &&
+        remoteShareCount >= getContentShareLimit(policy, maxConcurrentShares)
+      ) {
+        const contentShareError = reportError(
+          ContentShareErrorType.SHARED_BY_OTHER
+        );
+        return { sharing: false, error: contentShareError };
+      }
+
+      try {
         if (source && typeof source === 'string') {
           await audioVideo.startContentShareFromScreenCapture(source);
+        } else if (isContentShareSource(source)) {
+          await startContentShareFromSource(source);
         } else if (source && source instanceof MediaStream) {
           await audioVideo.startContentShare(source);
         } else {
           await audioVideo.startContentShareFromScreenCapture();
         }
-        dispatch({ type: ContentActionType.STARTING });
+      } catch (error) {
+        const contentShareError = reportError(
+          getContentShareErrorType(error),
+          error as Error
+        );
+        return { sharing: false, error: contentShareError };
       }
+
+      dispatch({ type: ContentActionType.STARTING });
+      return { sharing: true, error: null };
     },
-    [audioVideo, isLocalUserSharing, isLocalShareLoading]
+    [
+      audioVideo,
+      isLocalUserSharing,
+      isLocalShareLoading,
+      reducerState.tiles,
+      policy,
+      maxConcurrentShares,
+      startContentShareFromSource,
+      reportError,
+    ]
   );
 
   const togglePauseContentShare = useCallback((): void => {
@@ -202,3 +307,5 @@ export const useContentShareControls = (): ContentShareControlContextType => {
   }
   return context;
 };
+
+export { ContentShareState, ContentShareTile };
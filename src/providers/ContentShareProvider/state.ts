@@ -0,0 +1,234 @@
+// Copyright Amazon.com, Inc. or its affiliates. All Rights Reserved.
+// SPDX-License-Identifier: Apache-2.0
+
+import { DefaultModality, VideoTileState } from 'amazon-chime-sdk-js';
+
+import { ContentShareError, ContentSharePolicy } from '../../types';
+
+export enum ContentActionType {
+  STARTING,
+  DID_STOP,
+  UPDATE,
+  TOGGLE_PAUSE,
+  REMOVE,
+  ERROR,
+  RESET,
+}
+
+type StartingAction = {
+  type: ContentActionType.STARTING;
+  payload?: any;
+};
+
+type DidStopAction = {
+  type: ContentActionType.DID_STOP;
+  payload?: any;
+};
+
+type UpdateAction = {
+  type: ContentActionType.UPDATE;
+  payload: UpdatePayload;
+};
+
+type UpdatePayload = {
+  isLocalUser: boolean;
+  tileState: VideoTileState;
+};
+
+type TogglePauseAction = {
+  type: ContentActionType.TOGGLE_PAUSE;
+  payload?: any;
+};
+
+type RemoveAction = {
+  type: ContentActionType.REMOVE;
+  payload: number;
+};
+
+type ErrorAction = {
+  type: ContentActionType.ERROR;
+  payload: ContentShareError;
+};
+
+type ResetAction = {
+  type: ContentActionType.RESET;
+  payload?: any;
+};
+
+export type Action =
+  | StartingAction
+  | DidStopAction
+  | UpdateAction
+  | TogglePauseAction
+  | RemoveAction
+  | ErrorAction
+  | ResetAction;
+
+export type ContentShareTile = {
+  tileId: number;
+  /** The chime attendee ID of the user sharing. */
+  attendeeId: string;
+  /** The attendee ID bound to the content tile, the one of the user sharing with a `#content` suffix. */
+  boundAttendeeId: string;
+  isLocalUser: boolean;
+};
+
+export type ContentShareReducerState = {
+  /** Every active content share, oldest first. */
+  tiles: ContentShareTile[];
+  paused: boolean;
+  isLocalShareLoading: boolean;
+  error: ContentShareError | null;
+};
+
+export type ContentShareState = {
+  tileId: number | null;
+  paused: boolean;
+  isLocalShareLoading: boolean;
+  isLocalUserSharing: boolean;
+  sharingAttendeeId: string | null;
+  error: ContentShareError | null;
+  /** The content shares to show according to the policy, oldest first. */
+  shares: ContentShareTile[];
+  /** The content shares that wait for a shown content share to stop, oldest first. */
+  queuedShares: ContentShareTile[];
+};
+
+export const initialState: ContentShareReducerState = {
+  tiles: [],
+  paused: false,
+  isLocalShareLoading: false,
+  error: null,
+};
+
+/**
+ * Returns how many content shares are shown at once with a policy.
+ */
+export function getContentShareLimit(
+  policy: ContentSharePolicy,
+  maxConcurrentShares: number
+): number {
+  return policy === ContentSharePolicy.ALLOW_CONCURRENT
+    ? Math.max(1, maxConcurrentShares)
+    : 1;
+}
+
+/**
+ * Picks the content shares to show according to the policy: the newest one, the first one,
+ * or the first `maxConcurrentShares` ones. The other content shares are queued.
+ */
+export function getContentShareState(
+  { tiles, paused, isLocalShareLoading, error }: ContentShareReducerState,
+  policy: ContentSharePolicy,
+  maxConcurrentShares: number
+): ContentShareState {
+  const limit = getContentShareLimit(policy, maxConcurrentShares);
+  const shares =
+    policy === ContentSharePolicy.NEWEST_WINS
+      ? tiles.slice(-limit)
+      : tiles.slice(0, limit);
+  const queuedShares = tiles.filter((tile) => !shares.includes(tile));
+  // The newest shown content share is the main one
+  const mainShare = shares.length ? shares[shares.length - 1] : null;
+
+  return {
+    tileId: mainShare ? mainShare.tileId : null,
+    paused,
+    isLocalShareLoading,
+    isLocalUserSharing: tiles.some(({ isLocalUser }) => isLocalUser),
+    sharingAttendeeId: mainShare ? mainShare.boundAttendeeId : null,
+    error,
+    shares,
+    queuedShares,
+  };
+}
+
+export function reducer(
+  state: ContentShareReducerState,
+  { type, payload }: Action
+): ContentShareReducerState {
+  switch (type) {
+    case ContentActionType.STARTING: {
+      return {
+        ...state,
+        isLocalShareLoading: true,
+        error: null,
+      };
+    }
+    case ContentActionType.UPDATE: {
+      const { isLocalUser, tileState } = payload as UpdatePayload;
+      const { tileId, boundAttendeeId } = tileState;
+
+      if (
+        !tileId ||
+        !boundAttendeeId ||
+        state.tiles.some((tile) => tile.tileId === tileId)
+      ) {
+        return state;
+      }
+
+      const tile: ContentShareTile = {
+        tileId,
+        attendeeId: new DefaultModality(boundAttendeeId).base(),
+        boundAttendeeId,
+        isLocalUser,
+      };
+      const tiles = [...state.tiles, tile].sort((a, b) => a.tileId - b.tileId);
+
+      if (!isLocalUser) {
+        return { ...state, tiles };
+      }
+
+      return {
+        tiles,
+        paused: false,
+        isLocalShareLoading: false,
+        error: null,
+      };
+    }
+    case ContentActionType.REMOVE: {
+      const removed = state.tiles.find(({ tileId }) => tileId === payload);
+
+      if (!removed) {
+        return state;
+      }
+
+      return {
+        ...state,
+        tiles: state.tiles.filter((tile) => tile !== removed),
+        paused: removed.isLocalUser ? false : state.paused,
+      };
+    }
+    case ContentActionType.DID_STOP: {
+      return {
+        ...state,
+        tiles: state.tiles.filter(({ isLocalUser }) => !isLocalUser),
+        isLocalShareLoading: false,
+        paused: false,
+      };
+    }
+    case ContentActionType.TOGGLE_PAUSE: {
+      if (!state.tiles.some(({ isLocalUser }) => isLocalUser)) {
+        return state;
+      }
+
+      return {
+        ...state,
+        paused: !state.paused,
+      };
+    }
+    case ContentActionType.ERROR: {
+      return {
+        ...state,
+        isLocalShareLoading: false,
+        error: payload as ContentShareError,
+      };
+    }
+
+    case ContentActionType.RESET: {
+      return initialState;
+    }
+    default:
+      throw new Error('Incorrect type in VideoProvider');
+  }
+}
@@ -0,0 +1,474 @@
+// Copyright Amazon.com, Inc. or its affiliates. All Rights Reserved.
+// SPDX-License-Identifier: Apache-2.0
+
+import { AudioVideoFacade, DataMessage, Logger } from 'amazon-chime-sdk-js';
+
+import { getBackoffDelay } from '../../utils/backoff';
+import { RetryPolicy } from '../MeetingProvider/AttendeeInfoResolver';
+import { concatChunks, decodeFrame, encodeFrames } from './codecs';
+
+export enum DataMessageStatus {
+  /** Some frames of the message are waiting to be sent. */
+  QUEUED = 'QUEUED',
+  SENT = 'SENT',
+  /** The server throttled a frame of the message more often than the retry policy allows,
+   * or the meeting session failed to send a frame.
+   */
+  FAILED = 'FAILED',
+}
+
+export type DataMessageEntry = {
+  messageId: string;
+  topic: string;
+  data: Uint8Array;
+  senderAttendeeId: string;
+  senderExternalUserId?: string;
+  timestampMs: number;
+  /** Whether the message was sent by the local attendee. */
+  local: boolean;
+  status: DataMessageStatus;
+};
+
+export interface DataMessageChannelOptions {
+  /** The maximum size of a message, in bytes. Larger messages are rejected. Defaults to 65536. */
+  maxMessageSize?: number;
+  /** The maximum number of data messages sent per second. Defaults to 50. */
+  maxMessagesPerSecond?: number;
+  /** The maximum number of messages kept per topic. Defaults to 100. */
+  logSize?: number;
+  /** Defaults to 5 attempts, starting with a 200ms delay. */
+  retryPolicy?: RetryPolicy;
+  /** How long the chunks of an incomplete message are kept. Defaults to 30000ms. */
+  chunkTimeoutMs?: number;
+}
+
+type QueuedFrame = {
+  topic: string;
+  messageId: string;
+  frame: Uint8Array;
+  lifetimeMs?: number;
+  attempt: number;
+};
+
+type SentFrame = {
+  queuedFrame: QueuedFrame;
+  sentAt: number;
+};
+
+type PartialMessage = {
+  chunks: Uint8Array[];
+  receivedCount: number;
+  expiresAt: number;
+};
+
+const TOPIC_PATTERN = /^[a-zA-Z0-9_-]{1,36}$/;
+
+// How long a sent frame can still come back as throttled
+const THROTTLE_WINDOW_MS = 10000;
+
+export class DataMessageChannel {
+  private audioVideo: AudioVideoFacade;
+
+  private localAttendeeId: string;
+
+  private logger: Logger;
+
+  private maxMessageSize: number;
+
+  private sendIntervalMs: number;
+
+  private logSize: number;
+
+  private retryPolicy: RetryPolicy;
+
+  private chunkTimeoutMs: number;
+
+  private messagePrefix = Math.random().toString(36).slice(2, 8);
+
+  private messageCount = 0;
+
+  private topics = new Set<string>();
+
+  private logs = new Map<string, DataMessageEntry[]>();
+
+  private observers = new Map<
+    string,
+    ((messages: DataMessageEntry[]) => void)[]
+  >();
+
+  private queue: QueuedFrame[] = [];
+
+  private sendTimeout: ReturnType<typeof setTimeout> | null = null;
+
+  private lastSentAt = 0;
+
+  private sentFrames = new Map<string, SentFrame>();
+
+  private failedMessageIds = new Set<string>();
+
+  private pendingFrameCounts = new Map<string, number>();
+
+  private partialMessages = new Map<string, PartialMessage>();
+
+  private retryTimeouts = new Set<ReturnType<typeof setTimeout>>();
+
+  constructor(
+    audioVideo: AudioVideoFacade,
+    localAttendeeId: string,
+    logger: Logger,
+    {
+      maxMessageSize = 65536,
+      maxMessagesPerSecond = 50,
+      logSize = 100,
+      retryPolicy = { maxAttempts: 5, initialDelayMs: 200 },
+      chunkTimeoutMs = 30000,
+    }: DataMessageChannelOptions = {}
+  ) {
+    this.audioVideo = audioVideo;
+    this.localAttendeeId = localAttendeeId;
+    this.logger = logger;
+    this.maxMessageSize = maxMessageSize;
+    this.sendIntervalMs = 1000 / maxMessagesPerSecond;
+    this.logSize = logSize;
+    this.retryPolicy = retryPolicy;
+    this.chunkTimeoutMs = chunkTimeoutMs;
+  }
+
+  /**
+   * Queues the data, split into chunks that fit in one data message, and adds it to the topic log.
+   * Throws if the topic is invalid or the data is larger than `maxMessageSize`.
+   */
+  send = (
+    topic: string,
+    data: Uint8Array,
+    lifetimeMs?: number
+  ): DataMessageEntry => {
+    this.listenTo(topic);
+    if (data.length > this.maxMessageSize) {
+      throw new Error(
+        `Data message of ${data.length} bytes exceeds the maximum size of ${this.maxMessageSize} bytes`
+      );
+    }
+
+    const messageId = `${this.messagePrefix}${(this.messageCount++).toString(
+      36
+    )}`;
+    const frames = encodeFrames(messageId, data);
+    this.pendingFrameCounts.set(messageId, frames.length);
+    frames.forEach((frame) =>
+      this.queue.push({ topic, messageId, frame, lifetimeMs, attempt: 1 })
+    );
+
+    const entry = {
+      messageId,
+      topic,
+      data,
+      senderAttendeeId: this.localAttendeeId,
+      timestampMs: Date.now(),
+      local: true,
+      status: DataMessageStatus.QUEUED,
+    };
+    this.addToLog(entry);
+    this.scheduleSend();
+
+    return entry;
+  };
+
+  getMessages = (topic: string): DataMessageEntry[] =>
+    this.logs.get(topic) || [];
+
+  clearMessages = (topic: string): void => {
+    this.logs.delete(topic);
+    this.publishMessages(topic);
+  };
+
+  subscribeToMessages = (
+    topic: string,
+    callback: (messages: DataMessageEntry[]) => void
+  ): void => {
+    this.listenTo(topic);
+    this.observers.set(topic, [...(this.observers.get(topic) || []), callback]);
+  };
+
+  unsubscribeFromMessages = (
+    topic: string,
+    callbackToRemove: (messages: DataMessageEntry[]) => void
+  ): void => {
+    this.observers.set(
+      topic,
+      (this.observers.get(topic) || []).filter(
+        (callback) => callback !== callbackToRemove
+      )
+    );
+  };
+
+  /**
+   * Stops receiving data messages and drops the queued frames.
+   * The meeting session removes every callback of a topic at once, so this also removes the callbacks
+   * that the app subscribed with `realtimeSubscribeToReceiveDataMessage` to the topics of this channel.
+   */
+  destroy = (): void => {
+    this.topics.forEach((topic) =>
+      this.audioVideo.realtimeUnsubscribeFromReceiveDataMessage(topic)
+    );
+    this.topics.clear();
+    if (this.sendTimeout) {
+      clearTimeout(this.sendTimeout);
+      this.sendTimeout = null;
+    }
+    this.retryTimeouts.forEach((timeout) => clearTimeout(timeout));
+    this.retryTimeouts.clear();
+    this.queue = [];
+    this.sentFrames.clear();
+    this.failedMessageIds.clear();
+    this.partialMessages.clear();
+    this.observers.clear();
+  };
+
+  private listenTo(topic: string): void {
+    if (!TOPIC_PATTERN.test(topic)) {
+      throw new Error(
+        `Invalid data message topic "${topic}": use 1 to 36 letters, digits, dashes or underscores`
+      );
+    }
+
+    if (this.topics.has(topic)) {
+      return;
+    }
+
+    this.topics.add(topic);
+    this.audioVideo.realtimeSubscribeToReceiveDataMessage(
+      topic,
+      this.receiveDataMessage
+    );
+  }
+
+  private scheduleSend(): void {
+    if (this.sendTimeout || !this.queue.length) {
+      return;
+    }
+
+    const delay = Math.max(
+      0,
+      this.lastSentAt + this.sendIntervalMs - Date.now()
+    );
+    this.sendTimeout = setTimeout(this.sendNextFrame, delay);
+  }
+
+  private sendNextFrame = (): void => {
+    this.sendTimeout = null;
+    const queuedFrame = this.queue.shift();
+    if (!queuedFrame) {
+      return;
+    }
+
+    const { topic, messageId, frame, lifetimeMs } = queuedFrame;
+    this.lastSentAt = Date.now();
+    try {
+      this.audioVideo.realtimeSendDataMessage(topic, frame, lifetimeMs);
+    } catch (error) {
+      this.logger.error(
+        `[DataMessageChannel] failed to send message ${messageId} on topic ${topic}: ${error}`
+      );
+      this.failMessage(topic, messageId);
+      this.scheduleSend();
+      return;
+    }
+    this.purgeSentFrames();
+    this.sentFrames.set(this.getFrameKey(frame), {
+      queuedFrame,
+      sentAt: this.lastSentAt,
+    });
+
+    const pendingFrameCount = (this.pendingFrameCounts.get(messageId) || 1) - 1;
+    if (pendingFrameCount > 0) {
+      this.pendingFrameCounts.set(messageId, pendingFrameCount);
+    } else if (this.pendingFrameCounts.delete(messageId)) {
+      this.updateStatus(topic, messageId, DataMessageStatus.SENT);
+    }
+
+    this.scheduleSend();
+  };
+
+  private receiveDataMessage = (dataMessage: DataMessage): void => {
+    if (dataMessage.throttled) {
+      this.retryThrottledFrame(dataMessage.data);
+      return;
+    }
+
+    const { topic, data, senderAttendeeId } = dataMessage;
+    const frame = decodeFrame(data);
+    if (!frame) {
+      this.addReceivedMessage(dataMessage, `${dataMessage.timestampMs}`, data);
+      return;
+    }
+
+    if (frame.count === 1) {
+      this.addReceivedMessage(dataMessage, frame.messageId, frame.data);
+      return;
+    }
+
+    this.purgePartialMessages();
+    const key = `${senderAttendeeId}/${topic}/${frame.messageId}`;
+    const partialMessage = this.partialMessages.get(key) || {
+      chunks: new Array(frame.count),
+      receivedCount: 0,
+      expiresAt: Date.now() + this.chunkTimeoutMs,
+    };
+    if (!partialMessage.chunks[frame.index]) {
+      partialMessage.chunks[frame.index] = frame.data;
+      partialMessage.receivedCount++;
+    }
+
+    if (partialMessage.receivedCount < frame.count) {
+      this.partialMessages.set(key, partialMessage);
+      return;
+    }
+
+    this.partialMessages.delete(key);
+    this.addReceivedMessage(
+      dataMessage,
+      frame.messageId,
+      concatChunks(partialMessage.chunks)
+    );
+  };
+
+  private retryThrottledFrame(frame: Uint8Array): void {
+    const key = this.getFrameKey(frame);
+    const sentFrame = this.sentFrames.get(key);
+    if (!sentFrame) {
+      return;
+    }
+
+    this.sentFrames.delete(key);
+    const { queuedFrame } = sentFrame;
+    const { topic, messageId, attempt } = queuedFrame;
+    if (this.failedMessageIds.has(messageId)) {
+      return;
+    }
+
+    if (attempt >= this.retryPolicy.maxAttempts) {
+      this.logger.error(
+        `[DataMessageChannel] message ${messageId} on topic ${topic} was throttled ${attempt} times`
+      );
+      this.failMessage(topic, messageId);
+      return;
+    }
+
+    this.logger.warn(
+      `[DataMessageChannel] message ${messageId} on topic ${topic} was throttled, retrying`
+    );
+    // The message is not sent until this frame is sent again
+    this.pendingFrameCounts.set(
+      messageId,
+      (this.pendingFrameCounts.get(messageId) || 0) + 1
+    );
+    this.updateStatus(topic, messageId, DataMessageStatus.QUEUED);
+
+    const timeout = setTimeout(() => {
+      this.retryTimeouts.delete(timeout);
+      if (this.failedMessageIds.has(messageId)) {
+        return;
+      }
+
+      this.queue.push({ ...queuedFrame, attempt: attempt + 1 });
+      this.scheduleSend();
+    }, getBackoffDelay(this.retryPolicy, attempt));
+    this.retryTimeouts.add(timeout);
+  }
+
+  private failMessage(topic: string, messageId: string): void {
+    // The other chunks are useless without the one that failed
+    this.failedMessageIds.add(messageId);
+    this.queue = this.queue.filter((queued) => queued.messageId !== messageId);
+    this.pendingFrameCounts.delete(messageId);
+    this.updateStatus(topic, messageId, DataMessageStatus.FAILED);
+  }
+
+  private addReceivedMessage(
+    { topic, senderAttendeeId, senderExternalUserId, timestampMs }: DataMessage,
+    messageId: string,
+    data: Uint8Array
+  ): void {
+    this.addToLog({
+      messageId,
+      topic,
+      data,
+      senderAttendeeId,
+      senderExternalUserId,
+      timestampMs,
+      local: false,
+      status: DataMessageStatus.SENT,
+    });
+  }
+
+  private addToLog(entry: DataMessageEntry): void {
+    this.logs.set(
+      entry.topic,
+      [...this.getMessages(entry.topic), entry].slice(-this.logSize)
+    );
+    this.publishMessages(entry.topic);
+  }
+
+  private updateStatus(
+    topic: string,
+    messageId: string,
+    status: DataMessageStatus
+  ): void {
+    const messages = this.getMessages(topic);
+    if (
+      !messages.some(
+        (entry) =>
+          entry.local &&
+          entry.messageId === messageId &&
+          entry.status !== status
+      )
+    ) {
+      return;
+    }
+
+    this.logs.set(
+      topic,
+      messages.map((entry) =>
+        entry.local && entry.messageId === messageId
+          ? { ...entry, status }
+          : entry
+      )
+    );
+    this.publishMessages(topic);
+  }
+
+  private publishMessages(topic: string): void {
+    const messages = this.getMessages(topic);
+    for (const observer of this.observers.get(topic) || []) {
+      observer(messages);
+    }
+  }
+
+  private getFrameKey(frame: Uint8Array): string {
+    const decodedFrame = decodeFrame(frame);
+    return decodedFrame
+      ? `${decodedFrame.messageId}:${decodedFrame.index}`
+      : '';
+  }
+
+  private purgeSentFrames(): void {
+    const now = Date.now();
+    this.sentFrames.forEach(({ sentAt }, key) => {
+      if (sentAt + THROTTLE_WINDOW_MS < now) {
+        this.sentFrames.delete(key);
+      }
+    });
+  }
+
+  private purgePartialMessages(): void {
+    const now = Date.now();
+    this.partialMessages.forEach(({ expiresAt }, key) => {
+      if (expiresAt < now) {
+        this.partialMessages.delete(key);
+      }
+    });
+  }
+}
+
+export default DataMessageChannel;
@@ -0,0 +1,116 @@
+// Copyright Amazon.com, Inc. or its affiliates. All Rights Reserved.
+// SPDX-License-Identifier: Apache-2.0
+
+/** The maximum size of one data message accepted by the Amazon Chime SDK, in bytes. */
+export const MAX_DATA_MESSAGE_SIZE = 2048;
+
+// Bytes reserved for the frame header of each chunk
+const FRAME_HEADER_SIZE = 32;
+
+// Marks the messages framed by the DataMessageChannel, so that unframed messages
+// sent by other clients on the same topic are still received.
+const FRAME_MARKER = 0x1e;
+
+const NEWLINE = 0x0a;
+
+export interface DataMessageCodec<T> {
+  encode: (payload: T) => Uint8Array;
+  decode: (data: Uint8Array) => T;
+}
+
+export const jsonCodec: DataMessageCodec<unknown> = {
+  encode: (payload) => new TextEncoder().encode(JSON.stringify(payload)),
+  decode: (data) => JSON.parse(new TextDecoder().decode(data)),
+};
+
+export const binaryCodec: DataMessageCodec<Uint8Array> = {
+  encode: (payload) => payload,
+  decode: (data) => data,
+};
+
+export type DataMessageFrame = {
+  messageId: string;
+  index: number;
+  count: number;
+  data: Uint8Array;
+};
+
+const encodeAscii = (text: string): Uint8Array =>
+  Uint8Array.from(text, (char) => char.charCodeAt(0));
+
+const decodeAscii = (data: Uint8Array): string =>
+  String.fromCharCode(...Array.from(data));
+
+/**
+ * Splits the data into frames that each fit in one data message.
+ * The message ID must only contain ASCII characters and be at most 16 characters long.
+ */
+export function encodeFrames(
+  messageId: string,
+  data: Uint8Array,
+  maxFrameSize = MAX_DATA_MESSAGE_SIZE
+): Uint8Array[] {
+  const chunkSize = maxFrameSize - FRAME_HEADER_SIZE;
+  const count = Math.max(1, Math.ceil(data.length / chunkSize));
+  const frames: Uint8Array[] = [];
+
+  for (let index = 0; index < count; index++) {
+    const header = encodeAscii(`${messageId}:${index}:${count}\n`);
+    const chunk = data.subarray(index * chunkSize, (index + 1) * chunkSize);
+    const frame = new Uint8Array(1 + header.length + chunk.length);
+    frame[0] = FRAME_MARKER;
+    frame.set(header, 1);
+    frame.set(chunk, 1 + header.length);
+    frames.push(frame);
+  }
+
+  return frames;
+}
+
+/**
+ * Returns the frame encoded in the data message, or `null` if the data message is not framed.
+ */
+export function decodeFrame(data: Uint8Array): DataMessageFrame | null {
+  if (data[0] !== FRAME_MARKER) {
+    return null;
+  }
+
+  const headerEnd = data.indexOf(NEWLINE);
+  if (headerEnd < 0 || headerEnd > FRAME_HEADER_SIZE) {
+    return null;
+  }
+
+  const [messageId, index, count] = decodeAscii(
+    data.subarray(1, headerEnd)
+  ).split(':');
+  const frame = {
+    messageId,
+    index: Number(index),
+    count: Number(count),
+    data: data.subarray(headerEnd + 1),
+  };
+
+  if (
+    !messageId ||
+    !Number.isInteger(frame.index) ||
+    !Number.isInteger(frame.count) ||
+    frame.index >= frame.count
+  ) {
+    return null;
+  }
+
+  return frame;
+}
+
+export function concatChunks(chunks: Uint8Array[]): Uint8Array {
+  const data = new Uint8Array(
+    chunks.reduce((size, chunk) => size + chunk.length, 0)
+  );
+  let offset = 0;
+  chunks.forEach((chunk) => {
+    data.set(chunk, offset);
+    offset += chunk.length;
+  });
+
+  return data;
+}
@@ -0,0 +1,200 @@
+// Copyright Amazon.com, Inc. or its affiliates. All Rights Reserved.
+// SPDX-License-Identifier: Apache-2.0
+
+import React, {
+  createContext,
+  useCallback,
+  useContext,
+  useEffect,
+  useMemo,
+  useRef,
+  useState,
+} from 'react';
+
+import { useAudioVideo } from '../AudioVideoProvider';
+import { useLogger } from '../LoggerProvider';
+import { useMeetingManager } from '../MeetingProvider';
+import {
+  binaryCodec,
+  DataMessageCodec,
+  jsonCodec,
+  MAX_DATA_MESSAGE_SIZE,
+} from './codecs';
+import {
+  DataMessageChannel,
+  DataMessageChannelOptions,
+  DataMessageEntry,
+  DataMessageStatus,
+} from './DataMessageChannel';
+
+export type DataMessageTopic<T> = {
+  /** 1 to 36 letters, digits, dashes or underscores. */
+  name: string;
+  /** Defaults to the JSON codec. */
+  codec?: DataMessageCodec<T>;
+  /** How long the server keeps the messages for attendees who join later, in milliseconds. */
+  lifetimeMs?: number;
+};
+
+export type DataMessageItem<T> = DataMessageEntry & {
+  payload: T;
+};
+
+export interface DataMessagesState<T> {
+  /** The messages of the topic, oldest first, including the messages sent by the local attendee. */
+  messages: DataMessageItem<T>[];
+  /** Queues the payload. Throws before the meeting session starts or if the payload is too large. */
+  send: (payload: T) => DataMessageItem<T>;
+  clearMessages: () => void;
+}
+
+type Props = DataMessageChannelOptions;
+
+// `null` until the meeting session starts, and `undefined` outside of a `DataMessagesProvider`
+const DataMessagesContext = createContext<
+  DataMessageChannel | null | undefined
+>(undefined);
+
+export const DataMessagesProvider: React.FC<React.PropsWithChildren<Props>> = ({
+  maxMessageSize,
+  maxMessagesPerSecond,
+  logSize,
+  retryPolicy,
+  chunkTimeoutMs,
+  children,
+}) => {
+  const meetingManager = useMeetingManager();
+  const audioVideo = useAudioVideo();
+  const logger = useLogger();
+  const [channel, setChannel] = useState<DataMessageChannel | null>(null);
+
+  useEffect(() => {
+    if (!audioVideo) {
+      return;
+    }
+
+    const localAttendeeId =
+      meetingManager.meetingSessionConfiguration?.credentials?.attendeeId || '';
+    const dataMessageChannel = new DataMessageChannel(
+      audioVideo,
+      localAttendeeId,
+      logger,
+      {
+        maxMessageSize,
+        maxMessagesPerSecond,
+        logSize,
+        retryPolicy,
+        chunkTimeoutMs,
+      }
+    );
+    setChannel(dataMessageChannel);
+
+    return () => {
+      dataMessageChannel.destroy();
+      setChannel(null);
+    };
+  }, [audioVideo]);
+
+  return (
+    <DataMessagesContext.Provider value={channel}>
+      {children}
+    </DataMessagesContext.Provider>
+  );
+};
+
+export function useDataMessages<T = unknown>(
+  topic: string | DataMessageTopic<T>
+): DataMessagesState<T> {
+  const channel = useContext(DataMessagesContext);
+
+  if (channel === undefined) {
+    throw new Error('useDataMessages must be used within DataMessagesProvider');
+  }
+
+  const logger = useLogger();
+  const {
+    name,
+    codec = jsonCodec as DataMessageCodec<T>,
+    lifetimeMs,
+  }: DataMessageTopic<T> = typeof topic === 'string' ? { name: topic } : topic;
+  const [entries, setEntries] = useState<DataMessageEntry[]>([]);
+  // Decode each entry once, as the log keeps the entries that did not change
+  const decodedItemsRef = useRef(
+    new WeakMap<DataMessageEntry, DataMessageItem<T> | null>()
+  );
+
+  useEffect(() => {
+    decodedItemsRef.current = new WeakMap();
+  }, [codec]);
+
+  useEffect(() => {
+    if (!channel) {
+      setEntries([]);
+      return;
+    }
+
+    setEntries(channel.getMessages(name));
+    channel.subscribeToMessages(name, setEntries);
+
+    return () => channel.unsubscribeFromMessages(name, setEntries);
+  }, [channel, name]);
+
+  const decode = useCallback(
+    (entry: DataMessageEntry): DataMessageItem<T> | null => {
+      const decodedItem = decodedItemsRef.current.get(entry);
+      if (decodedItem !== undefined) {
+        return decodedItem;
+      }
+
+      let item: DataMessageItem<T> | null = null;
+      try {
+        item = { ...entry, payload: codec.decode(entry.data) };
+      } catch (error) {
+        logger.warn(
+          `Failed to decode data message ${entry.messageId} on topic ${entry.topic}: ${error}`
+        );
+      }
+      decodedItemsRef.current.set(entry, item);
+
+      return item;
+    },
+    [codec, logger]
+  );
+
+  const messages = useMemo(
+    () =>
+      entries
+        .map(decode)
+        .filter((item): item is DataMessageItem<T> => item !== null),
+    [entries, decode]
+  );
+
+  const send = useCallback(
+    (payload: T): DataMessageItem<T> => {
+      if (!channel) {
+        throw new Error(
+          'Cannot send data messages before the meeting session starts'
+        );
+      }
+
+      const entry = channel.send(name, codec.encode(payload), lifetimeMs);
+      return { ...entry, payload };
+    },
+    [channel, name, codec, lifetimeMs]
+  );
+
+  const clearMessages = useCallback((): void => {
+    channel?.clearMessages(name);
+  }, [channel, name]);
+
+  return { messages, send, clearMessages };
+}
+
+export {
+  binaryCodec,
+  DataMessageCodec,
+  DataMessageChannelOptions,
+  DataMessageStatus,
+  jsonCodec,
+  MAX_DATA_MESSAGE_SIZE,
+};
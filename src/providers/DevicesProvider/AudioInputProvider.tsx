@@ -64,6 +64,18 @@ export const AudioInputProvider: React.FC<React.PropsWithChildren<Props>> = ({
     };
   }, []);
 
+  useEffect(() => {
+    if (!onDeviceReplacement) {
+      return;
+    }
+
+    meetingManager.subscribeToDeviceReplacement(onDeviceReplacement);
+
+    return (): void => {
+      meetingManager.unsubscribeFromDeviceReplacement(onDeviceReplacement);
+    };
+  }, [onDeviceReplacement]);
+
   useEffect(() => {
     let isMounted = true;
 
@@ -71,6 +83,12 @@ export const AudioInputProvider: React.FC<React.PropsWithChildren<Props>> = ({
       audioInputsChanged: async (newAudioInputs: MediaDeviceInfo[]) => {
         logger.info('AudioInputProvider - audio inputs updated');
 
+        if (meetingManager.getDeviceChangePolicy()) {
+          // The `MeetingManager` selects the next audio input based on its device change policy.
+          setAudioInputs(newAudioInputs);
+          return;
+        }
+
         if (
           meetingManager.getDeviceLabels() !== DeviceLabels.Audio &&
           meetingManager.getDeviceLabels() !== DeviceLabels.AudioAndVideo
@@ -106,7 +124,10 @@ export const AudioInputProvider: React.FC<React.PropsWithChildren<Props>> = ({
 
         const nextDevice = await replaceDevice(nextInput);
         try {
-          await meetingManager.startAudioInputDevice(nextDevice);
+          // The fallback device is not the user's choice, so the preferred device is selected again on the next join
+          await meetingManager.startAudioInputDevice(nextDevice, {
+            persist: false,
+          });
         } catch (e) {
           logger.error(
             `Failed to select audio input device on audioInputsChanged: ${e}`
@@ -1,8 +1,10 @@
 // Copyright Amazon.com, Inc. or its affiliates. All Rights Reserved.
 // SPDX-License-Identifier: Apache-2.0
 
+import { DataMessage } from 'amazon-chime-sdk-js';
 import React, {
   createContext,
+  useCallback,
   useContext,
   useEffect,
   useMemo,
@@ -10,26 +12,90 @@ import React, {
   useState,
 } from 'react';
 
+import { RosterType } from '../../types';
+import { useAudioVideo } from '../AudioVideoProvider';
 import { useMeetingManager } from '../MeetingProvider';
+import { AttendeeRole, getAttendeeRole } from '../ModerationProvider/state';
 import { useRemoteVideoTileState } from '../RemoteVideoTileProvider';
+import { useRosterState } from '../RosterProvider';
+import {
+  FeaturedTilePolicy,
+  FeaturedTileSelection,
+  getNextRoundRobinTileId,
+  isContentFeatured,
+  isSpotlightEvent,
+  selectFeaturedTile,
+  SpotlightEvent,
+} from './state';
 
-interface FeaturedTileState {
-  tileId: number | null;
+interface FeaturedTileState extends FeaturedTileSelection {
+  policy: FeaturedTilePolicy;
+  pinnedAttendeeId: string | null;
+  spotlightAttendeeId: string | null;
+  setPolicy: (policy: FeaturedTilePolicy) => void;
+  /** Features the attendee's tile for the local user, whatever the policy. */
+  pinTile: (attendeeId: string) => void;
+  unpinTile: () => void;
+  /** Whether the local attendee is a host, who can spotlight attendees. */
+  canSpotlight: boolean;
+  /** Features the attendee's tile over the pinned one for every attendee. Only hosts can spotlight attendees. */
+  spotlightTile: (attendeeId: string) => void;
+  clearSpotlight: () => void;
 }
 
-const TILE_TRANSITION_DELAY = 1500;
+interface Props {
+  /** The initial policy that selects the featured tile. Defaults to `FeaturedTilePolicy.ACTIVE_SPEAKER`. */
+  policy?: FeaturedTilePolicy;
+  /** How long a new active speaker has to keep speaking before their tile
+   * replaces the featured tile. Defaults to `1500`.
+   */
+  transitionDelayMs?: number;
+  /** How long each tile is featured with the `ROUND_ROBIN` policy. Defaults to `10000`. */
+  roundRobinIntervalMs?: number;
+  /** The data message topic of the spotlight. Defaults to `spotlight`. */
+  spotlightTopic?: string;
+}
 
 const FeaturedTileContext = createContext<FeaturedTileState | null>(null);
 
 export const FeaturedVideoTileProvider: React.FC<
-  React.PropsWithChildren<unknown>
-> = ({ children }) => {
+  React.PropsWithChildren<Props>
+> = ({
+  policy: initialPolicy = FeaturedTilePolicy.ACTIVE_SPEAKER,
+  transitionDelayMs = 1500,
+  roundRobinIntervalMs = 10000,
+  spotlightTopic = 'spotlight',
+  children,
+}) => {
   const meetingManager = useMeetingManager();
-  const { attendeeIdToTileId } = useRemoteVideoTileState();
+  const audioVideo = useAudioVideo();
+  const { roster } = useRosterState();
+  const { tiles, attendeeIdToTileId } = useRemoteVideoTileState();
   const activeTileRef = useRef<number | null>(null);
   const [activeTile, setActiveTile] = useState<number | null>(null);
   const timeout = useRef<number | null>(null);
   const pendingAttendee = useRef<string | null>(null);
+  const [policy, setPolicy] = useState(initialPolicy);
+  const [pinnedAttendeeId, setPinnedAttendeeId] = useState<string | null>(null);
+  const [spotlightAttendeeId, setSpotlightAttendeeId] = useState<string | null>(
+    null
+  );
+  const [roundRobinTile, setRoundRobinTile] = useState<number | null>(null);
+  const tilesRef = useRef(tiles);
+  tilesRef.current = tiles;
+  const rosterRef = useRef(roster);
+  rosterRef.current = roster;
+  const previousRosterRef = useRef<RosterType>({});
+
+  const localAttendeeId =
+    meetingManager.meetingSessionConfiguration?.credentials?.attendeeId || '';
+  const canSpotlight =
+    !!localAttendeeId &&
+    getAttendeeRole(roster[localAttendeeId]) === AttendeeRole.HOST;
+
+  useEffect(() => {
+    setPolicy(initialPolicy);
+  }, [initialPolicy]);
 
   useEffect(() => {
     const activeSpeakerCallback = (activeAttendees: string[]) => {
@@ -58,7 +124,7 @@ export const FeaturedVideoTileProvider: React.FC<
           timeout.current = window.setTimeout(() => {
             activeTileRef.current = null;
             setActiveTile(null);
-          }, TILE_TRANSITION_DELAY);
+          }, transitionDelayMs);
         }
 
         return;
@@ -77,7 +143,7 @@ export const FeaturedVideoTileProvider: React.FC<
         timeout.current = window.setTimeout(() => {
           activeTileRef.current = tileId;
           setActiveTile(tileId);
-        }, TILE_TRANSITION_DELAY);
+        }, transitionDelayMs);
       }
     };
 
@@ -85,13 +151,145 @@ export const FeaturedVideoTileProvider: React.FC<
 
     return () =>
       meetingManager.unsubscribeFromActiveSpeaker(activeSpeakerCallback);
-  }, [attendeeIdToTileId]);
+  }, [attendeeIdToTileId, transitionDelayMs]);
+
+  useEffect(() => {
+    if (policy !== FeaturedTilePolicy.ROUND_ROBIN) {
+      return;
+    }
+
+    const interval = window.setInterval(
+      () =>
+        setRoundRobinTile((currentTile) =>
+          getNextRoundRobinTileId(tilesRef.current, currentTile)
+        ),
+      roundRobinIntervalMs
+    );
+
+    return () => clearInterval(interval);
+  }, [policy, roundRobinIntervalMs]);
+
+  useEffect(() => {
+    if (!audioVideo) {
+      return;
+    }
+
+    const receiveSpotlight = (dataMessage: DataMessage): void => {
+      // Check the role of the sender on the roster of the local attendee
+      const senderRole = getAttendeeRole(
+        rosterRef.current[dataMessage.senderAttendeeId]
+      );
+      if (dataMessage.throttled || senderRole !== AttendeeRole.HOST) {
+        return;
+      }
+
+      let payload: unknown;
+      try {
+        payload = dataMessage.json();
+      } catch (error) {
+        return;
+      }
+
+      if (isSpotlightEvent(payload)) {
+        setSpotlightAttendeeId(payload.attendeeId);
+      }
+    };
+
+    audioVideo.realtimeSubscribeToReceiveDataMessage(
+      spotlightTopic,
+      receiveSpotlight
+    );
+
+    return () => {
+      audioVideo.realtimeUnsubscribeFromReceiveDataMessage(spotlightTopic);
+      previousRosterRef.current = {};
+      setSpotlightAttendeeId(null);
+    };
+  }, [audioVideo, spotlightTopic]);
+
+  const sendSpotlight = useCallback(
+    (attendeeId: string | null): void => {
+      if (!audioVideo || !canSpotlight) {
+        throw new Error('Only hosts can spotlight attendees');
+      }
+
+      const event: SpotlightEvent = { attendeeId };
+      audioVideo.realtimeSendDataMessage(spotlightTopic, event);
+      setSpotlightAttendeeId(attendeeId);
+    },
+    [audioVideo, canSpotlight, spotlightTopic]
+  );
+
+  useEffect(() => {
+    const previousRoster = previousRosterRef.current;
+    previousRosterRef.current = roster;
+
+    // Announce the spotlight again to the attendees who just joined
+    const hasNewAttendees = Object.keys(roster).some(
+      (attendeeId) => !previousRoster[attendeeId]
+    );
+    if (spotlightAttendeeId && hasNewAttendees && canSpotlight) {
+      try {
+        sendSpotlight(spotlightAttendeeId);
+      } catch (error) {
+        // The spotlight is announced again when the next attendee joins
+      }
+    }
+  }, [roster]);
+
+  const pinTile = useCallback(
+    (attendeeId: string): void => setPinnedAttendeeId(attendeeId),
+    []
+  );
+
+  const unpinTile = useCallback((): void => setPinnedAttendeeId(null), []);
+
+  const spotlightTile = useCallback(
+    (attendeeId: string): void => sendSpotlight(attendeeId),
+    [sendSpotlight]
+  );
+
+  const clearSpotlight = useCallback(
+    (): void => sendSpotlight(null),
+    [sendSpotlight]
+  );
+
+  const { tileId, pinned } = selectFeaturedTile({
+    policy,
+    tiles,
+    attendeeIdToTileId,
+    pinnedAttendeeId,
+    spotlightAttendeeId,
+    activeSpeakerTileId: activeTile,
+    roundRobinTileId: roundRobinTile,
+  });
 
   const value = useMemo(
     () => ({
-      tileId: activeTile,
+      tileId,
+      pinned,
+      policy,
+      pinnedAttendeeId,
+      spotlightAttendeeId,
+      setPolicy,
+      pinTile,
+      unpinTile,
+      canSpotlight,
+      spotlightTile,
+      clearSpotlight,
     }),
-    [activeTile]
+    [
+      tileId,
+      pinned,
+      policy,
+      pinnedAttendeeId,
+      spotlightAttendeeId,
+      pinTile,
+      unpinTile,
+      canSpotlight,
+      spotlightTile,
+      clearSpotlight,
+    ]
   );
 
   return (
@@ -112,3 +310,5 @@ export function useFeaturedTileState(): FeaturedTileState {
 
   return state;
 }
+
+export { FeaturedTilePolicy, isContentFeatured };
@@ -0,0 +1,105 @@
+// Copyright Amazon.com, Inc. or its affiliates. All Rights Reserved.
+// SPDX-License-Identifier: Apache-2.0
+
+export enum FeaturedTilePolicy {
+  /** Features the most active speaker, and the content share while there is one. */
+  ACTIVE_SPEAKER = 'ACTIVE_SPEAKER',
+  /** Features only the pinned or spotlighted attendee. */
+  PINNED = 'PINNED',
+  /** Features the content share over every tile, including the pinned one. */
+  CONTENT_FIRST = 'CONTENT_FIRST',
+  /** Features every remote tile in turn. */
+  ROUND_ROBIN = 'ROUND_ROBIN',
+}
+
+export type FeaturedTileSelection = {
+  tileId: number | null;
+  /** Whether the tile is featured because its attendee is pinned or spotlighted. */
+  pinned: boolean;
+};
+
+/** Sent by the host to spotlight an attendee for everyone, or to clear the spotlight with `null`. */
+export type SpotlightEvent = { attendeeId: string | null };
+
+type FeaturedTileSelectionOptions = {
+  policy: FeaturedTilePolicy;
+  tiles: number[];
+  attendeeIdToTileId: { [attendeeId: string]: number };
+  pinnedAttendeeId: string | null;
+  spotlightAttendeeId: string | null;
+  activeSpeakerTileId: number | null;
+  roundRobinTileId: number | null;
+};
+
+/**
+ * Selects the tile of the spotlighted attendee, then the tile of the pinned attendee,
+ * and otherwise the tile chosen by the policy.
+ */
+export function selectFeaturedTile({
+  policy,
+  tiles,
+  attendeeIdToTileId,
+  pinnedAttendeeId,
+  spotlightAttendeeId,
+  activeSpeakerTileId,
+  roundRobinTileId,
+}: FeaturedTileSelectionOptions): FeaturedTileSelection {
+  const pinnedTileId =
+    (spotlightAttendeeId && attendeeIdToTileId[spotlightAttendeeId]) ||
+    (pinnedAttendeeId && attendeeIdToTileId[pinnedAttendeeId]);
+  if (pinnedTileId) {
+    return { tileId: pinnedTileId, pinned: true };
+  }
+
+  switch (policy) {
+    case FeaturedTilePolicy.PINNED:
+      return { tileId: null, pinned: false };
+    case FeaturedTilePolicy.ROUND_ROBIN:
+      return {
+        tileId:
+          roundRobinTileId && tiles.includes(roundRobinTileId)
+            ? roundRobinTileId
+            : tiles[0] ?? null,
+        pinned: false,
+      };
+    default:
+      return { tileId: activeSpeakerTileId, pinned: false };
+  }
+}
+
+export function getNextRoundRobinTileId(
+  tiles: number[],
+  currentTileId: number | null
+): number | null {
+  if (!tiles.length) {
+    return null;
+  }
+
+  const index = currentTileId === null ? -1 : tiles.indexOf(currentTileId);
+  return tiles[(index + 1) % tiles.length];
+}
+
+/**
+ * The content share takes the featured area unless a pinned or spotlighted tile is featured,
+ * which only the `CONTENT_FIRST` policy overrides.
+ */
+export function isContentFeatured(
+  policy: FeaturedTilePolicy,
+  contentTileId: number | null,
+  pinned: boolean
+): boolean {
+  return (
+    !!contentTileId && (!pinned || policy === FeaturedTilePolicy.CONTENT_FIRST)
+  );
+}
+
+/**
+ * Checks the payload received from other attendees before it is applied.
+ */
+export function isSpotlightEvent(payload: unknown): payload is SpotlightEvent {
+  const event = payload as SpotlightEvent;
+  return (
+    !!event &&
+    (event.attendeeId === null || typeof event.attendeeId === 'string')
+  );
+}
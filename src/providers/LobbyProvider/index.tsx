@@ -0,0 +1,189 @@
+// Copyright Amazon.com, Inc. or its affiliates. All Rights Reserved.
+// SPDX-License-Identifier: Apache-2.0
+
+import React, {
+  createContext,
+  useCallback,
+  useContext,
+  useEffect,
+  useMemo,
+  useState,
+} from 'react';
+
+import useLocalAudioInputActivity from '../../hooks/sdk/useLocalAudioInputActivity';
+import useMeetingStatus from '../../hooks/sdk/useMeetingStatus';
+import { DeviceLabelTriggerStatus, MeetingStatus } from '../../types';
+import { useAudioInputs, useVideoInputs } from '../DevicesProvider';
+import { useLocalVideo } from '../LocalVideoProvider';
+import { useLogger } from '../LoggerProvider';
+import { useMeetingManager } from '../MeetingProvider';
+import {
+  getLobbyState,
+  LobbyFailureReason,
+  LobbyState,
+  LobbyStep,
+} from './state';
+
+interface Props {
+  /** Whether a camera is required to join the meeting. Defaults to `false`. */
+  requireCamera?: boolean;
+  /** Whether to skip the microphone level check. Defaults to `false`. */
+  skipMicCheck?: boolean;
+  /** Whether to skip the camera preview when a camera is selected. Defaults to `false`. */
+  skipCameraPreview?: boolean;
+  /** The microphone activity level, between 0 and 1, that verifies the microphone. Defaults to `0.3`. */
+  micLevelThreshold?: number;
+}
+
+export interface LobbyContextType extends LobbyState {
+  deviceLabelTriggerStatus: DeviceLabelTriggerStatus;
+  micLevelVerified: boolean;
+  confirmMicLevel: () => void;
+  startMeeting: () => Promise<void>;
+}
+
+const LobbyContext = createContext<LobbyContextType | null>(null);
+
+const MicLevelMonitor: React.FC<{
+  threshold: number;
+  onVerified: () => void;
+}> = ({ threshold, onVerified }) => {
+  const callback = useCallback(
+    (decimal: number) => {
+      if (decimal >= threshold) {
+        onVerified();
+      }
+    },
+    [threshold, onVerified]
+  );
+
+  useLocalAudioInputActivity(callback);
+
+  return null;
+};
+
+export const LobbyProvider: React.FC<React.PropsWithChildren<Props>> = ({
+  requireCamera = false,
+  skipMicCheck = false,
+  skipCameraPreview = false,
+  micLevelThreshold = 0.3,
+  children,
+}) => {
+  const logger = useLogger();
+  const meetingManager = useMeetingManager();
+  const meetingStatus = useMeetingStatus();
+  const audioInputs = useAudioInputs();
+  const videoInputs = useVideoInputs();
+  const { isVideoEnabled } = useLocalVideo();
+  const [deviceLabelTriggerStatus, setDeviceLabelTriggerStatus] = useState(
+    () => meetingManager.deviceLabelTriggerStatus
+  );
+  const [micLevelVerified, setMicLevelVerified] = useState(false);
+  const [cameraPreviewStarted, setCameraPreviewStarted] = useState(false);
+  const [joinFailed, setJoinFailed] = useState(false);
+
+  useEffect(() => {
+    meetingManager.subscribeToDeviceLabelTriggerStatus(
+      setDeviceLabelTriggerStatus
+    );
+
+    return (): void => {
+      meetingManager.unsubscribeFromDeviceLabelTriggerStatus(
+        setDeviceLabelTriggerStatus
+      );
+    };
+  }, [meetingManager]);
+
+  // The preview is stopped when the `PreviewVideo` unmounts, so remember that it started once.
+  useEffect(() => {
+    if (isVideoEnabled) {
+      setCameraPreviewStarted(true);
+    }
+  }, [isVideoEnabled]);
+
+  useEffect(() => {
+    if (
+      meetingStatus === MeetingStatus.Failed ||
+      meetingStatus === MeetingStatus.TerminalFailure
+    ) {
+      setJoinFailed(true);
+    }
+  }, [meetingStatus]);
+
+  const { step, failureReason } = getLobbyState(
+    {
+      deviceLabelTriggerStatus,
+      audioInputs: audioInputs.devices,
+      videoInputs: videoInputs.devices,
+      hasSelectedAudioInput: !!audioInputs.selectedDevice,
+      hasSelectedVideoInput: !!videoInputs.selectedDevice,
+      micLevelVerified,
+      cameraPreviewStarted,
+      joined: meetingStatus === MeetingStatus.Succeeded,
+      joinFailed,
+    },
+    { requireCamera, skipMicCheck, skipCameraPreview }
+  );
+
+  const confirmMicLevel = useCallback((): void => {
+    setMicLevelVerified(true);
+  }, []);
+
+  const startMeeting = useCallback(async (): Promise<void> => {
+    if (step !== LobbyStep.READY) {
+      logger.warn(`LobbyProvider cannot start the meeting at step ${step}`);
+      return;
+    }
+
+    setJoinFailed(false);
+    try {
+      await meetingManager.start();
+    } catch (error) {
+      logger.error(`LobbyProvider failed to start the meeting: ${error}`);
+      setJoinFailed(true);
+    }
+  }, [step, meetingManager, logger]);
+
+  const value = useMemo(
+    () => ({
+      step,
+      failureReason,
+      deviceLabelTriggerStatus,
+      micLevelVerified,
+      confirmMicLevel,
+      startMeeting,
+    }),
+    [
+      step,
+      failureReason,
+      deviceLabelTriggerStatus,
+      micLevelVerified,
+      confirmMicLevel,
+      startMeeting,
+    ]
+  );
+
+  return (
+    <LobbyContext.Provider value={value}>
+      {step === LobbyStep.MIC_CHECK && (
+        <MicLevelMonitor
+          threshold={micLevelThreshold}
+          onVerified={confirmMicLevel}
+        />
+      )}
+      {children}
+    </LobbyContext.Provider>
+  );
+};
+
+export const useLobby = (): LobbyContextType => {
+  const context = useContext(LobbyContext);
+
+  if (!context) {
+    throw new Error('useLobby must be used within LobbyProvider');
+  }
+
+  return context;
+};
+
+export { LobbyFailureReason, LobbyStep };
@@ -0,0 +1,118 @@
+// Copyright Amazon.com, Inc. or its affiliates. All Rights Reserved.
+// SPDX-License-Identifier: Apache-2.0
+
+import { DeviceLabelTriggerStatus, DeviceType } from '../../types';
+
+export enum LobbyStep {
+  PERMISSIONS = 'PERMISSIONS',
+  DEVICE_SELECTION = 'DEVICE_SELECTION',
+  MIC_CHECK = 'MIC_CHECK',
+  CAMERA_PREVIEW = 'CAMERA_PREVIEW',
+  READY = 'READY',
+  JOINED = 'JOINED',
+}
+
+export enum LobbyFailureReason {
+  PERMISSION_DENIED = 'PERMISSION_DENIED',
+  NO_MICROPHONE = 'NO_MICROPHONE',
+  NO_CAMERA = 'NO_CAMERA',
+  JOIN_FAILED = 'JOIN_FAILED',
+}
+
+export type LobbyChecks = {
+  deviceLabelTriggerStatus: DeviceLabelTriggerStatus;
+  audioInputs: DeviceType[];
+  videoInputs: DeviceType[];
+  hasSelectedAudioInput: boolean;
+  hasSelectedVideoInput: boolean;
+  micLevelVerified: boolean;
+  cameraPreviewStarted: boolean;
+  joined: boolean;
+  joinFailed: boolean;
+};
+
+export type LobbyOptions = {
+  requireCamera: boolean;
+  skipMicCheck: boolean;
+  skipCameraPreview: boolean;
+};
+
+export type LobbyState = {
+  step: LobbyStep;
+  failureReason: LobbyFailureReason | null;
+};
+
+const hasDeviceLabels = (devices: DeviceType[]): boolean =>
+  devices.some((device) => !!device.label);
+
+/**
+ * Returns the first lobby step whose requirement is not met yet,
+ * along with the reason the lobby cannot move past it, if any.
+ */
+export function getLobbyState(
+  checks: LobbyChecks,
+  { requireCamera, skipMicCheck, skipCameraPreview }: LobbyOptions
+): LobbyState {
+  const {
+    deviceLabelTriggerStatus,
+    audioInputs,
+    videoInputs,
+    hasSelectedAudioInput,
+    hasSelectedVideoInput,
+    micLevelVerified,
+    cameraPreviewStarted,
+    joined,
+    joinFailed,
+  } = checks;
+
+  if (joined) {
+    return { step: LobbyStep.JOINED, failureReason: null };
+  }
+
+  if (deviceLabelTriggerStatus === DeviceLabelTriggerStatus.DENIED) {
+    return {
+      step: LobbyStep.PERMISSIONS,
+      failureReason: LobbyFailureReason.PERMISSION_DENIED,
+    };
+  }
+
+  // The device label trigger is skipped when the browser already exposes device labels.
+  const permissionsGranted =
+    deviceLabelTriggerStatus === DeviceLabelTriggerStatus.GRANTED ||
+    hasDeviceLabels(audioInputs) ||
+    hasDeviceLabels(videoInputs);
+  if (!permissionsGranted) {
+    return { step: LobbyStep.PERMISSIONS, failureReason: null };
+  }
+
+  if (!audioInputs.length) {
+    return {
+      step: LobbyStep.DEVICE_SELECTION,
+      failureReason: LobbyFailureReason.NO_MICROPHONE,
+    };
+  }
+
+  if (requireCamera && !videoInputs.length) {
+    return {
+      step: LobbyStep.DEVICE_SELECTION,
+      failureReason: LobbyFailureReason.NO_CAMERA,
+    };
+  }
+
+  if (!hasSelectedAudioInput || (requireCamera && !hasSelectedVideoInput)) {
+    return { step: LobbyStep.DEVICE_SELECTION, failureReason: null };
+  }
+
+  if (!skipMicCheck && !micLevelVerified) {
+    return { step: LobbyStep.MIC_CHECK, failureReason: null };
+  }
+
+  if (!skipCameraPreview && hasSelectedVideoInput && !cameraPreviewStarted) {
+    return { step: LobbyStep.CAMERA_PREVIEW, failureReason: null };
+  }
+
+  return {
+    step: LobbyStep.READY,
+    failureReason: joinFailed ? LobbyFailureReason.JOIN_FAILED : null,
+  };
+}
@@ -0,0 +1,111 @@
+// Copyright Amazon.com, Inc. or its affiliates. All Rights Reserved.
+// SPDX-License-Identifier: Apache-2.0
+
+import { DefaultDeviceController } from 'amazon-chime-sdk-js';
+
+import { getOutputLevel } from './state';
+
+export type AudioOutputLevelObserver = (level: number) => void;
+
+/**
+ * Measures the level of the meeting audio bound to the audio element with a Web Audio analyser,
+ * only while there are observers. The level is measured before the volume is applied.
+ */
+export class AudioOutputLevelMeter {
+  private getAudioElement: () => HTMLAudioElement | null;
+  private observers = new Set<AudioOutputLevelObserver>();
+  private frame: number | null = null;
+  private frameIndex = 0;
+  private stream: MediaStream | null = null;
+  private source: MediaStreamAudioSourceNode | null = null;
+  private analyser: AnalyserNode | null = null;
+  private data = new Uint8Array(0);
+  private level = 0;
+
+  constructor(getAudioElement: () => HTMLAudioElement | null) {
+    this.getAudioElement = getAudioElement;
+  }
+
+  subscribe = (observer: AudioOutputLevelObserver): void => {
+    this.observers.add(observer);
+    observer(this.level);
+    if (this.frame === null) {
+      this.frame = requestAnimationFrame(this.measure);
+    }
+  };
+
+  unsubscribe = (observer: AudioOutputLevelObserver): void => {
+    this.observers.delete(observer);
+    if (!this.observers.size) {
+      this.stop();
+    }
+  };
+
+  destroy = (): void => {
+    this.observers.clear();
+    this.stop();
+  };
+
+  private measure = (): void => {
+    // The audio element is bound to a new stream when the meeting audio is turned on again
+    const srcObject = this.getAudioElement()?.srcObject;
+    const stream =
+      typeof MediaStream !== 'undefined' && srcObject instanceof MediaStream
+        ? srcObject
+        : null;
+    if (stream !== this.stream) {
+      this.connect(stream);
+    }
+
+    if (this.frameIndex === 0) {
+      let level = 0;
+      if (this.analyser) {
+        this.analyser.getByteTimeDomainData(this.data);
+        level = getOutputLevel(this.data);
+      }
+
+      if (level !== this.level) {
+        this.level = level;
+        this.observers.forEach((observer) => observer(level));
+      }
+    }
+
+    this.frameIndex = (this.frameIndex + 1) % 2;
+    this.frame = requestAnimationFrame(this.measure);
+  };
+
+  private connect(stream: MediaStream | null): void {
+    this.disconnect();
+    this.stream = stream;
+    if (!stream || !stream.getAudioTracks().length) {
+      return;
+    }
+
+    try {
+      const audioContext = DefaultDeviceController.getAudioContext();
+      this.source = audioContext.createMediaStreamSource(stream);
+      this.analyser = audioContext.createAnalyser();
+      this.analyser.fftSize = 1024;
+      this.data = new Uint8Array(this.analyser.fftSize);
+      this.source.connect(this.analyser);
+    } catch (error) {
+      this.disconnect();
+    }
+  }
+
+  private disconnect(): void {
+    this.source?.disconnect();
+    this.source = null;
+    this.analyser = null;
+    this.stream = null;
+  }
+
+  private stop(): void {
+    if (this.frame !== null) {
+      cancelAnimationFrame(this.frame);
+      this.frame = null;
+    }
+    this.disconnect();
+    this.level = 0;
+  }
+}
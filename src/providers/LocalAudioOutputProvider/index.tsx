@@ -14,16 +14,63 @@ import React, {
 import { LocalAudioOutputContextType } from '../../types';
 import { useAudioVideo } from '../AudioVideoProvider';
 import { useLogger } from '../LoggerProvider';
+import {
+  AudioOutputLevelMeter,
+  AudioOutputLevelObserver,
+} from './AudioOutputLevelMeter';
+import {
+  AUDIO_OUTPUT_VOLUME_STORAGE_KEY,
+  AudioOutputVolumeSettings,
+  clampVolume,
+  DEFAULT_AUDIO_OUTPUT_VOLUME,
+  getEffectiveVolume,
+  loadAudioOutputVolume,
+  saveAudioOutputVolume,
+} from './state';
+
+export interface AudioOutputVolumeState {
+  /** The volume of the meeting audio, from 0 to 1. */
+  volume: number;
+  muted: boolean;
+  /** Whether the meeting audio is lowered while the local attendee plays another sound. */
+  ducked: boolean;
+  setVolume: (volume: number) => void;
+  setMuted: (muted: boolean) => void;
+  toggleMute: () => void;
+  /** Lowers the meeting audio until the returned function is called. */
+  startDucking: () => () => void;
+  /** Calls the observer with the level of the arriving meeting audio, from 0 to 1, before the volume is applied. */
+  subscribeToOutputLevel: (observer: AudioOutputLevelObserver) => void;
+  unsubscribeFromOutputLevel: (observer: AudioOutputLevelObserver) => void;
+}
+
+interface Props {
+  /** Whether to store the volume and mute in `localStorage`. Defaults to `true`. */
+  persistVolume?: boolean;
+  /** The part of the volume kept while the meeting audio is ducked, from 0 to 1. Defaults to `0.2`. */
+  duckingRatio?: number;
+}
 
 const Context = createContext<LocalAudioOutputContextType | null>(null);
+const VolumeContext = createContext<AudioOutputVolumeState | null>(null);
 
 export const LocalAudioOutputProvider: React.FC<
-  React.PropsWithChildren<unknown>
-> = ({ children }) => {
+  React.PropsWithChildren<Props>
+> = ({ persistVolume = true, duckingRatio = 0.2, children }) => {
   const logger = useLogger();
   const audioVideo = useAudioVideo();
   const [isAudioOn, setIsAudioOn] = useState(true);
   const audioRef = useRef<HTMLAudioElement>(null);
+  const [volumeSettings, setVolumeSettings] =
+    useState<AudioOutputVolumeSettings>(() =>
+      persistVolume
+        ? loadAudioOutputVolume(AUDIO_OUTPUT_VOLUME_STORAGE_KEY)
+        : DEFAULT_AUDIO_OUTPUT_VOLUME
+    );
+  const [duckingCount, setDuckingCount] = useState(0);
+  const [levelMeter] = useState(
+    () => new AudioOutputLevelMeter(() => audioRef.current)
+  );
 
   useEffect(() => {
     if (!audioVideo) {
@@ -63,15 +110,95 @@ export const LocalAudioOutputProvider: React.FC<
     }
   }, [audioRef, audioVideo, isAudioOn]);
 
+  const { volume, muted } = volumeSettings;
+  const ducked = duckingCount > 0;
+
+  useEffect(() => {
+    if (!audioRef.current) {
+      return;
+    }
+
+    audioRef.current.volume = getEffectiveVolume(volume, ducked, duckingRatio);
+    audioRef.current.muted = muted;
+  }, [volume, muted, ducked, duckingRatio]);
+
+  useEffect(() => () => levelMeter.destroy(), [levelMeter]);
+
+  const updateVolumeSettings = useCallback(
+    (settings: Partial<AudioOutputVolumeSettings>): void =>
+      setVolumeSettings((current) => {
+        const nextSettings = { ...current, ...settings };
+        if (persistVolume) {
+          saveAudioOutputVolume(AUDIO_OUTPUT_VOLUME_STORAGE_KEY, nextSettings);
+        }
+        return nextSettings;
+      }),
+    [persistVolume]
+  );
+
+  const setVolume = useCallback(
+    (nextVolume: number): void =>
+      updateVolumeSettings({ volume: clampVolume(nextVolume) }),
+    [updateVolumeSettings]
+  );
+
+  const setMuted = useCallback(
+    (nextMuted: boolean): void => updateVolumeSettings({ muted: nextMuted }),
+    [updateVolumeSettings]
+  );
+
+  const toggleMute = useCallback(
+    (): void => setMuted(!muted),
+    [setMuted, muted]
+  );
+
+  const startDucking = useCallback((): (() => void) => {
+    let released = false;
+    setDuckingCount((count) => count + 1);
+
+    return (): void => {
+      if (!released) {
+        released = true;
+        setDuckingCount((count) => count - 1);
+      }
+    };
+  }, []);
+
   const value = useMemo(
     () => ({ isAudioOn, toggleAudio }),
     [isAudioOn, toggleAudio]
   );
 
+  const volumeValue = useMemo(
+    () => ({
+      volume,
+      muted,
+      ducked,
+      setVolume,
+      setMuted,
+      toggleMute,
+      startDucking,
+      subscribeToOutputLevel: levelMeter.subscribe,
+      unsubscribeFromOutputLevel: levelMeter.unsubscribe,
+    }),
+    [
+      volume,
+      muted,
+      ducked,
+      setVolume,
+      setMuted,
+      toggleMute,
+      startDucking,
+      levelMeter,
+    ]
+  );
+
   return (
     <Context.Provider value={value}>
-      {children}
-      <audio ref={audioRef} style={{ display: 'none' }} />
+      <VolumeContext.Provider value={volumeValue}>
+        {children}
+        <audio ref={audioRef} style={{ display: 'none' }} />
+      </VolumeContext.Provider>
     </Context.Provider>
   );
 };
@@ -85,3 +212,15 @@ export const useLocalAudioOutput = (): LocalAudioOutputContextType => {
   }
   return context;
 };
+
+export const useAudioOutputVolume = (): AudioOutputVolumeState => {
+  const context = useContext(VolumeContext);
+  if (!context) {
+    throw new Error(
+      'useAudioOutputVolume must be used within LocalAudioOutputProvider'
+    );
+  }
+  return context;
+};
+
+export { AudioOutputLevelObserver };
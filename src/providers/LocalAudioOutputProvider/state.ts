@@ -0,0 +1,75 @@
+// Copyright Amazon.com, Inc. or its affiliates. All Rights Reserved.
+// SPDX-License-Identifier: Apache-2.0
+
+export type AudioOutputVolumeSettings = {
+  /** From 0 to 1. */
+  volume: number;
+  muted: boolean;
+};
+
+export const DEFAULT_AUDIO_OUTPUT_VOLUME: AudioOutputVolumeSettings = {
+  volume: 1,
+  muted: false,
+};
+
+export const AUDIO_OUTPUT_VOLUME_STORAGE_KEY =
+  'amazon-chime-sdk-component-library-react.audio-output-volume';
+
+export const clampVolume = (volume: number): number =>
+  isFinite(volume) ? Math.min(1, Math.max(0, volume)) : 1;
+
+export function loadAudioOutputVolume(
+  storageKey: string
+): AudioOutputVolumeSettings {
+  try {
+    const value = window.localStorage.getItem(storageKey);
+    if (!value) {
+      return DEFAULT_AUDIO_OUTPUT_VOLUME;
+    }
+
+    const { volume, muted } = JSON.parse(value);
+    return {
+      volume: typeof volume === 'number' ? clampVolume(volume) : 1,
+      muted: muted === true,
+    };
+  } catch (error) {
+    return DEFAULT_AUDIO_OUTPUT_VOLUME;
+  }
+}
+
+export function saveAudioOutputVolume(
+  storageKey: string,
+  settings: AudioOutputVolumeSettings
+): void {
+  try {
+    window.localStorage.setItem(storageKey, JSON.stringify(settings));
+  } catch (error) {
+    console.warn('LocalAudioOutputProvider failed to write to localStorage');
+  }
+}
+
+/**
+ * The volume of the meeting audio element, scaled by the ducking ratio
+ * while the local attendee plays another sound.
+ */
+export function getEffectiveVolume(
+  volume: number,
+  ducked: boolean,
+  duckingRatio: number
+): number {
+  return ducked ? volume * clampVolume(duckingRatio) : volume;
+}
+
+/**
+ * Converts the time domain data of an analyser node to a level from 0 to 1,
+ * on the same logarithmic scale as `useLocalAudioInputActivity`.
+ */
+export function getOutputLevel(data: Uint8Array): number {
+  const lowest = 0.01;
+  let max = lowest;
+  data.forEach((value) => {
+    max = Math.max(max, (value - 128) / 128);
+  });
+
+  return 1 - Math.log(max) / Math.log(lowest);
+}
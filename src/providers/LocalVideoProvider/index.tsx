@@ -82,7 +82,9 @@ export const LocalVideoProvider: React.FC<React.PropsWithChildren<unknown>> = ({
         await audioVideo?.stopVideoInput();
         setIsVideoEnabled(false);
       } else if (!hasReachedVideoLimit) {
-        await meetingManager.startVideoInputDevice(selectedDevice);
+        await meetingManager.startVideoInputDevice(selectedDevice, {
+          persist: false,
+        });
         audioVideo?.startLocalVideoTile();
         setIsVideoEnabled(true);
       } else {
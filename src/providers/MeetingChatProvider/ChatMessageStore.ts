@@ -0,0 +1,88 @@
+// Copyright Amazon.com, Inc. or its affiliates. All Rights Reserved.
+// SPDX-License-Identifier: Apache-2.0
+
+import { DataMessageStatus } from '../DataMessagesProvider/DataMessageChannel';
+import { ChatMessage } from './state';
+
+export type ChatHistory = {
+  messages: ChatMessage[];
+  lastReadTimestamp?: string;
+};
+
+export interface ChatMessageStore {
+  get(meetingId: string): ChatHistory | undefined;
+  set(meetingId: string, history: ChatHistory): void;
+  clear(meetingId: string): void;
+}
+
+export class InMemoryChatMessageStore implements ChatMessageStore {
+  private histories = new Map<string, ChatHistory>();
+
+  get(meetingId: string): ChatHistory | undefined {
+    return this.histories.get(meetingId);
+  }
+
+  set(meetingId: string, history: ChatHistory): void {
+    this.histories.set(meetingId, history);
+  }
+
+  clear(meetingId: string): void {
+    this.histories.delete(meetingId);
+  }
+}
+
+export const CHAT_HISTORY_STORAGE_KEY_PREFIX =
+  'amazon-chime-sdk-component-library-react.chat.';
+
+export class LocalStorageChatMessageStore implements ChatMessageStore {
+  private storageKeyPrefix: string;
+
+  constructor(storageKeyPrefix: string = CHAT_HISTORY_STORAGE_KEY_PREFIX) {
+    this.storageKeyPrefix = storageKeyPrefix;
+  }
+
+  get(meetingId: string): ChatHistory | undefined {
+    try {
+      const value = window.localStorage.getItem(this.getKey(meetingId));
+      if (!value) {
+        return undefined;
+      }
+
+      // The messages that were still sending when the page was closed will never be sent
+      const history: ChatHistory = JSON.parse(value);
+      return {
+        ...history,
+        messages: history.messages.map((message) =>
+          message.local && message.status === DataMessageStatus.QUEUED
+            ? { ...message, status: DataMessageStatus.FAILED }
+            : message
+        ),
+      };
+    } catch (error) {
+      return undefined;
+    }
+  }
+
+  set(meetingId: string, history: ChatHistory): void {
+    try {
+      window.localStorage.setItem(
+        this.getKey(meetingId),
+        JSON.stringify(history)
+      );
+    } catch (error) {
+      console.warn('ChatMessageStore failed to write to localStorage');
+    }
+  }
+
+  clear(meetingId: string): void {
+    try {
+      window.localStorage.removeItem(this.getKey(meetingId));
+    } catch (error) {
+      console.warn('ChatMessageStore failed to clear localStorage');
+    }
+  }
+
+  private getKey(meetingId: string): string {
+    return `${this.storageKeyPrefix}${meetingId}`;
+  }
+}
@@ -0,0 +1,307 @@
+// Copyright Amazon.com, Inc. or its affiliates. All Rights Reserved.
+// SPDX-License-Identifier: Apache-2.0
+
+import React, {
+  createContext,
+  useCallback,
+  useContext,
+  useEffect,
+  useMemo,
+  useRef,
+  useState,
+} from 'react';
+
+import { useAudioVideo } from '../AudioVideoProvider';
+import { DataMessageStatus, useDataMessages } from '../DataMessagesProvider';
+import { useMeetingManager } from '../MeetingProvider';
+import { useRosterState } from '../RosterProvider';
+import {
+  ChatHistory,
+  ChatMessageStore,
+  InMemoryChatMessageStore,
+  LocalStorageChatMessageStore,
+} from './ChatMessageStore';
+import {
+  applyChatEvent,
+  ChatAttachment,
+  ChatEvent,
+  ChatMessage,
+  getUnreadCount,
+  isChatEvent,
+  resolveSenderNames,
+  setChatMessageStatus,
+} from './state';
+
+export interface MeetingChatState {
+  /** The messages of the meeting, oldest first. */
+  messages: ChatMessage[];
+  /** The number of messages from other attendees received since `markAsRead` was last called. */
+  unreadCount: number;
+  /** Sends a message. Throws before the meeting session starts. */
+  sendMessage: (content: string, attachment?: ChatAttachment) => void;
+  /** Edits a message sent by the local attendee. */
+  editMessage: (messageId: string, content: string) => void;
+  /** Redacts a message sent by the local attendee for every attendee. */
+  redactMessage: (messageId: string) => void;
+  markAsRead: () => void;
+  /** Removes the messages for the local attendee only, including the stored messages. */
+  clearMessages: () => void;
+}
+
+interface Props {
+  /** The data message topic of the chat. Defaults to `chat`. */
+  topic?: string;
+  /** Stores the messages of each meeting. Defaults to a `LocalStorageChatMessageStore`. */
+  store?: ChatMessageStore;
+  /** The maximum number of messages kept per meeting. Defaults to `500`. */
+  maxMessages?: number;
+}
+
+const MeetingChatContext = createContext<MeetingChatState | null>(null);
+
+export const MeetingChatProvider: React.FC<React.PropsWithChildren<Props>> = ({
+  topic = 'chat',
+  store: storeProp,
+  maxMessages = 500,
+  children,
+}) => {
+  const meetingManager = useMeetingManager();
+  const audioVideo = useAudioVideo();
+  const { roster } = useRosterState();
+  const {
+    messages: items,
+    send,
+    clearMessages: clearItems,
+  } = useDataMessages<ChatEvent>(topic);
+  const [store] = useState(
+    () => storeProp || new LocalStorageChatMessageStore()
+  );
+  const [history, setHistory] = useState<ChatHistory>({ messages: [] });
+  const historyRef = useRef(history);
+  const meetingIdRef = useRef<string | null>(null);
+  const processedItemsRef = useRef(new Set<string>());
+  const rosterRef = useRef(roster);
+  rosterRef.current = roster;
+
+  const updateHistory = useCallback(
+    (update: (currentHistory: ChatHistory) => ChatHistory): void => {
+      const currentHistory = historyRef.current;
+      const nextHistory = update(currentHistory);
+      if (nextHistory === currentHistory) {
+        return;
+      }
+
+      historyRef.current = {
+        ...nextHistory,
+        messages: nextHistory.messages.slice(-maxMessages),
+      };
+      setHistory(historyRef.current);
+      if (meetingIdRef.current) {
+        store.set(meetingIdRef.current, historyRef.current);
+      }
+    },
+    [store, maxMessages]
+  );
+
+  const updateStatus = useCallback(
+    (messageId: string, status: DataMessageStatus): void =>
+      updateHistory((currentHistory) => {
+        const message = currentHistory.messages.find(
+          (chatMessage) =>
+            chatMessage.local && chatMessage.messageId === messageId
+        );
+        if (!message || message.status === status) {
+          return currentHistory;
+        }
+
+        return {
+          ...currentHistory,
+          messages: setChatMessageStatus(
+            currentHistory.messages,
+            messageId,
+            status
+          ),
+        };
+      }),
+    [updateHistory]
+  );
+
+  const getSenderName = (attendeeId: string, externalUserId?: string): string =>
+    rosterRef.current[attendeeId]?.name || externalUserId || attendeeId;
+
+  useEffect(() => {
+    const { meetingId } = meetingManager;
+    if (!audioVideo || !meetingId) {
+      return;
+    }
+
+    const processedItems = processedItemsRef.current;
+    meetingIdRef.current = meetingId;
+    historyRef.current = store.get(meetingId) || { messages: [] };
+    setHistory(historyRef.current);
+
+    return () => {
+      meetingIdRef.current = null;
+      processedItems.clear();
+      historyRef.current = { messages: [] };
+      setHistory(historyRef.current);
+    };
+  }, [audioVideo]);
+
+  useEffect(() => {
+    items.forEach(
+      ({
+        messageId,
+        payload,
+        senderAttendeeId,
+        senderExternalUserId,
+        timestampMs,
+        local,
+        status,
+      }) => {
+        if (local) {
+          if (payload.type === 'message') {
+            updateStatus(payload.messageId, status);
+          }
+          return;
+        }
+
+        const key = `${senderAttendeeId}/${messageId}`;
+        if (processedItemsRef.current.has(key)) {
+          return;
+        }
+
+        processedItemsRef.current.add(key);
+        if (!isChatEvent(payload)) {
+          return;
+        }
+
+        updateHistory((currentHistory) => {
+          const messages = applyChatEvent(currentHistory.messages, payload, {
+            attendeeId: senderAttendeeId,
+            name: getSenderName(senderAttendeeId, senderExternalUserId),
+            timestampMs,
+            local: false,
+          });
+          return messages === currentHistory.messages
+            ? currentHistory
+            : { ...currentHistory, messages };
+        });
+      }
+    );
+  }, [items, updateStatus, updateHistory]);
+
+  const sendEvent = useCallback(
+    (event: ChatEvent): void => {
+      const { senderAttendeeId, timestampMs, status } = send(event);
+      updateHistory((currentHistory) => {
+        const messages = applyChatEvent(currentHistory.messages, event, {
+          attendeeId: senderAttendeeId,
+          name: getSenderName(senderAttendeeId),
+          timestampMs,
+          local: true,
+        });
+        return {
+          ...currentHistory,
+          messages:
+            event.type === 'message'
+              ? setChatMessageStatus(messages, event.messageId, status)
+              : messages,
+        };
+      });
+    },
+    [send, updateHistory]
+  );
+
+  const sendMessage = useCallback(
+    (content: string, attachment?: ChatAttachment): void =>
+      sendEvent({
+        type: 'message',
+        messageId: `${Date.now().toString(36)}${Math.random()
+          .toString(36)
+          .slice(2, 8)}`,
+        content,
+        attachment,
+      }),
+    [sendEvent]
+  );
+
+  const editMessage = useCallback(
+    (messageId: string, content: string): void =>
+      sendEvent({ type: 'edit', messageId, content }),
+    [sendEvent]
+  );
+
+  const redactMessage = useCallback(
+    (messageId: string): void => sendEvent({ type: 'redact', messageId }),
+    [sendEvent]
+  );
+
+  const markAsRead = useCallback((): void => {
+    updateHistory((currentHistory) => ({
+      ...currentHistory,
+      lastReadTimestamp: new Date().toISOString(),
+    }));
+  }, [updateHistory]);
+
+  const clearMessages = useCallback((): void => {
+    clearItems();
+    updateHistory(() => ({ messages: [] }));
+  }, [clearItems, updateHistory]);
+
+  const messages = useMemo(
+    () => resolveSenderNames(history.messages, roster),
+    [history.messages, roster]
+  );
+
+  const unreadCount = useMemo(
+    () => getUnreadCount(history.messages, history.lastReadTimestamp),
+    [history]
+  );
+
+  const value = useMemo(
+    () => ({
+      messages,
+      unreadCount,
+      sendMessage,
+      editMessage,
+      redactMessage,
+      markAsRead,
+      clearMessages,
+    }),
+    [
+      messages,
+      unreadCount,
+      sendMessage,
+      editMessage,
+      redactMessage,
+      markAsRead,
+      clearMessages,
+    ]
+  );
+
+  return (
+    <MeetingChatContext.Provider value={value}>
+      {children}
+    </MeetingChatContext.Provider>
+  );
+};
+
+export function useMeetingChat(): MeetingChatState {
+  const state = useContext(MeetingChatContext);
+
+  if (!state) {
+    throw new Error('useMeetingChat must be used within MeetingChatProvider');
+  }
+
+  return state;
+}
+
+export {
+  ChatAttachment,
+  ChatHistory,
+  ChatMessage,
+  ChatMessageStore,
+  InMemoryChatMessageStore,
+  LocalStorageChatMessageStore,
+};
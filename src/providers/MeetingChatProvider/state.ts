@@ -0,0 +1,181 @@
+// Copyright Amazon.com, Inc. or its affiliates. All Rights Reserved.
+// SPDX-License-Identifier: Apache-2.0
+
+import { Message } from '../../components/ui/Chat/ChatBubble/ChatBubbleContainer';
+import { RosterType } from '../../types';
+import { DataMessageStatus } from '../DataMessagesProvider/DataMessageChannel';
+
+export type ChatAttachment = {
+  name: string;
+  downloadUrl: string;
+  size?: string;
+};
+
+export type ChatMessage = Message & {
+  messageId: string;
+  /** Whether the message was sent by the local attendee. */
+  local: boolean;
+  status: DataMessageStatus;
+  attachment?: ChatAttachment;
+};
+
+export type ChatEvent =
+  | {
+      type: 'message';
+      messageId: string;
+      content: string;
+      attachment?: ChatAttachment;
+    }
+  | { type: 'edit'; messageId: string; content: string }
+  | { type: 'redact'; messageId: string };
+
+export type ChatEventSender = {
+  attendeeId: string;
+  name: string;
+  timestampMs: number;
+  local: boolean;
+};
+
+const isAttachment = (value: unknown): value is ChatAttachment => {
+  const attachment = value as ChatAttachment;
+  return (
+    !!attachment &&
+    typeof attachment.name === 'string' &&
+    typeof attachment.downloadUrl === 'string' &&
+    /^https?:\/\//.test(attachment.downloadUrl)
+  );
+};
+
+/**
+ * Checks the payload received from other attendees before it is applied to the chat.
+ */
+export function isChatEvent(payload: unknown): payload is ChatEvent {
+  const event = payload as ChatEvent;
+  if (!event || typeof event.messageId !== 'string') {
+    return false;
+  }
+
+  switch (event.type) {
+    case 'message':
+      return (
+        typeof event.content === 'string' &&
+        (event.attachment === undefined || isAttachment(event.attachment))
+      );
+    case 'edit':
+      return typeof event.content === 'string';
+    case 'redact':
+      return true;
+    default:
+      return false;
+  }
+}
+
+/**
+ * Applies the event to the messages. Attendees can only edit and redact their own messages,
+ * and the edits of redacted messages are ignored.
+ */
+export function applyChatEvent(
+  messages: ChatMessage[],
+  event: ChatEvent,
+  sender: ChatEventSender
+): ChatMessage[] {
+  const timestamp = new Date(sender.timestampMs).toISOString();
+
+  if (event.type === 'message') {
+    if (messages.some(({ messageId }) => messageId === event.messageId)) {
+      return messages;
+    }
+
+    return [
+      ...messages,
+      {
+        messageId: event.messageId,
+        content: event.content,
+        attachment: event.attachment,
+        createdTimestamp: timestamp,
+        redacted: false,
+        senderId: sender.attendeeId,
+        senderName: sender.name,
+        local: sender.local,
+        status: DataMessageStatus.SENT,
+      },
+    ];
+  }
+
+  const index = messages.findIndex(
+    ({ messageId, senderId, redacted }) =>
+      messageId === event.messageId &&
+      senderId === sender.attendeeId &&
+      !redacted
+  );
+  if (index < 0) {
+    return messages;
+  }
+
+  const message = messages[index];
+  let updatedMessage: ChatMessage;
+  if (event.type === 'edit') {
+    updatedMessage = {
+      ...message,
+      content: event.content,
+      lastEditedTimestamp: timestamp,
+    };
+  } else {
+    updatedMessage = {
+      ...message,
+      content: '',
+      attachment: undefined,
+      redacted: true,
+      lastEditedTimestamp: timestamp,
+    };
+  }
+
+  return [
+    ...messages.slice(0, index),
+    updatedMessage,
+    ...messages.slice(index + 1),
+  ];
+}
+
+export function setChatMessageStatus(
+  messages: ChatMessage[],
+  messageId: string,
+  status: DataMessageStatus
+): ChatMessage[] {
+  return messages.map((message) =>
+    message.local && message.messageId === messageId
+      ? { ...message, status }
+      : message
+  );
+}
+
+/**
+ * Counts the messages of other attendees sent after the last read timestamp.
+ */
+export function getUnreadCount(
+  messages: ChatMessage[],
+  lastReadTimestamp?: string
+): number {
+  return messages.filter(
+    ({ local, redacted, createdTimestamp }) =>
+      !local &&
+      !redacted &&
+      (!lastReadTimestamp || createdTimestamp > lastReadTimestamp)
+  ).length;
+}
+
+/**
+ * Replaces the sender names with the names of the roster, so that names resolved
+ * after a message was received are shown. Departed senders keep their last known name.
+ */
+export function resolveSenderNames(
+  messages: ChatMessage[],
+  roster: RosterType
+): ChatMessage[] {
+  return messages.map((message) => {
+    const name = roster[message.senderId]?.name;
+    return name && name !== message.senderName
+      ? { ...message, senderName: name }
+      : message;
+  });
+}
@@ -0,0 +1,44 @@
+// Copyright Amazon.com, Inc. or its affiliates. All Rights Reserved.
+// SPDX-License-Identifier: Apache-2.0
+
+import React, { createContext, useContext, useState } from 'react';
+
+import { useLogger } from '../LoggerProvider';
+import MeetingManagerRegistry from '../MeetingProvider/MeetingManagerRegistry';
+
+interface Props {
+  /** Pass a `MeetingManagerRegistry` instance if you want to create or inspect
+   * the registered `MeetingManager`s outside of the React tree.
+   */
+  registry?: MeetingManagerRegistry;
+}
+
+export const MeetingManagerRegistryContext =
+  createContext<MeetingManagerRegistry | null>(null);
+
+export const MeetingManagerRegistryProvider: React.FC<
+  React.PropsWithChildren<Props>
+> = ({ registry: registryProp, children }) => {
+  const logger = useLogger();
+  const [registry] = useState(
+    () => registryProp || new MeetingManagerRegistry(logger)
+  );
+
+  return (
+    <MeetingManagerRegistryContext.Provider value={registry}>
+      {children}
+    </MeetingManagerRegistryContext.Provider>
+  );
+};
+
+export const useMeetingManagerRegistry = (): MeetingManagerRegistry => {
+  const registry = useContext(MeetingManagerRegistryContext);
+
+  if (!registry) {
+    throw new Error(
+      'useMeetingManagerRegistry must be used within MeetingManagerRegistryProvider'
+    );
+  }
+
+  return registry;
+};
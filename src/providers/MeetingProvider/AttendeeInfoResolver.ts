@@ -0,0 +1,253 @@
+// Copyright Amazon.com, Inc. or its affiliates. All Rights Reserved.
+// SPDX-License-Identifier: Apache-2.0
+
+import { Logger } from 'amazon-chime-sdk-js';
+
+import { BackoffPolicy, getBackoffDelay } from '../../utils/backoff';
+import { AttendeeRequest, AttendeeResponse } from './types';
+
+export interface AttendeeInfoSource {
+  getAttendee?: (
+    chimeAttendeeId: string,
+    externalUserId?: string
+  ) => Promise<AttendeeResponse>;
+  getAttendees?: (
+    attendees: AttendeeRequest[]
+  ) => Promise<{ [chimeAttendeeId: string]: AttendeeResponse }>;
+}
+
+export interface RetryPolicy extends BackoffPolicy {
+  /** The maximum number of attempts, including the first one. */
+  maxAttempts: number;
+}
+
+export interface AttendeeInfoResolverOptions {
+  /** How long a resolved attendee is cached. Defaults to 300000ms. */
+  ttlMs?: number;
+  /** How long lookups are collected into one `getAttendees` call. Defaults to 50ms. */
+  batchDelayMs?: number;
+  /** The maximum number of attendees in one `getAttendees` call. Defaults to 50. */
+  maxBatchSize?: number;
+  /** Defaults to 3 attempts, starting with a 500ms delay. */
+  retryPolicy?: RetryPolicy;
+}
+
+type CacheEntry = {
+  response: AttendeeResponse;
+  expiresAt: number;
+};
+
+type QueuedLookup = {
+  externalUserId?: string;
+  resolve: (response: AttendeeResponse | undefined) => void;
+};
+
+export class AttendeeInfoResolver {
+  private source: AttendeeInfoSource;
+
+  private logger: Logger;
+
+  private ttlMs: number;
+
+  private batchDelayMs: number;
+
+  private maxBatchSize: number;
+
+  private retryPolicy: RetryPolicy;
+
+  private cache = new Map<string, CacheEntry>();
+
+  private pendingLookups = new Map<
+    string,
+    Promise<AttendeeResponse | undefined>
+  >();
+
+  private queuedLookups = new Map<string, QueuedLookup>();
+
+  private batchTimeout: ReturnType<typeof setTimeout> | null = null;
+
+  private invalidationObservers: ((chimeAttendeeId: string | null) => void)[] =
+    [];
+
+  constructor(
+    source: AttendeeInfoSource,
+    logger: Logger,
+    {
+      ttlMs = 300000,
+      batchDelayMs = 50,
+      maxBatchSize = 50,
+      retryPolicy = { maxAttempts: 3, initialDelayMs: 500 },
+    }: AttendeeInfoResolverOptions = {}
+  ) {
+    this.source = source;
+    this.logger = logger;
+    this.ttlMs = ttlMs;
+    this.batchDelayMs = batchDelayMs;
+    this.maxBatchSize = maxBatchSize;
+    this.retryPolicy = retryPolicy;
+  }
+
+  /**
+   * Resolves the attendee info from the cache, or looks it up with `getAttendees` or `getAttendee`.
+   * Concurrent lookups of the same attendee share one request.
+   * Resolves `undefined` when no lookup function is provided or all attempts failed.
+   */
+  resolve = (
+    chimeAttendeeId: string,
+    externalUserId?: string
+  ): Promise<AttendeeResponse | undefined> => {
+    const cached = this.cache.get(chimeAttendeeId);
+    if (cached && cached.expiresAt > Date.now()) {
+      return Promise.resolve(cached.response);
+    }
+
+    const pendingLookup = this.pendingLookups.get(chimeAttendeeId);
+    if (pendingLookup) {
+      return pendingLookup;
+    }
+
+    if (!this.source.getAttendees && !this.source.getAttendee) {
+      return Promise.resolve(undefined);
+    }
+
+    const lookup: Promise<AttendeeResponse | undefined> = this.lookUp(
+      chimeAttendeeId,
+      externalUserId
+    ).then((response) => {
+      // Skip the result if the attendee was invalidated in the meantime.
+      if (this.pendingLookups.get(chimeAttendeeId) === lookup) {
+        this.pendingLookups.delete(chimeAttendeeId);
+        if (response) {
+          this.cache.set(chimeAttendeeId, {
+            response,
+            expiresAt: Date.now() + this.ttlMs,
+          });
+        }
+      }
+      return response;
+    });
+    this.pendingLookups.set(chimeAttendeeId, lookup);
+
+    return lookup;
+  };
+
+  /**
+   * Removes an attendee, or every attendee if no ID is passed, from the cache
+   * and notifies the observers so that the attendee info can be resolved again.
+   */
+  invalidate = (chimeAttendeeId?: string): void => {
+    if (chimeAttendeeId) {
+      this.cache.delete(chimeAttendeeId);
+      this.pendingLookups.delete(chimeAttendeeId);
+    } else {
+      this.cache.clear();
+      this.pendingLookups.clear();
+    }
+
+    for (const observer of this.invalidationObservers) {
+      observer(chimeAttendeeId || null);
+    }
+  };
+
+  clear = (): void => {
+    this.cache.clear();
+    this.pendingLookups.clear();
+  };
+
+  subscribeToInvalidation = (
+    callback: (chimeAttendeeId: string | null) => void
+  ): void => {
+    this.invalidationObservers.push(callback);
+  };
+
+  unsubscribeFromInvalidation = (
+    callbackToRemove: (chimeAttendeeId: string | null) => void
+  ): void => {
+    this.invalidationObservers = this.invalidationObservers.filter(
+      (callback) => callback !== callbackToRemove
+    );
+  };
+
+  private async lookUp(
+    chimeAttendeeId: string,
+    externalUserId?: string
+  ): Promise<AttendeeResponse | undefined> {
+    const { getAttendee, getAttendees } = this.source;
+    if (getAttendees || !getAttendee) {
+      return new Promise((resolve) => {
+        this.queuedLookups.set(chimeAttendeeId, { externalUserId, resolve });
+        this.scheduleBatch();
+      });
+    }
+
+    try {
+      return await this.withRetry(() =>
+        getAttendee(chimeAttendeeId, externalUserId)
+      );
+    } catch (error) {
+      this.logger.error(
+        `[AttendeeInfoResolver] failed to get attendee ${chimeAttendeeId}: ${error}`
+      );
+      return undefined;
+    }
+  }
+
+  private scheduleBatch(): void {
+    if (!this.batchTimeout) {
+      this.batchTimeout = setTimeout(this.flushBatch, this.batchDelayMs);
+    }
+  }
+
+  private flushBatch = async (): Promise<void> => {
+    this.batchTimeout = null;
+    const lookups = Array.from(this.queuedLookups.entries()).slice(
+      0,
+      this.maxBatchSize
+    );
+    lookups.forEach(([chimeAttendeeId]) =>
+      this.queuedLookups.delete(chimeAttendeeId)
+    );
+    if (this.queuedLookups.size) {
+      this.scheduleBatch();
+    }
+
+    const attendees = lookups.map(([chimeAttendeeId, { externalUserId }]) => ({
+      chimeAttendeeId,
+      externalUserId,
+    }));
+    const { getAttendees } = this.source;
+    let responses: { [chimeAttendeeId: string]: AttendeeResponse } = {};
+    try {
+      if (getAttendees) {
+        responses = await this.withRetry(() => getAttendees(attendees));
+      }
+    } catch (error) {
+      this.logger.error(
+        `[AttendeeInfoResolver] failed to get ${attendees.length} attendee(s): ${error}`
+      );
+    }
+
+    lookups.forEach(([chimeAttendeeId, { resolve }]) =>
+      resolve(responses[chimeAttendeeId])
+    );
+  };
+
+  private async withRetry<T>(
+    request: () => Promise<T>,
+    attempt = 1
+  ): Promise<T> {
+    try {
+      return await request();
+    } catch (error) {
+      if (attempt >= this.retryPolicy.maxAttempts) {
+        throw error;
+      }
+
+      const delay = getBackoffDelay(this.retryPolicy, attempt);
+      await new Promise((resolve) => setTimeout(resolve, delay));
+      return this.withRetry(request, attempt + 1);
+    }
+  }
+}
+
+export default AttendeeInfoResolver;
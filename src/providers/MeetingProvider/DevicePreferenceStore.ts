@@ -0,0 +1,99 @@
+// Copyright Amazon.com, Inc. or its affiliates. All Rights Reserved.
+// SPDX-License-Identifier: Apache-2.0
+
+export type DevicePreference = {
+  deviceId: string;
+  label?: string;
+  groupId?: string;
+};
+
+export interface DevicePreferenceStore {
+  get(kind: MediaDeviceKind): DevicePreference | undefined;
+  set(kind: MediaDeviceKind, preference: DevicePreference): void;
+  clear(): void;
+}
+
+type DevicePreferences = Partial<Record<MediaDeviceKind, DevicePreference>>;
+
+export class InMemoryDevicePreferenceStore implements DevicePreferenceStore {
+  private preferences: DevicePreferences = {};
+
+  get(kind: MediaDeviceKind): DevicePreference | undefined {
+    return this.preferences[kind];
+  }
+
+  set(kind: MediaDeviceKind, preference: DevicePreference): void {
+    this.preferences[kind] = preference;
+  }
+
+  clear(): void {
+    this.preferences = {};
+  }
+}
+
+export const DEVICE_PREFERENCES_STORAGE_KEY =
+  'amazon-chime-sdk-component-library-react.device-preferences';
+
+class LocalStorageDevicePreferenceStore implements DevicePreferenceStore {
+  private storageKey: string;
+
+  constructor(storageKey: string = DEVICE_PREFERENCES_STORAGE_KEY) {
+    this.storageKey = storageKey;
+  }
+
+  get(kind: MediaDeviceKind): DevicePreference | undefined {
+    return this.read()[kind];
+  }
+
+  set(kind: MediaDeviceKind, preference: DevicePreference): void {
+    this.write({ ...this.read(), [kind]: preference });
+  }
+
+  clear(): void {
+    try {
+      window.localStorage.removeItem(this.storageKey);
+    } catch (error) {
+      console.warn('DevicePreferenceStore failed to clear localStorage');
+    }
+  }
+
+  private read(): DevicePreferences {
+    try {
+      const value = window.localStorage.getItem(this.storageKey);
+      return value ? JSON.parse(value) : {};
+    } catch (error) {
+      return {};
+    }
+  }
+
+  private write(preferences: DevicePreferences): void {
+    try {
+      window.localStorage.setItem(this.storageKey, JSON.stringify(preferences));
+    } catch (error) {
+      console.warn('DevicePreferenceStore failed to write to localStorage');
+    }
+  }
+}
+
+/**
+ * Finds the device matching the preference by device ID first.
+ * Browsers may rotate device IDs between sessions, so fall back to the label and then the group ID.
+ */
+export function findPreferredDevice(
+  devices: MediaDeviceInfo[],
+  preference: DevicePreference | undefined
+): MediaDeviceInfo | undefined {
+  if (!preference) {
+    return undefined;
+  }
+
+  const { deviceId, label, groupId } = preference;
+
+  return (
+    devices.find((device) => device.deviceId === deviceId) ||
+    (label ? devices.find((device) => device.label === label) : undefined) ||
+    (groupId ? devices.find((device) => device.groupId === groupId) : undefined)
+  );
+}
+
+export { LocalStorageDevicePreferenceStore };
@@ -10,6 +10,7 @@ import {
   DefaultBrowserBehavior,
   DefaultDeviceController,
   DefaultMeetingSession,
+  DeviceChangeObserver,
   EventAttributes,
   EventController,
   EventName,
@@ -22,22 +23,73 @@ import {
 } from 'amazon-chime-sdk-js';
 
 import {
+  DeviceChangePolicy,
   DeviceLabels,
   DeviceLabelTrigger,
   DeviceLabelTriggerStatus,
   MeetingStatus,
 } from '../../types';
+import { getBackoffDelay } from '../../utils/backoff';
+import { getDeviceId } from '../../utils/device-utils';
+import { AttendeeInfoResolver } from './AttendeeInfoResolver';
 import {
+  DevicePreferenceStore,
+  findPreferredDevice,
+  LocalStorageDevicePreferenceStore,
+} from './DevicePreferenceStore';
+import {
+  AttendeeRequest,
   AttendeeResponse,
+  DeviceChange,
   FullDeviceInfoType,
   MeetingManagerJoinOptions,
   ParsedJoinParams,
+  ReconnectPolicy,
+  StartDeviceOptions,
 } from './types';
 
 function noOpDeviceLabelHook(): Promise<MediaStream> {
   return Promise.resolve(new MediaStream());
 }
 
+// Chrome also lists the "default" and "communications" devices, which mirror another listed device.
+const PSEUDO_DEVICE_IDS = ['default', 'communications'];
+
+/**
+ * Returns the ID of the device to select after the device list changed, or `null` if no device should be selected.
+ * The currently selected device ID is returned when the selection does not change.
+ */
+export function getDeviceIdAfterChange(
+  policy: DeviceChangePolicy,
+  devices: MediaDeviceInfo[],
+  addedDevices: MediaDeviceInfo[],
+  selectedDeviceId: string | null
+): string | null {
+  if (policy === DeviceChangePolicy.PreferNewDevice) {
+    const newDevice = addedDevices.find(
+      (device) => !PSEUDO_DEVICE_IDS.includes(device.deviceId)
+    );
+    if (newDevice) {
+      return newDevice.deviceId;
+    }
+  }
+
+  if (
+    !selectedDeviceId ||
+    devices.some((device) => device.deviceId === selectedDeviceId)
+  ) {
+    return selectedDeviceId;
+  }
+
+  if (policy === DeviceChangePolicy.AskUser) {
+    return null;
+  }
+
+  const defaultDevice =
+    devices.find((device) => device.deviceId === 'default') || devices[0];
+  return defaultDevice ? defaultDevice.deviceId : null;
+}
+
 export class MeetingManager implements AudioVideoObserver {
   meetingSession: DefaultMeetingSession | null = null;
 
@@ -58,6 +110,12 @@ export class MeetingManager implements AudioVideoObserver {
     externalUserId?: string
   ) => Promise<AttendeeResponse>;
 
+  getAttendees?: (
+    attendees: AttendeeRequest[]
+  ) => Promise<{ [chimeAttendeeId: string]: AttendeeResponse }>;
+
+  attendeeInfoResolver: AttendeeInfoResolver;
+
   selectedAudioOutputDevice: string | null;
 
   selectedAudioOutputDeviceObservers: ((deviceId: string | null) => void)[] =
@@ -100,6 +158,15 @@ export class MeetingManager implements AudioVideoObserver {
   devicesUpdatedCallbacks: ((fullDeviceInfo: FullDeviceInfoType) => void)[] =
     [];
 
+  devicePreferenceStore: DevicePreferenceStore;
+
+  deviceChangeObservers: ((deviceChange: DeviceChange) => void)[] = [];
+
+  deviceReplacementCallbacks: ((
+    nextDevice: string,
+    currentDevice: AudioInputDevice | undefined
+  ) => Promise<AudioInputDevice>)[] = [];
+
   private logger: Logger;
 
   private meetingEventObserverSet = new Set<
@@ -110,12 +177,52 @@ export class MeetingManager implements AudioVideoObserver {
 
   private deviceLabels: DeviceLabels | DeviceLabelTrigger;
 
+  private joinParams: ParsedJoinParams | undefined;
+
+  private rejoinAttempts = 0;
+
+  private rejoinTimeout: ReturnType<typeof setTimeout> | null = null;
+
+  // Changes on every join and leave, so that a rejoin in progress knows it was cancelled
+  private sessionGeneration = 0;
+
+  private deviceChangeObserver: DeviceChangeObserver = {
+    audioInputsChanged: (devices: MediaDeviceInfo[]) => {
+      this.handleDeviceChange('audioinput', devices).catch((error) =>
+        this.logger.error(
+          `[MeetingManager.handleDeviceChange] failed to handle audioinput changes: ${error}`
+        )
+      );
+    },
+    audioOutputsChanged: (devices: MediaDeviceInfo[]) => {
+      this.handleDeviceChange('audiooutput', devices).catch((error) =>
+        this.logger.error(
+          `[MeetingManager.handleDeviceChange] failed to handle audiooutput changes: ${error}`
+        )
+      );
+    },
+    videoInputsChanged: (devices: MediaDeviceInfo[]) => {
+      this.handleDeviceChange('videoinput', devices).catch((error) =>
+        this.logger.error(
+          `[MeetingManager.handleDeviceChange] failed to handle videoinput changes: ${error}`
+        )
+      );
+    },
+  };
+
   getDeviceLabels(): DeviceLabels | DeviceLabelTrigger {
     return this.deviceLabels;
   }
 
-  constructor(logger: Logger) {
+  getDeviceChangePolicy(): DeviceChangePolicy | undefined {
+    return this.joinParams?.deviceChangePolicy;
+  }
+
+  constructor(logger: Logger, devicePreferenceStore?: DevicePreferenceStore) {
     this.logger = logger;
+    this.devicePreferenceStore =
+      devicePreferenceStore || new LocalStorageDevicePreferenceStore();
+    this.attendeeInfoResolver = new AttendeeInfoResolver(this, logger);
     this.eventDidReceiveRef = {
       eventDidReceive: (name: EventName, attributes: EventAttributes) => {
         this.publishEventDidReceiveUpdate(name, attributes);
@@ -143,16 +250,32 @@ export class MeetingManager implements AudioVideoObserver {
     meetingSessionConfiguration: MeetingSessionConfiguration,
     options?: MeetingManagerJoinOptions
   ): Promise<void> {
-    const {
-      deviceLabels,
-      eventController,
-      enableWebAudio,
-      activeSpeakerPolicy,
-      skipDeviceSelection
-    } = this.parseJoinParams(options);
+    const joinParams = this.parseJoinParams(options);
+    const { deviceLabels, activeSpeakerPolicy, skipDeviceSelection } =
+      joinParams;
+    this.joinParams = joinParams;
+    this.rejoinAttempts = 0;
+    this.sessionGeneration += 1;
     this.meetingSessionConfiguration = meetingSessionConfiguration;
     this.meetingId = this.meetingSessionConfiguration.meetingId;
 
+    this.createMeetingSession(meetingSessionConfiguration, joinParams);
+    this.setupDeviceLabelTrigger(deviceLabels);
+    if (!skipDeviceSelection) {
+      this.logger.info('[MeetingManager.join] listing and selecting devices');
+      await this.listAndSelectDevices(deviceLabels);
+    }
+    
+    this.publishAudioVideo();
+    this.setupActiveSpeakerDetection(activeSpeakerPolicy);
+    this.meetingStatus = MeetingStatus.Loading;
+    this.publishMeetingStatus();
+  }
+
+  private createMeetingSession(
+    meetingSessionConfiguration: MeetingSessionConfiguration,
+    { eventController, enableWebAudio, deviceChangePolicy }: ParsedJoinParams
+  ): void {
     const deviceController = new DefaultDeviceController(this.logger, {
       enableWebAudio: enableWebAudio,
     });
@@ -172,16 +295,10 @@ export class MeetingManager implements AudioVideoObserver {
     }
 
     this.setupAudioVideoObservers();
-    this.setupDeviceLabelTrigger(deviceLabels);
-    if (!skipDeviceSelection) {
-      this.logger.info('[MeetingManager.join] listing and selecting devices');
-      await this.listAndSelectDevices(deviceLabels);
+
+    if (deviceChangePolicy) {
+      this.audioVideo.addDeviceChangeObserver(this.deviceChangeObserver);
     }
-    
-    this.publishAudioVideo();
-    this.setupActiveSpeakerDetection(activeSpeakerPolicy);
-    this.meetingStatus = MeetingStatus.Loading;
-    this.publishMeetingStatus();
   }
 
   private parseJoinParams(
@@ -195,13 +312,19 @@ export class MeetingManager implements AudioVideoObserver {
     const activeSpeakerPolicy: ActiveSpeakerPolicy =
       options?.activeSpeakerPolicy || new DefaultActiveSpeakerPolicy();
     const skipDeviceSelection = options?.skipDeviceSelection || false;
+    const reconnectPolicy: ReconnectPolicy | undefined =
+      options?.reconnectPolicy;
+    const deviceChangePolicy: DeviceChangePolicy | undefined =
+      options?.deviceChangePolicy;
 
     return {
       deviceLabels,
       eventController,
       enableWebAudio,
       activeSpeakerPolicy,
-      skipDeviceSelection
+      skipDeviceSelection,
+      reconnectPolicy,
+      deviceChangePolicy,
     };
   }
 
@@ -210,7 +333,14 @@ export class MeetingManager implements AudioVideoObserver {
   }
 
   async leave(): Promise<void> {
+    this.clearRejoinTimeout();
+    this.joinParams = undefined;
+    this.rejoinAttempts = 0;
+    this.sessionGeneration += 1;
+    this.attendeeInfoResolver.clear();
+
     if (this.audioVideo) {
+      this.audioVideo.removeDeviceChangeObserver(this.deviceChangeObserver);
       this.audioVideo.stopContentShare();
       this.audioVideo.stopLocalVideoTile();
       this.audioVideo.unbindAudioElement();
@@ -241,6 +371,7 @@ export class MeetingManager implements AudioVideoObserver {
     console.log(
       '[MeetingManager audioVideoDidStart] Meeting started successfully'
     );
+    this.rejoinAttempts = 0;
     this.meetingStatus = MeetingStatus.Succeeded;
     this.publishMeetingStatus();
   };
@@ -282,6 +413,11 @@ export class MeetingManager implements AudioVideoObserver {
           console.log(
             `[MeetingManager audioVideoDidStop] Non-Terminal failure occurred: ${sessionStatusCode}`
           );
+          if (this.joinParams?.reconnectPolicy) {
+            this.audioVideo?.removeObserver(this.audioVideoObservers);
+            this.scheduleRejoin();
+            return;
+          }
           this.meetingStatus = MeetingStatus.Failed;
         } else if (sessionStatus.isTerminal()) {
           console.log(
@@ -300,6 +436,147 @@ export class MeetingManager implements AudioVideoObserver {
     this.leave();
   };
 
+  private scheduleRejoin(): void {
+    const reconnectPolicy = this.joinParams?.reconnectPolicy;
+    if (
+      !reconnectPolicy ||
+      this.rejoinAttempts >= reconnectPolicy.maxAttempts
+    ) {
+      this.logger.error(
+        `[MeetingManager.scheduleRejoin] giving up after ${this.rejoinAttempts} rejoin attempt(s)`
+      );
+      this.meetingStatus = MeetingStatus.RejoinFailed;
+      this.publishMeetingStatus();
+      this.leave();
+      return;
+    }
+
+    this.rejoinAttempts += 1;
+    const delay = getBackoffDelay(reconnectPolicy, this.rejoinAttempts);
+    this.logger.info(
+      `[MeetingManager.scheduleRejoin] rejoin attempt ${
+        this.rejoinAttempts
+      } in ${Math.round(delay)}ms`
+    );
+    this.meetingStatus = MeetingStatus.Rejoining;
+    this.publishMeetingStatus();
+
+    this.clearRejoinTimeout();
+    this.rejoinTimeout = setTimeout(() => {
+      this.rejoinTimeout = null;
+      this.rejoin();
+    }, delay);
+  }
+
+  private clearRejoinTimeout(): void {
+    if (this.rejoinTimeout) {
+      clearTimeout(this.rejoinTimeout);
+      this.rejoinTimeout = null;
+    }
+  }
+
+  private async rejoin(): Promise<void> {
+    if (!this.meetingSessionConfiguration || !this.joinParams) {
+      return;
+    }
+
+    const { meetingSessionConfiguration, joinParams } = this;
+    const { deviceLabels, activeSpeakerPolicy } = joinParams;
+    const generation = this.sessionGeneration;
+    const isCancelled = (): boolean => {
+      if (generation === this.sessionGeneration) {
+        return false;
+      }
+      this.logger.info(
+        '[MeetingManager.rejoin] the rejoin was cancelled by a leave or a new join'
+      );
+      return true;
+    };
+
+    try {
+      await this.teardownMeetingSession();
+      if (isCancelled()) {
+        return;
+      }
+
+      this.createMeetingSession(meetingSessionConfiguration, joinParams);
+      this.setupDeviceLabelTrigger(deviceLabels);
+      await this.reselectDevices();
+      if (isCancelled()) {
+        return;
+      }
+
+      this.publishAudioVideo();
+      this.setupActiveSpeakerDetection(activeSpeakerPolicy);
+      await this.start();
+    } catch (error) {
+      if (isCancelled()) {
+        return;
+      }
+
+      this.logger.error(
+        `[MeetingManager.rejoin] rejoin attempt ${this.rejoinAttempts} failed: ${error}`
+      );
+      this.audioVideo?.removeObserver(this.audioVideoObservers);
+      this.scheduleRejoin();
+    }
+  }
+
+  private async teardownMeetingSession(): Promise<void> {
+    this.audioVideo?.removeDeviceChangeObserver(this.deviceChangeObserver);
+    if (this.activeSpeakerListener) {
+      this.audioVideo?.unsubscribeFromActiveSpeakerDetector(
+        this.activeSpeakerListener
+      );
+      this.activeSpeakerListener = null;
+    }
+
+    try {
+      await this.meetingSession?.deviceController.destroy();
+    } catch (error) {
+      this.logger.warn(
+        `[MeetingManager.teardownMeetingSession] failed to clean up media resources: ${error}`
+      );
+    }
+  }
+
+  /**
+   * Restores the devices that were selected in the previous meeting session.
+   * The local video tile is not restarted, since the previous one was removed when the session stopped.
+   */
+  private async reselectDevices(): Promise<void> {
+    if (this.selectedAudioInputDevice) {
+      try {
+        await this.audioVideo?.startAudioInput(this.selectedAudioInputDevice);
+      } catch (error) {
+        console.error(
+          'MeetingManager failed to reselect audio input device on rejoin',
+          error
+        );
+      }
+      this.publishSelectedAudioInputDevice();
+    }
+    if (
+      this.selectedAudioOutputDevice &&
+      new DefaultBrowserBehavior().supportsSetSinkId()
+    ) {
+      try {
+        await this.audioVideo?.chooseAudioOutput(
+          this.selectedAudioOutputDevice
+        );
+      } catch (error) {
+        console.error(
+          'MeetingManager failed to reselect audio output device on rejoin',
+          error
+        );
+      }
+      this.publishSelectedAudioOutputDevice();
+    }
+    if (this.selectedVideoInputDevice) {
+      this.publishSelectedVideoInputDevice();
+    }
+  }
+
   setupAudioVideoObservers(): void {
     if (!this.audioVideo) {
       return;
@@ -434,11 +711,13 @@ export class MeetingManager implements AudioVideoObserver {
       this.audioInputDevices &&
       this.audioInputDevices.length
     ) {
-      this.selectedAudioInputDevice = this.audioInputDevices[0].deviceId;
+      const audioInputDevice = this.getPreferredDevice(
+        'audioinput',
+        this.audioInputDevices
+      );
+      this.selectedAudioInputDevice = audioInputDevice.deviceId;
       try {
-        await this.audioVideo?.startAudioInput(
-          this.audioInputDevices[0].deviceId
-        );
+        await this.audioVideo?.startAudioInput(audioInputDevice.deviceId);
       } catch (error) {
         console.error(
           'MeetingManager failed to select audio input device on join',
@@ -453,12 +732,14 @@ export class MeetingManager implements AudioVideoObserver {
       this.audioOutputDevices &&
       this.audioOutputDevices.length
     ) {
-      this.selectedAudioOutputDevice = this.audioOutputDevices[0].deviceId;
+      const audioOutputDevice = this.getPreferredDevice(
+        'audiooutput',
+        this.audioOutputDevices
+      );
+      this.selectedAudioOutputDevice = audioOutputDevice.deviceId;
       if (new DefaultBrowserBehavior().supportsSetSinkId()) {
         try {
-          await this.audioVideo?.chooseAudioOutput(
-            this.audioOutputDevices[0].deviceId
-          );
+          await this.audioVideo?.chooseAudioOutput(audioOutputDevice.deviceId);
         } catch (error) {
           console.error(
             'MeetingManager failed to select audio output device on join',
@@ -474,16 +755,223 @@ export class MeetingManager implements AudioVideoObserver {
       this.videoInputDevices &&
       this.videoInputDevices.length
     ) {
-      this.selectedVideoInputDevice = this.videoInputDevices[0].deviceId;
+      this.selectedVideoInputDevice = this.getPreferredDevice(
+        'videoinput',
+        this.videoInputDevices
+      ).deviceId;
       this.publishSelectedVideoInputDevice();
     }
   }
 
-  startAudioInputDevice = async (device: AudioInputDevice): Promise<void> => {
+  private getPreferredDevice(
+    kind: MediaDeviceKind,
+    devices: MediaDeviceInfo[]
+  ): MediaDeviceInfo {
+    return (
+      findPreferredDevice(devices, this.devicePreferenceStore.get(kind)) ||
+      devices[0]
+    );
+  }
+
+  private async saveDevicePreference(
+    kind: MediaDeviceKind,
+    device: AudioInputDevice | VideoInputDevice | string
+  ): Promise<void> {
+    try {
+      const deviceId =
+        typeof device === 'string' ? device : await getDeviceId(device);
+      if (!deviceId) {
+        return;
+      }
+
+      const deviceInfo = this.getDeviceList(kind).find(
+        (info) => info.deviceId === deviceId
+      );
+
+      this.devicePreferenceStore.set(kind, {
+        deviceId,
+        label: deviceInfo?.label,
+        groupId: deviceInfo?.groupId,
+      });
+    } catch (error) {
+      this.logger.warn(
+        `[MeetingManager.saveDevicePreference] failed to save ${kind} preference: ${error}`
+      );
+    }
+  }
+
+  private getDeviceList(kind: MediaDeviceKind): MediaDeviceInfo[] {
+    const devices = {
+      audioinput: this.audioInputDevices,
+      audiooutput: this.audioOutputDevices,
+      videoinput: this.videoInputDevices,
+    }[kind];
+    return devices || [];
+  }
+
+  private setDeviceList(
+    kind: MediaDeviceKind,
+    devices: MediaDeviceInfo[]
+  ): void {
+    switch (kind) {
+      case 'audioinput':
+        this.audioInputDevices = devices;
+        break;
+      case 'audiooutput':
+        this.audioOutputDevices = devices;
+        break;
+      case 'videoinput':
+        this.videoInputDevices = devices;
+        break;
+    }
+  }
+
+  private async getSelectedDeviceId(
+    kind: MediaDeviceKind
+  ): Promise<string | null> {
+    switch (kind) {
+      case 'audioinput':
+        return (await getDeviceId(this.selectedAudioInputDevice)) || null;
+      case 'audiooutput':
+        return this.selectedAudioOutputDevice || null;
+      case 'videoinput':
+        return (await getDeviceId(this.selectedVideoInputDevice)) || null;
+    }
+  }
+
+  /**
+   * Applies the device change policy when the device list of a kind changes,
+   * then publishes what was added, removed and selected.
+   */
+  private async handleDeviceChange(
+    kind: MediaDeviceKind,
+    devices: MediaDeviceInfo[]
+  ): Promise<void> {
+    const policy = this.joinParams?.deviceChangePolicy;
+    if (!policy) {
+      return;
+    }
+
+    const previousDevices = this.getDeviceList(kind);
+    const addedDevices = devices.filter(
+      (device) =>
+        !previousDevices.some(({ deviceId }) => deviceId === device.deviceId)
+    );
+    const removedDevices = previousDevices.filter(
+      (device) => !devices.some(({ deviceId }) => deviceId === device.deviceId)
+    );
+    this.setDeviceList(kind, devices);
+
+    const previousDeviceId = await this.getSelectedDeviceId(kind);
+    const nextDeviceId = getDeviceIdAfterChange(
+      policy,
+      devices,
+      addedDevices,
+      previousDeviceId
+    );
+
+    if (nextDeviceId !== previousDeviceId) {
+      this.logger.info(
+        `[MeetingManager.handleDeviceChange] switching ${kind} from ${previousDeviceId} to ${nextDeviceId}`
+      );
+      await this.switchDevice(kind, nextDeviceId);
+    } else if (kind === 'audioinput' && previousDeviceId === 'default') {
+      // The "default" device follows the system default, which may have changed.
+      await this.switchDevice(kind, previousDeviceId);
+    }
+
+    if (!addedDevices.length && !removedDevices.length) {
+      return;
+    }
+
+    this.publishDeviceChange({
+      kind,
+      policy,
+      addedDevices,
+      removedDevices,
+      previousDevice:
+        previousDevices.find(({ deviceId }) => deviceId === previousDeviceId) ||
+        null,
+      selectedDevice:
+        devices.find(({ deviceId }) => deviceId === nextDeviceId) || null,
+    });
+  }
+
+  /**
+   * Selects a device on behalf of the device change policy.
+   * Unlike `startAudioInputDevice` and friends, this does not save the device preference.
+   */
+  private async switchDevice(
+    kind: MediaDeviceKind,
+    deviceId: string | null
+  ): Promise<void> {
+    try {
+      switch (kind) {
+        case 'audioinput':
+          if (deviceId) {
+            let device: AudioInputDevice = deviceId;
+            // The most recently subscribed callback wins
+            const onDeviceReplacement =
+              this.deviceReplacementCallbacks[
+                this.deviceReplacementCallbacks.length - 1
+              ];
+            if (onDeviceReplacement) {
+              device = await onDeviceReplacement(
+                deviceId,
+                this.selectedAudioInputDevice
+              );
+            }
+            await this.audioVideo?.startAudioInput(device);
+            this.selectedAudioInputDevice = device;
+          } else {
+            await this.audioVideo?.stopAudioInput();
+            this.selectedAudioInputDevice = undefined;
+          }
+          this.publishSelectedAudioInputDevice();
+          break;
+        case 'audiooutput':
+          if (new DefaultBrowserBehavior().supportsSetSinkId()) {
+            await this.audioVideo?.chooseAudioOutput(deviceId);
+          }
+          this.selectedAudioOutputDevice = deviceId;
+          this.publishSelectedAudioOutputDevice();
+          break;
+        case 'videoinput':
+          // The SDK stops the local video tile when the selected camera is unplugged,
+          // so the video input only needs to be restarted while the camera is on.
+          if (this.audioVideo?.hasStartedLocalVideoTile()) {
+            if (deviceId) {
+              await this.audioVideo.startVideoInput(deviceId);
+            } else {
+              await this.audioVideo.stopVideoInput();
+            }
+          }
+          this.selectedVideoInputDevice = deviceId || undefined;
+          this.publishSelectedVideoInputDevice();
+          break;
+      }
+    } catch (error) {
+      this.logger.error(
+        `[MeetingManager.switchDevice] failed to switch ${kind} to ${deviceId}: ${error}`
+      );
+    }
+  }
+
+  /**
+   * Starts the audio input and records it as the preferred device.
+   * Pass `persist: false` for devices that the user did not select, such as a fallback after unplugging a device.
+   */
+  startAudioInputDevice = async (
+    device: AudioInputDevice,
+    { persist = true }: StartDeviceOptions = {}
+  ): Promise<void> => {
     try {
       await this.audioVideo?.startAudioInput(device);
       this.selectedAudioInputDevice = device;
       this.publishSelectedAudioInputDevice();
+      if (persist) {
+        await this.saveDevicePreference('audioinput', device);
+      }
     } catch (error) {
       const newError = new Error(
         'MeetingManager failed to select audio input device.'
@@ -497,11 +985,17 @@ export class MeetingManager implements AudioVideoObserver {
     }
   };
 
-  startAudioOutputDevice = async (deviceId: string): Promise<void> => {
+  startAudioOutputDevice = async (
+    deviceId: string,
+    { persist = true }: StartDeviceOptions = {}
+  ): Promise<void> => {
     try {
       await this.audioVideo?.chooseAudioOutput(deviceId);
       this.selectedAudioOutputDevice = deviceId;
       this.publishSelectedAudioOutputDevice();
+      if (persist) {
+        await this.saveDevicePreference('audiooutput', deviceId);
+      }
     } catch (error) {
       console.error(
         'MeetingManager failed to select audio output device',
@@ -511,11 +1005,17 @@ export class MeetingManager implements AudioVideoObserver {
     }
   };
 
-  startVideoInputDevice = async (device: VideoInputDevice): Promise<void> => {
+  startVideoInputDevice = async (
+    device: VideoInputDevice,
+    { persist = true }: StartDeviceOptions = {}
+  ): Promise<void> => {
     try {
       await this.audioVideo?.startVideoInput(device);
       this.selectedVideoInputDevice = device;
       this.publishSelectedVideoInputDevice();
+      if (persist) {
+        await this.saveDevicePreference('videoinput', device);
+      }
     } catch (error) {
       const newError = new Error(
         'MeetingManager failed to select video input device.'
@@ -721,6 +1221,50 @@ export class MeetingManager implements AudioVideoObserver {
     }
   };
 
+  subscribeToDeviceChange = (
+    callback: (deviceChange: DeviceChange) => void
+  ): void => {
+    this.deviceChangeObservers.push(callback);
+  };
+
+  unsubscribeFromDeviceChange = (
+    callbackToRemove: (deviceChange: DeviceChange) => void
+  ): void => {
+    this.deviceChangeObservers = this.deviceChangeObservers.filter(
+      (callback) => callback !== callbackToRemove
+    );
+  };
+
+  /**
+   * Subscribes a callback that replaces the audio input device selected by the device change policy,
+   * such as to apply a transform device. When several are subscribed, the latest one is used.
+   */
+  subscribeToDeviceReplacement = (
+    callback: (
+      nextDevice: string,
+      currentDevice: AudioInputDevice | undefined
+    ) => Promise<AudioInputDevice>
+  ): void => {
+    this.deviceReplacementCallbacks.push(callback);
+  };
+
+  unsubscribeFromDeviceReplacement = (
+    callbackToRemove: (
+      nextDevice: string,
+      currentDevice: AudioInputDevice | undefined
+    ) => Promise<AudioInputDevice>
+  ): void => {
+    this.deviceReplacementCallbacks = this.deviceReplacementCallbacks.filter(
+      (callback) => callback !== callbackToRemove
+    );
+  };
+
+  private publishDeviceChange = (deviceChange: DeviceChange): void => {
+    for (const observer of this.deviceChangeObservers) {
+      observer(deviceChange);
+    }
+  };
+
   subscribeToEventDidReceive = (
     callback: (name: EventName, attributes: EventAttributes) => void
   ): void => {
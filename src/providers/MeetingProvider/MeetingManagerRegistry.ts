@@ -0,0 +1,125 @@
+// Copyright Amazon.com, Inc. or its affiliates. All Rights Reserved.
+// SPDX-License-Identifier: Apache-2.0
+
+import { DefaultBrowserBehavior, Logger } from 'amazon-chime-sdk-js';
+
+import MeetingManager from './MeetingManager';
+
+export class MeetingManagerRegistry {
+  private meetingManagers = new Map<string, MeetingManager>();
+
+  private logger: Logger;
+
+  constructor(logger: Logger) {
+    this.logger = logger;
+  }
+
+  get(meetingId: string): MeetingManager | undefined {
+    return this.meetingManagers.get(meetingId);
+  }
+
+  getOrCreate(meetingId: string): MeetingManager {
+    let meetingManager = this.meetingManagers.get(meetingId);
+
+    if (!meetingManager) {
+      meetingManager = new MeetingManager(this.logger);
+      this.meetingManagers.set(meetingId, meetingManager);
+    }
+
+    return meetingManager;
+  }
+
+  register(meetingId: string, meetingManager: MeetingManager): void {
+    const existing = this.meetingManagers.get(meetingId);
+    if (existing && existing !== meetingManager) {
+      throw new Error(
+        `MeetingManagerRegistry already has a MeetingManager for ${meetingId}`
+      );
+    }
+
+    this.meetingManagers.set(meetingId, meetingManager);
+  }
+
+  /**
+   * Removes the `MeetingManager` registered under `meetingId` without leaving its meeting,
+   * unless another `MeetingManager` was registered under this ID meanwhile.
+   */
+  unregister(meetingId: string, meetingManager: MeetingManager): void {
+    if (this.meetingManagers.get(meetingId) === meetingManager) {
+      this.meetingManagers.delete(meetingId);
+    }
+  }
+
+  /**
+   * Leaves the meeting of the `MeetingManager` registered under `meetingId`
+   * and removes it from the registry.
+   */
+  async remove(meetingId: string): Promise<void> {
+    const meetingManager = this.meetingManagers.get(meetingId);
+    if (!meetingManager) {
+      return;
+    }
+
+    this.meetingManagers.delete(meetingId);
+    await meetingManager.leave();
+  }
+
+  getMeetingIds(): string[] {
+    return Array.from(this.meetingManagers.keys());
+  }
+
+  /**
+   * Moves the selected audio input, audio output and video input devices
+   * from one meeting to another, e.g. when transferring to a breakout meeting.
+   * The local video tile is stopped in the source meeting and has to be started again in the target meeting.
+   */
+  transferDevices = async (
+    fromMeetingId: string,
+    toMeetingId: string
+  ): Promise<void> => {
+    const from = this.meetingManagers.get(fromMeetingId);
+    const to = this.meetingManagers.get(toMeetingId);
+
+    if (!from || !to) {
+      throw new Error(
+        `MeetingManagerRegistry cannot transfer devices from ${fromMeetingId} to ${toMeetingId}`
+      );
+    }
+
+    const {
+      selectedAudioInputDevice,
+      selectedAudioOutputDevice,
+      selectedVideoInputDevice,
+    } = from;
+
+    if (selectedAudioInputDevice) {
+      await from.audioVideo?.stopAudioInput();
+      await to.startAudioInputDevice(selectedAudioInputDevice, {
+        persist: false,
+      });
+    }
+
+    if (
+      selectedAudioOutputDevice &&
+      new DefaultBrowserBehavior().supportsSetSinkId()
+    ) {
+      await to.startAudioOutputDevice(selectedAudioOutputDevice, {
+        persist: false,
+      });
+    }
+
+    if (selectedVideoInputDevice) {
+      if (from.audioVideo?.hasStartedLocalVideoTile()) {
+        from.audioVideo.stopLocalVideoTile();
+      }
+      await from.stopVideoInputDevice();
+      to.selectVideoInputDevice(selectedVideoInputDevice);
+    }
+
+    this.logger.info(
+      `[MeetingManagerRegistry.transferDevices] moved devices from ${fromMeetingId} to ${toMeetingId}`
+    );
+  };
+}
+
+export default MeetingManagerRegistry;
@@ -2,8 +2,9 @@
 // SPDX-License-Identifier: Apache-2.0
 
 import { AudioInputDevice } from 'amazon-chime-sdk-js';
-import React, { createContext, useContext, useState } from 'react';
+import React, { createContext, useContext, useEffect, useState } from 'react';
 
+import { ContentShareError, ContentSharePolicy } from '../../types';
 import { AudioVideoProvider } from '../AudioVideoProvider';
 import { ContentShareProvider } from '../ContentShareProvider';
 import { DevicesProvider } from '../DevicesProvider';
@@ -12,8 +13,10 @@ import { LocalAudioOutputProvider } from '../LocalAudioOutputProvider';
 import { LocalVideoProvider } from '../LocalVideoProvider';
 import { useLogger } from '../LoggerProvider';
 import { MeetingEventProvider } from '../MeetingEventProvider';
+import { MeetingManagerRegistryContext } from '../MeetingManagerRegistryProvider';
 import { RemoteVideoTileProvider } from '../RemoteVideoTileProvider';
 import { RosterProvider } from '../RosterProvider';
+import { VideoPaginationProvider } from '../VideoPaginationProvider';
 import MeetingManager from './MeetingManager';
 
 interface Props {
@@ -21,27 +24,89 @@ interface Props {
     nextDevice: string,
     currentDevice: AudioInputDevice
   ) => Promise<AudioInputDevice>;
+  /** Called when the local content share could not start, or stopped because another attendee started sharing. */
+  onContentShareError?: (error: ContentShareError) => void;
+  /** Which content shares to show when several attendees share, it defaults to `NEWEST_WINS`. */
+  contentSharePolicy?: ContentSharePolicy;
+  /** How many content shares to show at once with the `ALLOW_CONCURRENT` policy, it defaults to `2`. */
+  maxConcurrentContentShares?: number;
   /** Pass a `MeetingManager` instance if you want to share this instance
    * across multiple different `MeetingProvider`s. This approach has limitations.
    * Check `meetingManager` prop documentation for more information.
    */
   meetingManager?: MeetingManager;
+  /** Pass a meeting ID to register this `MeetingProvider`'s `MeetingManager` in the surrounding
+   * `MeetingManagerRegistryProvider`. The registered `MeetingManager` is reused if one already exists for this ID,
+   * and it is unregistered when the `MeetingProvider` unmounts or the meeting ID changes.
+   */
+  meetingId?: string;
 }
 
 export const MeetingContext = createContext<MeetingManager | null>(null);
 
 export const MeetingProvider: React.FC<React.PropsWithChildren<Props>> = ({
   onDeviceReplacement,
+  onContentShareError,
+  contentSharePolicy,
+  maxConcurrentContentShares,
   meetingManager: meetingManagerProp,
+  meetingId,
   children,
 }) => {
   const logger = useLogger();
-  const [meetingManager] = useState(
+  const registry = useContext(MeetingManagerRegistryContext);
+  const [defaultMeetingManager] = useState(
     () => meetingManagerProp || new MeetingManager(logger)
   );
+  const [registration, setRegistration] = useState<{
+    meetingId: string;
+    meetingManager: MeetingManager;
+  } | null>(null);
+
+  if (meetingId && !registry) {
+    throw new Error(
+      'MeetingProvider with a meetingId must be used within MeetingManagerRegistryProvider'
+    );
+  }
+
+  useEffect(() => {
+    if (!meetingId || !registry) {
+      return;
+    }
+
+    let meetingManager: MeetingManager;
+    if (meetingManagerProp) {
+      registry.register(meetingId, meetingManagerProp);
+      meetingManager = meetingManagerProp;
+    } else {
+      meetingManager = registry.getOrCreate(meetingId);
+    }
+    setRegistration({ meetingId, meetingManager });
+
+    return (): void => {
+      registry.unregister(meetingId, meetingManager);
+      setRegistration(null);
+    };
+  }, [registry, meetingId]);
+
+  // Until the new meeting ID is registered, the MeetingManager of the previous one is not used
+  const registeredMeetingManager =
+    registration && registration.meetingId === meetingId
+      ? registration.meetingManager
+      : null;
+  const meetingManager = meetingId
+    ? registeredMeetingManager
+    : defaultMeetingManager;
+
+  // The children are rendered once the MeetingManager is registered,
+  // so that the MeetingProviders of other meeting IDs are registered too by then
+  if (!meetingManager) {
+    return null;
+  }
 
   return (
-    <MeetingContext.Provider value={meetingManager}>
+    // Remounts the providers when the meeting ID changes, so that they use its MeetingManager
+    <MeetingContext.Provider key={meetingId} value={meetingManager}>
       <MeetingEventProvider>
         <AudioVideoProvider>
           <DevicesProvider onDeviceReplacement={onDeviceReplacement}>
@@ -49,9 +114,15 @@ export const MeetingProvider: React.FC<React.PropsWithChildren<Props>> = ({
               <RemoteVideoTileProvider>
                 <LocalVideoProvider>
                   <LocalAudioOutputProvider>
-                    <ContentShareProvider>
+                    <ContentShareProvider
+                      onContentShareError={onContentShareError}
+                      policy={contentSharePolicy}
+                      maxConcurrentShares={maxConcurrentContentShares}
+                    >
                       <FeaturedVideoTileProvider>
-                        {children}
+                        <VideoPaginationProvider>
+                          {children}
+                        </VideoPaginationProvider>
                       </FeaturedVideoTileProvider>
                     </ContentShareProvider>
                   </LocalAudioOutputProvider>
@@ -65,8 +136,25 @@ export const MeetingProvider: React.FC<React.PropsWithChildren<Props>> = ({
   );
 };
 
-export const useMeetingManager = (): MeetingManager => {
-  const meetingManager = useContext(MeetingContext);
+export const useMeetingManager = (meetingId?: string): MeetingManager => {
+  const contextMeetingManager = useContext(MeetingContext);
+  const registry = useContext(MeetingManagerRegistryContext);
+
+  if (meetingId && !registry) {
+    throw new Error(
+      'useMeetingManager with a meetingId must be used within MeetingManagerRegistryProvider'
+    );
+  }
+
+  const meetingManager = meetingId
+    ? registry?.get(meetingId)
+    : contextMeetingManager;
+
+  if (meetingId && !meetingManager) {
+    throw new Error(
+      `useMeetingManager could not find a MeetingManager registered for ${meetingId}`
+    );
+  }
 
   if (!meetingManager) {
     throw new Error('useMeetingManager must be used within MeetingProvider');
@@ -3,7 +3,11 @@
 
 import { ActiveSpeakerPolicy, EventController } from 'amazon-chime-sdk-js';
 
-import { DeviceLabels, DeviceLabelTrigger } from '../../types';
+import {
+  DeviceChangePolicy,
+  DeviceLabels,
+  DeviceLabelTrigger,
+} from '../../types';
 
 export interface MeetingManagerJoinOptions {
   deviceLabels?: DeviceLabels | DeviceLabelTrigger;
@@ -11,6 +15,26 @@ export interface MeetingManagerJoinOptions {
   enableWebAudio?: boolean;
   activeSpeakerPolicy?: ActiveSpeakerPolicy;
   skipDeviceSelection?: boolean;
+  reconnectPolicy?: ReconnectPolicy;
+  deviceChangePolicy?: DeviceChangePolicy;
+}
+
+export interface StartDeviceOptions {
+  /** Whether to record the device as the preferred device. Defaults to `true`. */
+  persist?: boolean;
+}
+
+export interface ReconnectPolicy {
+  /** The maximum number of rejoin attempts before giving up. */
+  maxAttempts: number;
+  /** The delay before the first rejoin attempt. Defaults to 1000ms. */
+  initialDelayMs?: number;
+  /** The upper bound of the delay between two attempts. Defaults to 30000ms. */
+  maxDelayMs?: number;
+  /** The factor the delay is multiplied by after each attempt. Defaults to 2. */
+  backoffMultiplier?: number;
+  /** The fraction (0 to 1) of the delay randomly added or removed. Defaults to 0.2. */
+  jitter?: number;
 }
 
 export interface AttendeeResponse {
@@ -18,12 +42,30 @@ export interface AttendeeResponse {
   [attribute: string]: any;
 }
 
+export type AttendeeRequest = {
+  chimeAttendeeId: string;
+  externalUserId?: string;
+};
+
 export type ParsedJoinParams = {
   deviceLabels: DeviceLabels | DeviceLabelTrigger;
   eventController: EventController | undefined;
   enableWebAudio: boolean;
   activeSpeakerPolicy: ActiveSpeakerPolicy;
   skipDeviceSelection: boolean;
+  reconnectPolicy: ReconnectPolicy | undefined;
+  deviceChangePolicy: DeviceChangePolicy | undefined;
+};
+
+export type DeviceChange = {
+  kind: MediaDeviceKind;
+  policy: DeviceChangePolicy;
+  addedDevices: MediaDeviceInfo[];
+  removedDevices: MediaDeviceInfo[];
+  /** The device that was selected before the change, if any. */
+  previousDevice: MediaDeviceInfo | null;
+  /** The device that is selected after the change, if any. */
+  selectedDevice: MediaDeviceInfo | null;
 };
 
 export type FullDeviceInfoType = {
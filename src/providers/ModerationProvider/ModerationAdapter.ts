@@ -0,0 +1,40 @@
+// Copyright Amazon.com, Inc. or its affiliates. All Rights Reserved.
+// SPDX-License-Identifier: Apache-2.0
+
+/**
+ * Performs the moderation actions that need the Amazon Chime SDK APIs, such as `DeleteAttendee`,
+ * usually by calling the server of the application.
+ */
+export interface ModerationAdapter {
+  removeAttendee(meetingId: string, attendeeId: string): Promise<void>;
+  /** Stops the server from creating attendees for the meeting while it is locked. */
+  setMeetingLocked(meetingId: string, locked: boolean): Promise<void>;
+}
+
+export class InMemoryModerationAdapter implements ModerationAdapter {
+  private removedAttendees = new Map<string, string[]>();
+  private lockedMeetings = new Set<string>();
+
+  async removeAttendee(meetingId: string, attendeeId: string): Promise<void> {
+    this.removedAttendees.set(meetingId, [
+      ...this.getRemovedAttendees(meetingId),
+      attendeeId,
+    ]);
+  }
+
+  async setMeetingLocked(meetingId: string, locked: boolean): Promise<void> {
+    if (locked) {
+      this.lockedMeetings.add(meetingId);
+    } else {
+      this.lockedMeetings.delete(meetingId);
+    }
+  }
+
+  getRemovedAttendees(meetingId: string): string[] {
+    return this.removedAttendees.get(meetingId) || [];
+  }
+
+  isMeetingLocked(meetingId: string): boolean {
+    return this.lockedMeetings.has(meetingId);
+  }
+}
@@ -0,0 +1,276 @@
+// Copyright Amazon.com, Inc. or its affiliates. All Rights Reserved.
+// SPDX-License-Identifier: Apache-2.0
+
+import React, {
+  createContext,
+  useCallback,
+  useContext,
+  useEffect,
+  useMemo,
+  useRef,
+  useState,
+} from 'react';
+
+import { RosterType } from '../../types';
+import { useAudioVideo } from '../AudioVideoProvider';
+import { useDataMessages } from '../DataMessagesProvider';
+import { useMeetingManager } from '../MeetingProvider';
+import { useRosterState } from '../RosterProvider';
+import {
+  InMemoryModerationAdapter,
+  ModerationAdapter,
+} from './ModerationAdapter';
+import {
+  AttendeeRole,
+  canModerate,
+  getAttendeeRole,
+  isModerationEvent,
+  ModerationEvent,
+  ROLE_METADATA_KEY,
+} from './state';
+
+export interface ModerationState {
+  localRole: AttendeeRole;
+  meetingLocked: boolean;
+  getAttendeeRole: (attendeeId: string) => AttendeeRole;
+  /** Whether the local attendee can moderate the attendee. */
+  canModerateAttendee: (attendeeId: string) => boolean;
+  /** Asks the attendee to mute. The attendee is muted by their `ModerationProvider`. */
+  requestMute: (attendeeId: string) => void;
+  /** Asks every attendee the local attendee can moderate to mute. */
+  muteAll: () => void;
+  removeAttendee: (attendeeId: string) => Promise<void>;
+  lockMeeting: () => Promise<void>;
+  unlockMeeting: () => Promise<void>;
+}
+
+interface Props {
+  /** Performs the moderation actions that need the Amazon Chime SDK APIs. */
+  adapter: ModerationAdapter;
+  /** The data message topic of the moderation requests. Defaults to `moderation`. */
+  topic?: string;
+  /** Called after the local attendee is muted at the request of a host or moderator. */
+  onMuteRequest?: (moderatorAttendeeId: string) => void;
+}
+
+const ModerationContext = createContext<ModerationState | null>(null);
+
+export const ModerationProvider: React.FC<React.PropsWithChildren<Props>> = ({
+  adapter,
+  topic = 'moderation',
+  onMuteRequest,
+  children,
+}) => {
+  const meetingManager = useMeetingManager();
+  const audioVideo = useAudioVideo();
+  const { roster } = useRosterState();
+  const { messages: items, send } = useDataMessages<ModerationEvent>(topic);
+  const [meetingLocked, setMeetingLocked] = useState(false);
+  const processedItemsRef = useRef(new Set<string>());
+  const previousRosterRef = useRef<RosterType>({});
+  const rosterRef = useRef(roster);
+  rosterRef.current = roster;
+  const onMuteRequestRef = useRef(onMuteRequest);
+  onMuteRequestRef.current = onMuteRequest;
+
+  const localAttendeeId =
+    meetingManager.meetingSessionConfiguration?.credentials?.attendeeId || '';
+  const localRole = getAttendeeRole(roster[localAttendeeId]);
+
+  const getRole = useCallback(
+    (attendeeId: string): AttendeeRole => getAttendeeRole(roster[attendeeId]),
+    [roster]
+  );
+
+  const canModerateAttendee = useCallback(
+    (attendeeId: string): boolean =>
+      attendeeId !== localAttendeeId &&
+      canModerate(localRole, getRole(attendeeId)),
+    [localAttendeeId, localRole, getRole]
+  );
+
+  useEffect(() => {
+    if (!audioVideo) {
+      return;
+    }
+
+    const processedItems = processedItemsRef.current;
+
+    return () => {
+      processedItems.clear();
+      previousRosterRef.current = {};
+      setMeetingLocked(false);
+    };
+  }, [audioVideo]);
+
+  useEffect(() => {
+    items.forEach(({ messageId, payload, senderAttendeeId, local }) => {
+      const key = `${senderAttendeeId}/${messageId}`;
+      if (local || processedItemsRef.current.has(key)) {
+        return;
+      }
+
+      processedItemsRef.current.add(key);
+      if (!isModerationEvent(payload)) {
+        return;
+      }
+
+      // Check the role of the sender on the roster of the local attendee
+      const senderRole = getAttendeeRole(rosterRef.current[senderAttendeeId]);
+      const localAttendeeRole = getAttendeeRole(
+        rosterRef.current[localAttendeeId]
+      );
+
+      if (payload.type === 'lock') {
+        if (canModerate(senderRole, AttendeeRole.ATTENDEE)) {
+          setMeetingLocked(payload.locked);
+        }
+        return;
+      }
+
+      if (
+        (payload.type === 'muteAll' ||
+          payload.attendeeId === localAttendeeId) &&
+        canModerate(senderRole, localAttendeeRole)
+      ) {
+        audioVideo?.realtimeMuteLocalAudio();
+        onMuteRequestRef.current?.(senderAttendeeId);
+      }
+    });
+  }, [items]);
+
+  useEffect(() => {
+    const previousRoster = previousRosterRef.current;
+    previousRosterRef.current = roster;
+
+    // Announce the lock again to the attendees who just joined
+    const hasNewAttendees = Object.keys(roster).some(
+      (attendeeId) => !previousRoster[attendeeId]
+    );
+    if (
+      meetingLocked &&
+      hasNewAttendees &&
+      canModerate(localRole, AttendeeRole.ATTENDEE)
+    ) {
+      try {
+        send({ type: 'lock', locked: true });
+      } catch (error) {
+        // The lock is announced again when the next attendee joins
+      }
+    }
+  }, [roster]);
+
+  const assertCanModerate = useCallback(
+    (attendeeId?: string): void => {
+      const allowed = attendeeId
+        ? canModerateAttendee(attendeeId)
+        : canModerate(localRole, AttendeeRole.ATTENDEE);
+      if (!allowed) {
+        throw new Error(
+          `The local attendee cannot moderate ${attendeeId || 'the meeting'}`
+        );
+      }
+    },
+    [canModerateAttendee, localRole]
+  );
+
+  const requestMute = useCallback(
+    (attendeeId: string): void => {
+      assertCanModerate(attendeeId);
+      send({ type: 'mute', attendeeId });
+    },
+    [assertCanModerate, send]
+  );
+
+  const muteAll = useCallback((): void => {
+    assertCanModerate();
+    send({ type: 'muteAll' });
+  }, [assertCanModerate, send]);
+
+  const removeAttendee = useCallback(
+    async (attendeeId: string): Promise<void> => {
+      assertCanModerate(attendeeId);
+      const { meetingId } = meetingManager;
+      if (!meetingId) {
+        throw new Error('Cannot remove attendees before joining a meeting');
+      }
+
+      await adapter.removeAttendee(meetingId, attendeeId);
+    },
+    [assertCanModerate, adapter]
+  );
+
+  const setLocked = useCallback(
+    async (locked: boolean): Promise<void> => {
+      assertCanModerate();
+      const { meetingId } = meetingManager;
+      if (!meetingId) {
+        throw new Error('Cannot lock a meeting before joining it');
+      }
+
+      await adapter.setMeetingLocked(meetingId, locked);
+      setMeetingLocked(locked);
+      send({ type: 'lock', locked });
+    },
+    [assertCanModerate, adapter, send]
+  );
+
+  const lockMeeting = useCallback(
+    (): Promise<void> => setLocked(true),
+    [setLocked]
+  );
+
+  const unlockMeeting = useCallback(
+    (): Promise<void> => setLocked(false),
+    [setLocked]
+  );
+
+  const value = useMemo(
+    () => ({
+      localRole,
+      meetingLocked,
+      getAttendeeRole: getRole,
+      canModerateAttendee,
+      requestMute,
+      muteAll,
+      removeAttendee,
+      lockMeeting,
+      unlockMeeting,
+    }),
+    [
+      localRole,
+      meetingLocked,
+      getRole,
+      canModerateAttendee,
+      requestMute,
+      muteAll,
+      removeAttendee,
+      lockMeeting,
+      unlockMeeting,
+    ]
+  );
+
+  return (
+    <ModerationContext.Provider value={value}>
+      {children}
+    </ModerationContext.Provider>
+  );
+};
+
+export function useModeration(): ModerationState {
+  const state = useContext(ModerationContext);
+
+  if (!state) {
+    throw new Error('useModeration must be used within ModerationProvider');
+  }
+
+  return state;
+}
+
+export {
+  AttendeeRole,
+  getAttendeeRole,
+  InMemoryModerationAdapter,
+  ModerationAdapter,
+  ROLE_METADATA_KEY,
+};
@@ -0,0 +1,69 @@
+// Copyright Amazon.com, Inc. or its affiliates. All Rights Reserved.
+// SPDX-License-Identifier: Apache-2.0
+
+import { RosterAttendeeType } from '../../types';
+
+export enum AttendeeRole {
+  HOST = 'host',
+  MODERATOR = 'moderator',
+  ATTENDEE = 'attendee',
+}
+
+/** The key of the role in the metadata of the roster attendees. */
+export const ROLE_METADATA_KEY = 'role';
+
+export type ModerationEvent =
+  | { type: 'mute'; attendeeId: string }
+  | { type: 'muteAll' }
+  | { type: 'lock'; locked: boolean };
+
+/**
+ * Reads the role from the metadata of the attendee, set with `setAttendeeMetadata`
+ * or returned as `metadata` by `getAttendee`. Attendees without a known role are attendees.
+ */
+export function getAttendeeRole(attendee?: RosterAttendeeType): AttendeeRole {
+  const role = attendee?.metadata?.[ROLE_METADATA_KEY];
+  return role === AttendeeRole.HOST || role === AttendeeRole.MODERATOR
+    ? role
+    : AttendeeRole.ATTENDEE;
+}
+
+/**
+ * Hosts can moderate every other attendee, and moderators can moderate every attendee but hosts.
+ */
+export function canModerate(
+  moderatorRole: AttendeeRole,
+  attendeeRole: AttendeeRole
+): boolean {
+  switch (moderatorRole) {
+    case AttendeeRole.HOST:
+      return true;
+    case AttendeeRole.MODERATOR:
+      return attendeeRole !== AttendeeRole.HOST;
+    default:
+      return false;
+  }
+}
+
+/**
+ * Checks the payload received from other attendees before it is applied.
+ */
+export function isModerationEvent(
+  payload: unknown
+): payload is ModerationEvent {
+  const event = payload as ModerationEvent;
+  if (!event) {
+    return false;
+  }
+
+  switch (event.type) {
+    case 'mute':
+      return typeof event.attendeeId === 'string';
+    case 'muteAll':
+      return true;
+    case 'lock':
+      return typeof event.locked === 'boolean';
+    default:
+      return false;
+  }
+}
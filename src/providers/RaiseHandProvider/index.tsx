@@ -0,0 +1,339 @@
+// Copyright Amazon.com, Inc. or its affiliates. All Rights Reserved.
+// SPDX-License-Identifier: Apache-2.0
+
+import React, {
+  createContext,
+  useCallback,
+  useContext,
+  useEffect,
+  useMemo,
+  useRef,
+  useState,
+} from 'react';
+
+import { RosterType } from '../../types';
+import { useAudioVideo } from '../AudioVideoProvider';
+import { useDataMessages } from '../DataMessagesProvider';
+import { useMeetingManager } from '../MeetingProvider';
+import { useRosterState } from '../RosterProvider';
+import {
+  applyRaiseHandEvent,
+  DEFAULT_REACTIONS,
+  isRaiseHandEvent,
+  isReactionEvent,
+  RaisedHand,
+  RaiseHandEvent,
+  Reaction,
+  ReactionEvent,
+  removeDepartedHands,
+} from './state';
+
+export interface RaiseHandState {
+  /** The raised hands of the meeting, in the order they were raised. */
+  raisedHands: RaisedHand[];
+  isHandRaised: boolean;
+  /** Whether the local attendee is a host, who can lower the hands of other attendees. */
+  canLowerHands: boolean;
+  raiseHand: () => void;
+  /** Lowers the hand of the attendee, which defaults to the local attendee. */
+  lowerHand: (attendeeId?: string) => void;
+  lowerAllHands: () => void;
+  toggleHand: () => void;
+  /** The latest reaction of each attendee, until it expires. */
+  reactions: { [attendeeId: string]: Reaction };
+  allowedReactions: string[];
+  sendReaction: (emoji: string) => void;
+}
+
+export type AttendeeHandState = {
+  handRaised: boolean;
+  /** The position of the attendee in the queue of raised hands, starting at 1. */
+  queuePosition: number | null;
+  reaction: Reaction | null;
+};
+
+interface Props {
+  /** The data message topic of raised hands. Defaults to `raise-hand`. */
+  topic?: string;
+  /** The data message topic of reactions. Defaults to `reactions`. */
+  reactionTopic?: string;
+  /** Whether the attendee is a host, who can lower the hands of other attendees. Defaults to no host. */
+  isHost?: (attendeeId: string) => boolean;
+  /** The emojis attendees can react with. Other reactions are ignored. */
+  allowedReactions?: string[];
+  /** How long reactions are shown, in milliseconds. Defaults to `5000`. */
+  reactionDurationMs?: number;
+}
+
+const RaiseHandContext = createContext<RaiseHandState | null>(null);
+
+const noHost = (): boolean => false;
+
+export const RaiseHandProvider: React.FC<React.PropsWithChildren<Props>> = ({
+  topic = 'raise-hand',
+  reactionTopic = 'reactions',
+  isHost = noHost,
+  allowedReactions = DEFAULT_REACTIONS,
+  reactionDurationMs = 5000,
+  children,
+}) => {
+  const meetingManager = useMeetingManager();
+  const audioVideo = useAudioVideo();
+  const { roster } = useRosterState();
+  const { messages: items, send } = useDataMessages<RaiseHandEvent>(topic);
+  const { messages: reactionItems, send: sendReactionEvent } =
+    useDataMessages<ReactionEvent>(reactionTopic);
+  const [raisedHands, setRaisedHands] = useState<RaisedHand[]>([]);
+  const [reactions, setReactions] = useState<{
+    [attendeeId: string]: Reaction;
+  }>({});
+  const raisedHandsRef = useRef(raisedHands);
+  const processedItemsRef = useRef(new Set<string>());
+  const previousRosterRef = useRef<RosterType>({});
+  const reactionTimeoutsRef = useRef<{
+    [attendeeId: string]: ReturnType<typeof setTimeout>;
+  }>({});
+  const isHostRef = useRef(isHost);
+  isHostRef.current = isHost;
+
+  const localAttendeeId =
+    meetingManager.meetingSessionConfiguration?.credentials?.attendeeId || '';
+
+  const updateRaisedHands = useCallback(
+    (update: (currentQueue: RaisedHand[]) => RaisedHand[]): void => {
+      const nextQueue = update(raisedHandsRef.current);
+      if (nextQueue !== raisedHandsRef.current) {
+        raisedHandsRef.current = nextQueue;
+        setRaisedHands(nextQueue);
+      }
+    },
+    []
+  );
+
+  const showReaction = useCallback(
+    (attendeeId: string, reaction: Reaction): void => {
+      clearTimeout(reactionTimeoutsRef.current[attendeeId]);
+      setReactions((current) => ({ ...current, [attendeeId]: reaction }));
+      reactionTimeoutsRef.current[attendeeId] = setTimeout(() => {
+        delete reactionTimeoutsRef.current[attendeeId];
+        setReactions((current) => {
+          const nextReactions = { ...current };
+          delete nextReactions[attendeeId];
+          return nextReactions;
+        });
+      }, reactionDurationMs);
+    },
+    [reactionDurationMs]
+  );
+
+  useEffect(() => {
+    if (!audioVideo) {
+      return;
+    }
+
+    const processedItems = processedItemsRef.current;
+    const reactionTimeouts = reactionTimeoutsRef.current;
+
+    return () => {
+      processedItems.clear();
+      Object.keys(reactionTimeouts).forEach((attendeeId) => {
+        clearTimeout(reactionTimeouts[attendeeId]);
+        delete reactionTimeouts[attendeeId];
+      });
+      previousRosterRef.current = {};
+      updateRaisedHands(() => []);
+      setReactions({});
+    };
+  }, [audioVideo]);
+
+  useEffect(() => {
+    items.forEach(({ messageId, payload, senderAttendeeId, local }) => {
+      const key = `${senderAttendeeId}/${messageId}`;
+      if (local || processedItemsRef.current.has(key)) {
+        return;
+      }
+
+      processedItemsRef.current.add(key);
+      if (!isRaiseHandEvent(payload)) {
+        return;
+      }
+
+      updateRaisedHands((currentQueue) =>
+        applyRaiseHandEvent(
+          currentQueue,
+          payload,
+          senderAttendeeId,
+          isHostRef.current(senderAttendeeId)
+        )
+      );
+    });
+  }, [items, updateRaisedHands]);
+
+  useEffect(() => {
+    const now = Date.now();
+    reactionItems.forEach(
+      ({ messageId, payload, senderAttendeeId, timestampMs, local }) => {
+        const key = `${senderAttendeeId}/${messageId}`;
+        if (local || processedItemsRef.current.has(key)) {
+          return;
+        }
+
+        processedItemsRef.current.add(key);
+        // Skip the reactions that expired before they were received
+        if (
+          isReactionEvent(payload, allowedReactions) &&
+          now - timestampMs < reactionDurationMs
+        ) {
+          showReaction(senderAttendeeId, { emoji: payload.emoji, timestampMs });
+        }
+      }
+    );
+  }, [reactionItems, showReaction]);
+
+  useEffect(() => {
+    const previousRoster = previousRosterRef.current;
+    previousRosterRef.current = roster;
+    updateRaisedHands((currentQueue) =>
+      removeDepartedHands(currentQueue, previousRoster, roster)
+    );
+
+    // Announce the raised hand again to the attendees who just joined
+    const localRaisedHand = raisedHandsRef.current.find(
+      ({ attendeeId }) => attendeeId === localAttendeeId
+    );
+    const hasNewAttendees = Object.keys(roster).some(
+      (attendeeId) => !previousRoster[attendeeId]
+    );
+    if (localRaisedHand && hasNewAttendees) {
+      try {
+        send({ type: 'raise', raisedAt: localRaisedHand.raisedAt });
+      } catch (error) {
+        // The hand is announced again when the next attendee joins
+      }
+    }
+  }, [roster]);
+
+  const sendEvent = useCallback(
+    (event: RaiseHandEvent): void => {
+      const { senderAttendeeId } = send(event);
+      updateRaisedHands((currentQueue) =>
+        applyRaiseHandEvent(
+          currentQueue,
+          event,
+          senderAttendeeId,
+          isHostRef.current(senderAttendeeId)
+        )
+      );
+    },
+    [send, updateRaisedHands]
+  );
+
+  const isHandRaised = raisedHands.some(
+    ({ attendeeId }) => attendeeId === localAttendeeId
+  );
+  const canLowerHands = !!localAttendeeId && isHost(localAttendeeId);
+
+  const raiseHand = useCallback(
+    (): void => sendEvent({ type: 'raise', raisedAt: Date.now() }),
+    [sendEvent]
+  );
+
+  const lowerHand = useCallback(
+    (attendeeId: string = localAttendeeId): void =>
+      sendEvent({ type: 'lower', attendeeId }),
+    [sendEvent, localAttendeeId]
+  );
+
+  const lowerAllHands = useCallback(
+    (): void => sendEvent({ type: 'lowerAll' }),
+    [sendEvent]
+  );
+
+  const toggleHand = useCallback((): void => {
+    if (isHandRaised) {
+      lowerHand();
+    } else {
+      raiseHand();
+    }
+  }, [isHandRaised, lowerHand, raiseHand]);
+
+  const sendReaction = useCallback(
+    (emoji: string): void => {
+      if (!allowedReactions.includes(emoji)) {
+        throw new Error(`${emoji} is not an allowed reaction`);
+      }
+
+      const { senderAttendeeId, timestampMs } = sendReactionEvent({ emoji });
+      showReaction(senderAttendeeId, { emoji, timestampMs });
+    },
+    [allowedReactions, sendReactionEvent, showReaction]
+  );
+
+  const value = useMemo(
+    () => ({
+      raisedHands,
+      isHandRaised,
+      canLowerHands,
+      raiseHand,
+      lowerHand,
+      lowerAllHands,
+      toggleHand,
+      reactions,
+      allowedReactions,
+      sendReaction,
+    }),
+    [
+      raisedHands,
+      isHandRaised,
+      canLowerHands,
+      raiseHand,
+      lowerHand,
+      lowerAllHands,
+      toggleHand,
+      reactions,
+      allowedReactions,
+      sendReaction,
+    ]
+  );
+
+  return (
+    <RaiseHandContext.Provider value={value}>
+      {children}
+    </RaiseHandContext.Provider>
+  );
+};
+
+export function useRaiseHand(): RaiseHandState {
+  const state = useContext(RaiseHandContext);
+
+  if (!state) {
+    throw new Error('useRaiseHand must be used within RaiseHandProvider');
+  }
+
+  return state;
+}
+
+/**
+ * Returns the raised hand and the reaction of the attendee. Unlike `useRaiseHand`,
+ * it can be used outside of `RaiseHandProvider`, where no hand is raised.
+ */
+export function useAttendeeHandState(attendeeId?: string): AttendeeHandState {
+  const state = useContext(RaiseHandContext);
+
+  return useMemo(() => {
+    if (!state || !attendeeId) {
+      return { handRaised: false, queuePosition: null, reaction: null };
+    }
+
+    const index = state.raisedHands.findIndex(
+      (raisedHand) => raisedHand.attendeeId === attendeeId
+    );
+    return {
+      handRaised: index >= 0,
+      queuePosition: index >= 0 ? index + 1 : null,
+      reaction: state.reactions[attendeeId] || null,
+    };
+  }, [state, attendeeId]);
+}
+
+export { DEFAULT_REACTIONS, RaisedHand, Reaction };
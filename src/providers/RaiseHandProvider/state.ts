@@ -0,0 +1,108 @@
+// Copyright Amazon.com, Inc. or its affiliates. All Rights Reserved.
+// SPDX-License-Identifier: Apache-2.0
+
+import { RosterType } from '../../types';
+
+export type RaisedHand = {
+  attendeeId: string;
+  /** When the hand was raised, in milliseconds since the epoch on the clock of the attendee. */
+  raisedAt: number;
+};
+
+export type Reaction = {
+  emoji: string;
+  /** When the reaction was received, in milliseconds since the epoch. */
+  timestampMs: number;
+};
+
+export type RaiseHandEvent =
+  | { type: 'raise'; raisedAt: number }
+  | { type: 'lower'; attendeeId: string }
+  | { type: 'lowerAll' };
+
+export type ReactionEvent = { emoji: string };
+
+export const DEFAULT_REACTIONS = ['👍', '👏', '😂', '❤️', '😮', '🎉'];
+
+/**
+ * Checks the payload received from other attendees before it is applied to the queue.
+ */
+export function isRaiseHandEvent(payload: unknown): payload is RaiseHandEvent {
+  const event = payload as RaiseHandEvent;
+  if (!event) {
+    return false;
+  }
+
+  switch (event.type) {
+    case 'raise':
+      return typeof event.raisedAt === 'number' && isFinite(event.raisedAt);
+    case 'lower':
+      return typeof event.attendeeId === 'string';
+    case 'lowerAll':
+      return true;
+    default:
+      return false;
+  }
+}
+
+export function isReactionEvent(
+  payload: unknown,
+  allowedReactions: string[]
+): payload is ReactionEvent {
+  const event = payload as ReactionEvent;
+  return !!event && allowedReactions.includes(event.emoji);
+}
+
+const compareRaisedHands = (a: RaisedHand, b: RaisedHand): number =>
+  a.raisedAt - b.raisedAt || a.attendeeId.localeCompare(b.attendeeId);
+
+/**
+ * Applies the event of the sender to the queue, which is ordered by the time the hands were raised.
+ * Attendees can only raise and lower their own hand, unless they are hosts.
+ */
+export function applyRaiseHandEvent(
+  queue: RaisedHand[],
+  event: RaiseHandEvent,
+  senderAttendeeId: string,
+  senderIsHost: boolean
+): RaisedHand[] {
+  switch (event.type) {
+    case 'raise':
+      if (queue.some(({ attendeeId }) => attendeeId === senderAttendeeId)) {
+        return queue;
+      }
+      return [
+        ...queue,
+        { attendeeId: senderAttendeeId, raisedAt: event.raisedAt },
+      ].sort(compareRaisedHands);
+    case 'lower':
+      if (
+        (event.attendeeId !== senderAttendeeId && !senderIsHost) ||
+        !queue.some(({ attendeeId }) => attendeeId === event.attendeeId)
+      ) {
+        return queue;
+      }
+      return queue.filter(({ attendeeId }) => attendeeId !== event.attendeeId);
+    case 'lowerAll':
+      return senderIsHost && queue.length ? [] : queue;
+    default:
+      return queue;
+  }
+}
+
+/**
+ * Removes the hands of the attendees who were in the previous roster but left the meeting.
+ * Hands raised by attendees who are not in the roster yet are kept.
+ */
+export function removeDepartedHands(
+  queue: RaisedHand[],
+  previousRoster: RosterType,
+  roster: RosterType
+): RaisedHand[] {
+  const departed = queue.filter(
+    ({ attendeeId }) => previousRoster[attendeeId] && !roster[attendeeId]
+  );
+  return departed.length
+    ? queue.filter((raisedHand) => !departed.includes(raisedHand))
+    : queue;
+}
@@ -7,12 +7,19 @@ import React, { createContext, useContext, useEffect, useReducer } from 'react';
 import { useAudioVideo } from '../AudioVideoProvider';
 import { initialState, reducer, State, VideoTileActionType } from './state';
 
+interface Props {
+  /** The ID of a meeting registered in the `MeetingManagerRegistryProvider`.
+   * By default, the remote video tiles of the surrounding `MeetingProvider` are provided.
+   */
+  meetingId?: string;
+}
+
 const Context = createContext<State | null>(null);
 
 export const RemoteVideoTileProvider: React.FC<
-  React.PropsWithChildren<unknown>
-> = ({ children }) => {
-  const audioVideo = useAudioVideo();
+  React.PropsWithChildren<Props>
+> = ({ meetingId, children }) => {
+  const audioVideo = useAudioVideo(meetingId);
   const [state, dispatch] = useReducer(reducer, initialState);
 
   useEffect(() => {
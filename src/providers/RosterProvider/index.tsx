@@ -2,37 +2,210 @@
 // SPDX-License-Identifier: Apache-2.0
 
 import { DefaultModality } from 'amazon-chime-sdk-js';
-import React, { useContext, useEffect, useMemo, useRef, useState } from 'react';
+import React, {
+  useCallback,
+  useContext,
+  useEffect,
+  useMemo,
+  useRef,
+  useState,
+} from 'react';
 
-import { RosterAttendeeType, RosterType } from '../../types';
+import { MeetingStatus, RosterAttendeeType, RosterType } from '../../types';
 import { useAudioVideo } from '../AudioVideoProvider';
 import { useMeetingManager } from '../MeetingProvider';
+import {
+  addToRosterHistory,
+  AttendanceRecord,
+  AttendanceReportFormat,
+  formatAttendanceReport,
+  getAttendanceRecords,
+  RosterHistoryEntry,
+  RosterSelectorOptions,
+  RosterSortBy,
+  selectRosterAttendees,
+} from './state';
 
 interface RosterContextValue {
   roster: RosterType;
+  setAttendeeMetadata: (
+    chimeAttendeeId: string,
+    metadata: { [key: string]: unknown }
+  ) => void;
+}
+
+export interface RosterState extends RosterContextValue {
+  /** The attendees of the roster, filtered and sorted with the `useRosterState` options. */
+  attendees: RosterAttendeeType[];
+}
+
+export interface RosterHistoryState {
+  /** The attendees who left the meeting, most recent first. */
+  departedAttendees: RosterHistoryEntry[];
+  getAttendanceRecords: () => AttendanceRecord[];
+  exportAttendanceReport: (format: AttendanceReportFormat) => string;
+  clearHistory: () => void;
+}
+
+interface Props {
+  /** The ID of a meeting registered in the `MeetingManagerRegistryProvider`.
+   * By default, the roster of the surrounding `MeetingProvider` is provided.
+   */
+  meetingId?: string;
+  /** The maximum number of departed attendees kept in the roster history. Defaults to `100`. */
+  historySize?: number;
 }
 
 const RosterContext = React.createContext<RosterContextValue | null>(null);
+const RosterHistoryContext = React.createContext<RosterHistoryState | null>(
+  null
+);
 
-export const RosterProvider: React.FC<React.PropsWithChildren<unknown>> = ({
+export const RosterProvider: React.FC<React.PropsWithChildren<Props>> = ({
+  meetingId,
+  historySize = 100,
   children,
 }) => {
-  const meetingManager = useMeetingManager();
-  const audioVideo = useAudioVideo();
+  const meetingManager = useMeetingManager(meetingId);
+  const audioVideo = useAudioVideo(meetingId);
   const rosterRef = useRef<RosterType>({});
   const [roster, setRoster] = useState<RosterType>({});
+  const historyRef = useRef<RosterHistoryEntry[]>([]);
+  const [departedAttendees, setDepartedAttendees] = useState<
+    RosterHistoryEntry[]
+  >([]);
+  // The time spent in the meeting before the current session of each attendee
+  const previousTimeInMeetingRef = useRef<{
+    [chimeAttendeeId: string]: number;
+  }>({});
+  // The attendees of the previous meeting session while the meeting manager rejoins the meeting
+  const rejoiningRosterRef = useRef<RosterType>({});
+  const historySizeRef = useRef(historySize);
+  historySizeRef.current = historySize;
+
+  const recordDeparture = useCallback(
+    (attendee: RosterAttendeeType, dropped: boolean): void => {
+      const { chimeAttendeeId, joinedAt } = attendee;
+      const leftAt = Date.now();
+      const timeInMeetingMs =
+        (previousTimeInMeetingRef.current[chimeAttendeeId] || 0) +
+        leftAt -
+        (joinedAt ?? leftAt);
+      previousTimeInMeetingRef.current[chimeAttendeeId] = timeInMeetingMs;
+
+      historyRef.current = addToRosterHistory(
+        historyRef.current,
+        {
+          ...attendee,
+          present: false,
+          dropped,
+          leftAt,
+          timeInMeetingMs,
+        },
+        historySizeRef.current
+      );
+      setDepartedAttendees(historyRef.current);
+    },
+    []
+  );
+
+  const recordReturn = useCallback((chimeAttendeeId: string): void => {
+    if (
+      !historyRef.current.some(
+        (entry) => entry.chimeAttendeeId === chimeAttendeeId
+      )
+    ) {
+      return;
+    }
+
+    historyRef.current = historyRef.current.filter(
+      (entry) => entry.chimeAttendeeId !== chimeAttendeeId
+    );
+    setDepartedAttendees(historyRef.current);
+  }, []);
+
+  const updateAttendee = useCallback(
+    (
+      chimeAttendeeId: string,
+      attributes: Partial<RosterAttendeeType>
+    ): void => {
+      const attendee = rosterRef.current[chimeAttendeeId];
+      if (!attendee) {
+        return;
+      }
+
+      const updatedAttendee = { ...attendee, ...attributes };
+      rosterRef.current[chimeAttendeeId] = updatedAttendee;
+      setRoster((oldRoster) => ({
+        ...oldRoster,
+        [chimeAttendeeId]: updatedAttendee,
+      }));
+    },
+    []
+  );
+
+  const setAttendeeMetadata = useCallback(
+    (chimeAttendeeId: string, metadata: { [key: string]: unknown }): void => {
+      updateAttendee(chimeAttendeeId, {
+        metadata: {
+          ...rosterRef.current[chimeAttendeeId]?.metadata,
+          ...metadata,
+        },
+      });
+    },
+    [updateAttendee]
+  );
 
   useEffect(() => {
     if (!audioVideo) {
       return;
     }
 
+    const volumeIndicatorCallback = (
+      chimeAttendeeId: string,
+      volume: number | null,
+      muted: boolean | null
+    ): void => {
+      if (
+        muted === null ||
+        rosterRef.current[chimeAttendeeId]?.muted === muted
+      ) {
+        return;
+      }
+
+      updateAttendee(chimeAttendeeId, { muted });
+    };
+
+    const resolveAttendeeInfo = async (attendeeId: string): Promise<void> => {
+      const externalData = await meetingManager.attendeeInfoResolver.resolve(
+        attendeeId,
+        rosterRef.current[attendeeId]?.externalUserId
+      );
+
+      // updateAttendee makes sure that the attendee is still on the roster
+      if (externalData) {
+        updateAttendee(attendeeId, externalData);
+      }
+    };
+
     const rosterUpdateCallback = async (
       chimeAttendeeId: string,
       present: boolean,
-      externalUserId?: string
+      externalUserId?: string,
+      dropped?: boolean
     ): Promise<void> => {
+      const modality = new DefaultModality(chimeAttendeeId);
+      if (modality.hasModality(DefaultModality.MODALITY_CONTENT)) {
+        updateAttendee(modality.base(), { sharingContent: present });
+        return;
+      }
+
       if (!present) {
+        audioVideo.realtimeUnsubscribeFromVolumeIndicator(
+          chimeAttendeeId,
+          volumeIndicatorCallback
+        );
+        const departedAttendee = rosterRef.current[chimeAttendeeId];
         delete rosterRef.current[chimeAttendeeId];
 
         setRoster((currentRoster: RosterType) => {
@@ -40,6 +213,10 @@ export const RosterProvider: React.FC<React.PropsWithChildren<unknown>> = ({
           return { ...rest };
         });
 
+        if (departedAttendee) {
+          recordDeparture(departedAttendee, !!dropped);
+        }
+
         return;
       }
 
@@ -53,13 +230,27 @@ export const RosterProvider: React.FC<React.PropsWithChildren<unknown>> = ({
         return;
       }
 
-      let attendee: RosterAttendeeType = { chimeAttendeeId };
+      // Attendees who were in the meeting before a rejoin keep their join time and info
+      const previousAttendee = rejoiningRosterRef.current[chimeAttendeeId];
+      delete rejoiningRosterRef.current[chimeAttendeeId];
+      const attendee: RosterAttendeeType = {
+        ...previousAttendee,
+        chimeAttendeeId,
+        joinedAt: previousAttendee?.joinedAt ?? Date.now(),
+        present: true,
+        dropped: false,
+      };
 
       if (externalUserId) {
         attendee.externalUserId = externalUserId;
       }
 
       rosterRef.current[attendeeId] = attendee;
+      recordReturn(attendeeId);
+      audioVideo.realtimeSubscribeToVolumeIndicator(
+        attendeeId,
+        volumeIndicatorCallback
+      );
 
       // Update the roster first before waiting to fetch attendee info
       setRoster((oldRoster) => ({
@@ -67,51 +258,145 @@ export const RosterProvider: React.FC<React.PropsWithChildren<unknown>> = ({
         [attendeeId]: attendee,
       }));
 
-      if (meetingManager.getAttendee) {
-        const externalData = await meetingManager.getAttendee(
-          attendeeId,
-          externalUserId
-        );
+      await resolveAttendeeInfo(attendeeId);
+    };
 
-        // Make sure that the attendee is still on the roster
-        if (!rosterRef.current[attendeeId]) {
-          return;
-        }
-        attendee = { ...attendee, ...externalData };
-        setRoster((oldRoster) => ({
-          ...oldRoster,
-          [attendeeId]: attendee,
-        }));
-      }
+    const invalidationCallback = (chimeAttendeeId: string | null): void => {
+      const attendeeIds = chimeAttendeeId
+        ? [chimeAttendeeId]
+        : Object.keys(rosterRef.current);
+      attendeeIds.forEach(resolveAttendeeInfo);
+    };
+
+    const activeSpeakerCallback = (activeSpeakers: string[]): void => {
+      const now = Date.now();
+      activeSpeakers.forEach((chimeAttendeeId) =>
+        updateAttendee(chimeAttendeeId, { lastSpokeAt: now })
+      );
     };
 
     audioVideo.realtimeSubscribeToAttendeeIdPresence(rosterUpdateCallback);
+    meetingManager.subscribeToActiveSpeaker(activeSpeakerCallback);
+    meetingManager.attendeeInfoResolver.subscribeToInvalidation(
+      invalidationCallback
+    );
 
     return () => {
+      // A rejoin replaces the meeting session, but the attendees did not leave the meeting
+      const rejoining =
+        meetingManager.meetingStatus === MeetingStatus.Rejoining &&
+        !!meetingManager.audioVideo;
+      Object.values(rosterRef.current).forEach((attendee) => {
+        audioVideo.realtimeUnsubscribeFromVolumeIndicator(
+          attendee.chimeAttendeeId,
+          volumeIndicatorCallback
+        );
+        if (rejoining) {
+          rejoiningRosterRef.current[attendee.chimeAttendeeId] = attendee;
+        }
+      });
+
+      if (!rejoining) {
+        // Keep the attendees in the history, so that the attendance report is available after the meeting
+        Object.values({
+          ...rejoiningRosterRef.current,
+          ...rosterRef.current,
+        }).forEach((attendee) => recordDeparture(attendee, false));
+        rejoiningRosterRef.current = {};
+      }
       setRoster({});
       rosterRef.current = {};
       audioVideo.realtimeUnsubscribeToAttendeeIdPresence(rosterUpdateCallback);
+      meetingManager.unsubscribeFromActiveSpeaker(activeSpeakerCallback);
+      meetingManager.attendeeInfoResolver.unsubscribeFromInvalidation(
+        invalidationCallback
+      );
     };
   }, [audioVideo]);
 
   const value = useMemo(
     () => ({
       roster,
+      setAttendeeMetadata,
+    }),
+    [roster, setAttendeeMetadata]
+  );
+
+  const getRecords = useCallback(
+    (): AttendanceRecord[] =>
+      getAttendanceRecords(
+        { ...rejoiningRosterRef.current, ...rosterRef.current },
+        historyRef.current,
+        previousTimeInMeetingRef.current,
+        Date.now()
+      ),
+    []
+  );
+
+  const exportAttendanceReport = useCallback(
+    (format: AttendanceReportFormat): string =>
+      formatAttendanceReport(getRecords(), format),
+    [getRecords]
+  );
+
+  const clearHistory = useCallback((): void => {
+    historyRef.current = [];
+    previousTimeInMeetingRef.current = {};
+    setDepartedAttendees([]);
+  }, []);
+
+  const historyValue = useMemo(
+    () => ({
+      departedAttendees,
+      getAttendanceRecords: getRecords,
+      exportAttendanceReport,
+      clearHistory,
     }),
-    [roster]
+    [departedAttendees, getRecords, exportAttendanceReport, clearHistory]
   );
 
   return (
-    <RosterContext.Provider value={value}>{children}</RosterContext.Provider>
+    <RosterContext.Provider value={value}>
+      <RosterHistoryContext.Provider value={historyValue}>
+        {children}
+      </RosterHistoryContext.Provider>
+    </RosterContext.Provider>
   );
 };
 
-export function useRosterState(): RosterContextValue {
+export function useRosterState({
+  sortBy,
+  filter,
+  search,
+}: RosterSelectorOptions = {}): RosterState {
   const state = useContext(RosterContext);
 
   if (!state) {
     throw new Error('userRosterState must be used within RosterProvider');
   }
 
+  const attendees = useMemo(
+    () => selectRosterAttendees(state.roster, { sortBy, filter, search }),
+    [state.roster, sortBy, filter, search]
+  );
+
+  return { ...state, attendees };
+}
+
+export function useRosterHistory(): RosterHistoryState {
+  const state = useContext(RosterHistoryContext);
+
+  if (!state) {
+    throw new Error('useRosterHistory must be used within RosterProvider');
+  }
+
   return state;
 }
+
+export {
+  AttendanceRecord,
+  AttendanceReportFormat,
+  RosterHistoryEntry,
+  RosterSelectorOptions,
+  RosterSortBy,
+};
@@ -0,0 +1,204 @@
+// Copyright Amazon.com, Inc. or its affiliates. All Rights Reserved.
+// SPDX-License-Identifier: Apache-2.0
+
+import { RosterAttendeeType, RosterType } from '../../types';
+
+export enum RosterSortBy {
+  ALPHABETICAL = 'ALPHABETICAL',
+  JOIN_ORDER = 'JOIN_ORDER',
+  SPEAKING_RECENCY = 'SPEAKING_RECENCY',
+  MUTED_FIRST = 'MUTED_FIRST',
+}
+
+export type RosterSelectorOptions = {
+  sortBy?: RosterSortBy;
+  filter?: (attendee: RosterAttendeeType) => boolean;
+  /** Case-insensitive text matched against the name and external user ID. */
+  search?: string;
+};
+
+const getDisplayName = (attendee: RosterAttendeeType): string =>
+  attendee.name || attendee.externalUserId || attendee.chimeAttendeeId;
+
+const compareNames = (a: RosterAttendeeType, b: RosterAttendeeType): number =>
+  getDisplayName(a).localeCompare(getDisplayName(b));
+
+const comparators: Record<
+  RosterSortBy,
+  (a: RosterAttendeeType, b: RosterAttendeeType) => number
+> = {
+  [RosterSortBy.ALPHABETICAL]: compareNames,
+  [RosterSortBy.JOIN_ORDER]: (a, b) =>
+    (a.joinedAt ?? Infinity) - (b.joinedAt ?? Infinity) || compareNames(a, b),
+  [RosterSortBy.SPEAKING_RECENCY]: (a, b) =>
+    (b.lastSpokeAt ?? 0) - (a.lastSpokeAt ?? 0) || compareNames(a, b),
+  [RosterSortBy.MUTED_FIRST]: (a, b) =>
+    Number(!!b.muted) - Number(!!a.muted) || compareNames(a, b),
+};
+
+const matchesSearch = (attendee: RosterAttendeeType, search: string): boolean =>
+  [attendee.name, attendee.externalUserId].some((value) =>
+    value?.toLowerCase().includes(search)
+  );
+
+/**
+ * Returns the attendees of the roster that pass the filter and match the search,
+ * sorted by the given order. The attendees keep their roster order when no order is given.
+ */
+export function selectRosterAttendees(
+  roster: RosterType,
+  { sortBy, filter, search }: RosterSelectorOptions = {}
+): RosterAttendeeType[] {
+  let attendees = Object.values(roster);
+
+  if (filter) {
+    attendees = attendees.filter(filter);
+  }
+
+  const normalizedSearch = search?.trim().toLowerCase();
+  if (normalizedSearch) {
+    attendees = attendees.filter((attendee) =>
+      matchesSearch(attendee, normalizedSearch)
+    );
+  }
+
+  if (sortBy) {
+    attendees.sort(comparators[sortBy]);
+  }
+
+  return attendees;
+}
+
+export type RosterHistoryEntry = RosterAttendeeType & {
+  leftAt: number;
+  dropped: boolean;
+  /** The total time in the meeting, across every time the attendee joined. */
+  timeInMeetingMs: number;
+};
+
+export enum AttendanceReportFormat {
+  JSON = 'JSON',
+  CSV = 'CSV',
+}
+
+export type AttendanceRecord = {
+  chimeAttendeeId: string;
+  externalUserId?: string;
+  name?: string;
+  /** When the attendee last joined, in milliseconds since the epoch. */
+  joinedAt?: number;
+  leftAt?: number;
+  present: boolean;
+  dropped: boolean;
+  timeInMeetingMs: number;
+};
+
+/**
+ * Adds the entry at the start of the history, replacing a previous entry of the same attendee,
+ * and drops the oldest entries beyond `maxSize`.
+ */
+export function addToRosterHistory(
+  history: RosterHistoryEntry[],
+  entry: RosterHistoryEntry,
+  maxSize: number
+): RosterHistoryEntry[] {
+  return [
+    entry,
+    ...history.filter(
+      ({ chimeAttendeeId }) => chimeAttendeeId !== entry.chimeAttendeeId
+    ),
+  ].slice(0, maxSize);
+}
+
+/**
+ * Returns one record per present attendee, followed by one record per departed attendee.
+ * The time in the meeting of present attendees includes the time of their previous sessions.
+ */
+export function getAttendanceRecords(
+  roster: RosterType,
+  history: RosterHistoryEntry[],
+  previousTimeInMeetingMs: { [chimeAttendeeId: string]: number },
+  now: number
+): AttendanceRecord[] {
+  const presentRecords = Object.values(roster).map(
+    ({ chimeAttendeeId, externalUserId, name, joinedAt }) => ({
+      chimeAttendeeId,
+      externalUserId,
+      name,
+      joinedAt,
+      present: true,
+      dropped: false,
+      timeInMeetingMs:
+        (previousTimeInMeetingMs[chimeAttendeeId] || 0) +
+        now -
+        (joinedAt ?? now),
+    })
+  );
+  const departedRecords = history.map(
+    ({
+      chimeAttendeeId,
+      externalUserId,
+      name,
+      joinedAt,
+      leftAt,
+      dropped,
+      timeInMeetingMs,
+    }) => ({
+      chimeAttendeeId,
+      externalUserId,
+      name,
+      joinedAt,
+      leftAt,
+      present: false,
+      dropped,
+      timeInMeetingMs,
+    })
+  );
+
+  return [...presentRecords, ...departedRecords];
+}
+
+const ATTENDANCE_CSV_COLUMNS: (keyof AttendanceRecord)[] = [
+  'chimeAttendeeId',
+  'externalUserId',
+  'name',
+  'joinedAt',
+  'leftAt',
+  'present',
+  'dropped',
+  'timeInMeetingMs',
+];
+
+const formatCsvValue = (
+  value: AttendanceRecord[keyof AttendanceRecord]
+): string => {
+  if (value === undefined) {
+    return '';
+  }
+
+  let text = String(value);
+  // Prevent spreadsheet applications from evaluating names as formulas.
+  if (/^[=+\-@]/.test(text)) {
+    text = `'${text}`;
+  }
+
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export function formatAttendanceReport(
+  records: AttendanceRecord[],
+  format: AttendanceReportFormat
+): string {
+  if (format === AttendanceReportFormat.JSON) {
+    return JSON.stringify(records, null, 2);
+  }
+
+  return [
+    ATTENDANCE_CSV_COLUMNS.join(','),
+    ...records.map((record) =>
+      ATTENDANCE_CSV_COLUMNS.map((column) =>
+        formatCsvValue(record[column])
+      ).join(',')
+    ),
+  ].join('\n');
+}
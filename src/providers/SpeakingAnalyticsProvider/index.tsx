@@ -0,0 +1,290 @@
+// Copyright Amazon.com, Inc. or its affiliates. All Rights Reserved.
+// SPDX-License-Identifier: Apache-2.0
+
+import React, {
+  createContext,
+  useCallback,
+  useContext,
+  useEffect,
+  useMemo,
+  useRef,
+  useState,
+} from 'react';
+
+import { useAudioVideo } from '../AudioVideoProvider';
+import { useMeetingManager } from '../MeetingProvider';
+import { useRosterState } from '../RosterProvider';
+import {
+  addVolumeSample,
+  createSpeakingAnalytics,
+  getSpeakerStats,
+  SilenceStats,
+  SpeakerStats,
+  SpeakingAnalytics,
+  updateSpeakingState,
+  VolumeSample,
+} from './state';
+
+export type AttendeeSpeakingStats = SpeakerStats & {
+  /** The last known name of the attendee, also kept after they leave. */
+  name?: string;
+};
+
+export interface SpeakingStatsState {
+  /** The stats of the attendees who spoke, most talk time first. */
+  speakers: AttendeeSpeakingStats[];
+  silence: SilenceStats;
+  /** The time since the stats started, in milliseconds. */
+  durationMs: number;
+  /** The recent volume samples of the attendee, oldest first. */
+  getVolumeHistory: (attendeeId: string) => VolumeSample[];
+  resetStats: () => void;
+}
+
+interface Props {
+  /** The volume from which an attendee is considered speaking, from 0 to 1. Defaults to `0.2`. */
+  speakingThreshold?: number;
+  /** Pauses shorter than this are part of the same turn, in milliseconds. Defaults to `1000`. */
+  turnGapMs?: number;
+  /** Silences shorter than this are not counted as gaps, in milliseconds. Defaults to `3000`. */
+  minSilenceGapMs?: number;
+  /** The maximum number of volume samples kept per attendee. Defaults to `300`. */
+  volumeHistorySize?: number;
+  /** How often the stats are updated while attendees speak, in milliseconds. Defaults to `1000`. */
+  updateIntervalMs?: number;
+}
+
+type VolumeState = {
+  volume: number;
+  muted: boolean;
+};
+
+type VolumeIndicatorCallback = (
+  attendeeId: string,
+  volume: number | null,
+  muted: boolean | null
+) => void;
+
+const SpeakingStatsContext = createContext<SpeakingStatsState | null>(null);
+
+export const SpeakingAnalyticsProvider: React.FC<
+  React.PropsWithChildren<Props>
+> = ({
+  speakingThreshold = 0.2,
+  turnGapMs = 1000,
+  minSilenceGapMs = 3000,
+  volumeHistorySize = 300,
+  updateIntervalMs = 1000,
+  children,
+}) => {
+  const meetingManager = useMeetingManager();
+  const audioVideo = useAudioVideo();
+  const { roster } = useRosterState();
+  const analyticsRef = useRef<SpeakingAnalytics>(
+    createSpeakingAnalytics(Date.now())
+  );
+  const volumeStatesRef = useRef<{ [attendeeId: string]: VolumeState }>({});
+  const volumeHistoriesRef = useRef<{ [attendeeId: string]: VolumeSample[] }>(
+    {}
+  );
+  const callbacksRef = useRef<{
+    [attendeeId: string]: VolumeIndicatorCallback;
+  }>({});
+  const namesRef = useRef<{ [attendeeId: string]: string }>({});
+  // The meeting of the stats, so that a rejoin of the same meeting keeps them
+  const statsMeetingIdRef = useRef<string | null>(null);
+  const optionsRef = useRef({
+    speakingThreshold,
+    turnGapMs,
+    minSilenceGapMs,
+    volumeHistorySize,
+  });
+  optionsRef.current = {
+    speakingThreshold,
+    turnGapMs,
+    minSilenceGapMs,
+    volumeHistorySize,
+  };
+  const [snapshot, setSnapshot] = useState(() => ({
+    analytics: analyticsRef.current,
+    now: Date.now(),
+  }));
+
+  const publish = useCallback((): void => {
+    setSnapshot({ analytics: analyticsRef.current, now: Date.now() });
+  }, []);
+
+  const setSpeaking = useCallback(
+    (attendeeId: string, speaking: boolean): void => {
+      const { turnGapMs, minSilenceGapMs } = optionsRef.current;
+      analyticsRef.current = updateSpeakingState(
+        analyticsRef.current,
+        attendeeId,
+        speaking,
+        Date.now(),
+        { turnGapMs, minSilenceGapMs }
+      );
+    },
+    []
+  );
+
+  const volumeIndicatorCallback = useCallback(
+    (
+      attendeeId: string,
+      volume: number | null,
+      muted: boolean | null
+    ): void => {
+      // The volume indicator only reports the values that changed
+      const previousState = volumeStatesRef.current[attendeeId] || {
+        volume: 0,
+        muted: false,
+      };
+      const state = {
+        volume: volume ?? previousState.volume,
+        muted: muted ?? previousState.muted,
+      };
+      volumeStatesRef.current[attendeeId] = state;
+
+      const { speakingThreshold, volumeHistorySize } = optionsRef.current;
+      volumeHistoriesRef.current[attendeeId] = addVolumeSample(
+        volumeHistoriesRef.current[attendeeId] || [],
+        { timestampMs: Date.now(), volume: state.muted ? 0 : state.volume },
+        volumeHistorySize
+      );
+      const previousAnalytics = analyticsRef.current;
+      setSpeaking(
+        attendeeId,
+        !state.muted && state.volume >= speakingThreshold
+      );
+      if (analyticsRef.current !== previousAnalytics) {
+        publish();
+      }
+    },
+    [setSpeaking, publish]
+  );
+
+  useEffect(() => {
+    if (!audioVideo) {
+      return;
+    }
+
+    // Keep the stats of the previous meeting until the next one starts, for summaries
+    const { meetingId } = meetingManager;
+    if (meetingId !== statsMeetingIdRef.current) {
+      statsMeetingIdRef.current = meetingId;
+      analyticsRef.current = createSpeakingAnalytics(Date.now());
+      volumeStatesRef.current = {};
+      volumeHistoriesRef.current = {};
+      namesRef.current = {};
+      publish();
+    }
+
+    const callbacks = callbacksRef.current;
+    // Update the talk time of the current turns
+    const interval = setInterval(() => {
+      if (
+        Object.values(analyticsRef.current.speakers).some(
+          ({ speakingSince }) => speakingSince !== null
+        )
+      ) {
+        publish();
+      }
+    }, updateIntervalMs);
+
+    return () => {
+      clearInterval(interval);
+      Object.keys(callbacks).forEach((attendeeId) => {
+        audioVideo.realtimeUnsubscribeFromVolumeIndicator(
+          attendeeId,
+          callbacks[attendeeId]
+        );
+        delete callbacks[attendeeId];
+        setSpeaking(attendeeId, false);
+      });
+      publish();
+    };
+  }, [audioVideo, updateIntervalMs]);
+
+  useEffect(() => {
+    if (!audioVideo) {
+      return;
+    }
+
+    const callbacks = callbacksRef.current;
+    Object.values(roster).forEach(({ chimeAttendeeId, name }) => {
+      if (name) {
+        namesRef.current[chimeAttendeeId] = name;
+      }
+      if (!callbacks[chimeAttendeeId]) {
+        callbacks[chimeAttendeeId] = volumeIndicatorCallback;
+        audioVideo.realtimeSubscribeToVolumeIndicator(
+          chimeAttendeeId,
+          volumeIndicatorCallback
+        );
+      }
+    });
+
+    Object.keys(callbacks).forEach((attendeeId) => {
+      if (!roster[attendeeId]) {
+        audioVideo.realtimeUnsubscribeFromVolumeIndicator(
+          attendeeId,
+          callbacks[attendeeId]
+        );
+        delete callbacks[attendeeId];
+        setSpeaking(attendeeId, false);
+        publish();
+      }
+    });
+  }, [audioVideo, roster]);
+
+  const getVolumeHistory = useCallback(
+    (attendeeId: string): VolumeSample[] =>
+      volumeHistoriesRef.current[attendeeId] || [],
+    []
+  );
+
+  const resetStats = useCallback((): void => {
+    const now = Date.now();
+    const speakingAttendeeIds = Object.values(analyticsRef.current.speakers)
+      .filter(({ speakingSince }) => speakingSince !== null)
+      .map(({ attendeeId }) => attendeeId);
+    analyticsRef.current = createSpeakingAnalytics(now);
+    // Attendees who are speaking start a new turn
+    speakingAttendeeIds.forEach((attendeeId) => setSpeaking(attendeeId, true));
+    publish();
+  }, [setSpeaking, publish]);
+
+  const value = useMemo(() => {
+    const { analytics, now } = snapshot;
+    return {
+      speakers: getSpeakerStats(analytics, now).map((speaker) => ({
+        ...speaker,
+        name: namesRef.current[speaker.attendeeId],
+      })),
+      silence: analytics.silence,
+      durationMs: now - analytics.startedAt,
+      getVolumeHistory,
+      resetStats,
+    };
+  }, [snapshot, getVolumeHistory, resetStats]);
+
+  return (
+    <SpeakingStatsContext.Provider value={value}>
+      {children}
+    </SpeakingStatsContext.Provider>
+  );
+};
+
+export function useSpeakingStats(): SpeakingStatsState {
+  const state = useContext(SpeakingStatsContext);
+
+  if (!state) {
+    throw new Error(
+      'useSpeakingStats must be used within SpeakingAnalyticsProvider'
+    );
+  }
+
+  return state;
+}
+
+export { SilenceStats, SpeakerStats, VolumeSample };
@@ -0,0 +1,181 @@
+// Copyright Amazon.com, Inc. or its affiliates. All Rights Reserved.
+// SPDX-License-Identifier: Apache-2.0
+
+export type SpeakerStats = {
+  attendeeId: string;
+  talkTimeMs: number;
+  /** The number of times the attendee started speaking, merging pauses shorter than `turnGapMs`. */
+  turns: number;
+  /** The number of turns the attendee started while another attendee was speaking. */
+  interruptions: number;
+  /** When the current turn started, in milliseconds since the epoch, while the attendee is speaking. */
+  speakingSince: number | null;
+  /** When the attendee last stopped speaking, in milliseconds since the epoch. */
+  lastSpokeAt?: number;
+};
+
+export type SilenceStats = {
+  /** The number of times nobody spoke for at least `minSilenceGapMs`. */
+  gaps: number;
+  totalMs: number;
+  longestMs: number;
+};
+
+export type SpeakingAnalytics = {
+  startedAt: number;
+  speakers: { [attendeeId: string]: SpeakerStats };
+  silence: SilenceStats;
+  /** When the last speaker stopped speaking, while nobody speaks. */
+  silenceSince: number | null;
+};
+
+export type SpeakingAnalyticsOptions = {
+  /** Pauses shorter than this are part of the same turn, in milliseconds. */
+  turnGapMs: number;
+  /** Silences shorter than this are not counted as gaps, in milliseconds. */
+  minSilenceGapMs: number;
+};
+
+export type VolumeSample = {
+  timestampMs: number;
+  /** From 0 to 1, or 0 while the attendee is muted. */
+  volume: number;
+};
+
+export function createSpeakingAnalytics(now: number): SpeakingAnalytics {
+  return {
+    startedAt: now,
+    speakers: {},
+    silence: { gaps: 0, totalMs: 0, longestMs: 0 },
+    silenceSince: null,
+  };
+}
+
+const createSpeakerStats = (attendeeId: string): SpeakerStats => ({
+  attendeeId,
+  talkTimeMs: 0,
+  turns: 0,
+  interruptions: 0,
+  speakingSince: null,
+});
+
+const isAnyoneSpeaking = (
+  speakers: SpeakingAnalytics['speakers'],
+  exceptAttendeeId?: string
+): boolean =>
+  Object.values(speakers).some(
+    ({ attendeeId, speakingSince }) =>
+      attendeeId !== exceptAttendeeId && speakingSince !== null
+  );
+
+function startSpeaking(
+  analytics: SpeakingAnalytics,
+  speaker: SpeakerStats,
+  now: number,
+  { turnGapMs, minSilenceGapMs }: SpeakingAnalyticsOptions
+): SpeakingAnalytics {
+  const continuesTurn =
+    speaker.lastSpokeAt !== undefined && now - speaker.lastSpokeAt <= turnGapMs;
+  const interrupts =
+    !continuesTurn && isAnyoneSpeaking(analytics.speakers, speaker.attendeeId);
+
+  let { silence } = analytics;
+  const { silenceSince } = analytics;
+  const gapMs = silenceSince === null ? 0 : now - silenceSince;
+  if (!continuesTurn && silenceSince !== null && gapMs >= minSilenceGapMs) {
+    silence = {
+      gaps: silence.gaps + 1,
+      totalMs: silence.totalMs + gapMs,
+      longestMs: Math.max(silence.longestMs, gapMs),
+    };
+  }
+
+  return {
+    ...analytics,
+    silence,
+    silenceSince: null,
+    speakers: {
+      ...analytics.speakers,
+      [speaker.attendeeId]: {
+        ...speaker,
+        turns: continuesTurn ? speaker.turns : speaker.turns + 1,
+        interruptions: interrupts
+          ? speaker.interruptions + 1
+          : speaker.interruptions,
+        speakingSince: now,
+      },
+    },
+  };
+}
+
+function stopSpeaking(
+  analytics: SpeakingAnalytics,
+  speaker: SpeakerStats,
+  now: number
+): SpeakingAnalytics {
+  const speakers = {
+    ...analytics.speakers,
+    [speaker.attendeeId]: {
+      ...speaker,
+      talkTimeMs: speaker.talkTimeMs + now - (speaker.speakingSince ?? now),
+      speakingSince: null,
+      lastSpokeAt: now,
+    },
+  };
+
+  return {
+    ...analytics,
+    speakers,
+    silenceSince: isAnyoneSpeaking(speakers) ? null : now,
+  };
+}
+
+/**
+ * Records that the attendee started or stopped speaking.
+ */
+export function updateSpeakingState(
+  analytics: SpeakingAnalytics,
+  attendeeId: string,
+  speaking: boolean,
+  now: number,
+  options: SpeakingAnalyticsOptions
+): SpeakingAnalytics {
+  const speaker =
+    analytics.speakers[attendeeId] || createSpeakerStats(attendeeId);
+  const wasSpeaking = speaker.speakingSince !== null;
+  if (speaking === wasSpeaking) {
+    return analytics;
+  }
+
+  return speaking
+    ? startSpeaking(analytics, speaker, now, options)
+    : stopSpeaking(analytics, speaker, now);
+}
+
+/**
+ * Returns the stats of each attendee including their current turn, most talk time first.
+ */
+export function getSpeakerStats(
+  analytics: SpeakingAnalytics,
+  now: number
+): SpeakerStats[] {
+  return Object.values(analytics.speakers)
+    .map(({ speakingSince, talkTimeMs, ...speaker }) => ({
+      ...speaker,
+      speakingSince,
+      talkTimeMs:
+        speakingSince === null ? talkTimeMs : talkTimeMs + now - speakingSince,
+    }))
+    .sort((a, b) => b.talkTimeMs - a.talkTimeMs);
+}
+
+/**
+ * Adds the sample to the history and drops the oldest samples beyond `maxSize`.
+ */
+export function addVolumeSample(
+  history: VolumeSample[],
+  sample: VolumeSample,
+  maxSize: number
+): VolumeSample[] {
+  return [...history, sample].slice(-maxSize);
+}
@@ -0,0 +1,172 @@
+// Copyright Amazon.com, Inc. or its affiliates. All Rights Reserved.
+// SPDX-License-Identifier: Apache-2.0
+
+import React, {
+  createContext,
+  useCallback,
+  useContext,
+  useEffect,
+  useMemo,
+  useRef,
+  useState,
+} from 'react';
+
+import { useAudioVideo } from '../AudioVideoProvider';
+import { useRemoteVideoTileState } from '../RemoteVideoTileProvider';
+import {
+  getPageAfterResize,
+  getPageCount,
+  getPageTiles,
+  getPauseChanges,
+} from './state';
+
+export interface VideoPaginationState {
+  /** The zero-based index of the current page. */
+  page: number;
+  pageCount: number;
+  pageSize: number;
+  /** The remote tiles on the current page. */
+  pageTiles: number[];
+  hasNextPage: boolean;
+  hasPreviousPage: boolean;
+  /** Whether the remote tiles off the current page are paused. */
+  paginated: boolean;
+  nextPage: () => void;
+  previousPage: () => void;
+  setPage: (page: number) => void;
+  setPageSize: (pageSize: number) => void;
+  setPaginated: (paginated: boolean) => void;
+}
+
+interface Props {
+  /** The initial number of remote tiles per page. Defaults to `9`. */
+  pageSize?: number;
+}
+
+const VideoPaginationContext = createContext<VideoPaginationState | null>(null);
+
+export const VideoPaginationProvider: React.FC<
+  React.PropsWithChildren<Props>
+> = ({ pageSize: initialPageSize = 9, children }) => {
+  const audioVideo = useAudioVideo();
+  const { tiles } = useRemoteVideoTileState();
+  const [requestedPage, setRequestedPage] = useState(0);
+  const [pageSize, setCurrentPageSize] = useState(initialPageSize);
+  const [paginated, setPaginated] = useState(false);
+  const pausedTilesRef = useRef<number[]>([]);
+
+  const pageCount = getPageCount(tiles.length, pageSize);
+  // Stay on the last page when the tiles of the requested page are removed
+  const page = Math.min(requestedPage, pageCount - 1);
+  const pageTiles = useMemo(
+    () => getPageTiles(tiles, page, pageSize),
+    [tiles, page, pageSize]
+  );
+
+  useEffect(() => {
+    if (!audioVideo) {
+      return;
+    }
+
+    const { tilesToPause, tilesToUnpause } = getPauseChanges(
+      tiles,
+      paginated ? pageTiles : null,
+      pausedTilesRef.current
+    );
+    tilesToPause.forEach((tileId) => audioVideo.pauseVideoTile(tileId));
+    tilesToUnpause.forEach((tileId) => audioVideo.unpauseVideoTile(tileId));
+
+    pausedTilesRef.current = [
+      ...pausedTilesRef.current.filter(
+        (tileId) => tiles.includes(tileId) && !tilesToUnpause.includes(tileId)
+      ),
+      ...tilesToPause,
+    ];
+  }, [audioVideo, tiles, pageTiles, paginated]);
+
+  useEffect(() => {
+    if (!audioVideo) {
+      return;
+    }
+
+    return () => {
+      pausedTilesRef.current.forEach((tileId) =>
+        audioVideo.unpauseVideoTile(tileId)
+      );
+      pausedTilesRef.current = [];
+    };
+  }, [audioVideo]);
+
+  const setPage = useCallback(
+    (nextPage: number): void => setRequestedPage(Math.max(0, nextPage)),
+    []
+  );
+
+  const nextPage = useCallback(
+    (): void => setRequestedPage(Math.min(page + 1, pageCount - 1)),
+    [page, pageCount]
+  );
+
+  const previousPage = useCallback(
+    (): void => setRequestedPage(Math.max(page - 1, 0)),
+    [page]
+  );
+
+  const setPageSize = useCallback(
+    (nextPageSize: number): void => {
+      if (nextPageSize < 1 || nextPageSize === pageSize) {
+        return;
+      }
+
+      setRequestedPage(getPageAfterResize(page, pageSize, nextPageSize));
+      setCurrentPageSize(nextPageSize);
+    },
+    [page, pageSize]
+  );
+
+  const value = useMemo(
+    () => ({
+      page,
+      pageCount,
+      pageSize,
+      pageTiles,
+      hasNextPage: page < pageCount - 1,
+      hasPreviousPage: page > 0,
+      paginated,
+      nextPage,
+      previousPage,
+      setPage,
+      setPageSize,
+      setPaginated,
+    }),
+    [
+      page,
+      pageCount,
+      pageSize,
+      pageTiles,
+      paginated,
+      nextPage,
+      previousPage,
+      setPage,
+      setPageSize,
+    ]
+  );
+
+  return (
+    <VideoPaginationContext.Provider value={value}>
+      {children}
+    </VideoPaginationContext.Provider>
+  );
+};
+
+export function useVideoPagination(): VideoPaginationState {
+  const state = useContext(VideoPaginationContext);
+
+  if (!state) {
+    throw new Error(
+      'useVideoPagination must be used within VideoPaginationProvider'
+    );
+  }
+
+  return state;
+}
@@ -0,0 +1,48 @@
+// Copyright Amazon.com, Inc. or its affiliates. All Rights Reserved.
+// SPDX-License-Identifier: Apache-2.0
+
+export function getPageCount(tileCount: number, pageSize: number): number {
+  return Math.max(1, Math.ceil(tileCount / pageSize));
+}
+
+export function getPageTiles(
+  tiles: number[],
+  page: number,
+  pageSize: number
+): number[] {
+  return tiles.slice(page * pageSize, (page + 1) * pageSize);
+}
+
+/**
+ * Returns the page that shows the first tile of the given page after the page size changes.
+ */
+export function getPageAfterResize(
+  page: number,
+  pageSize: number,
+  nextPageSize: number
+): number {
+  return Math.floor((page * pageSize) / nextPageSize);
+}
+
+/**
+ * Returns the tiles to pause and to unpause so that only the tiles off the page are paused,
+ * given the tiles that are currently paused. Pass `null` as the visible tiles to unpause every tile.
+ */
+export function getPauseChanges(
+  tiles: number[],
+  visibleTiles: number[] | null,
+  pausedTiles: number[]
+): { tilesToPause: number[]; tilesToUnpause: number[] } {
+  const offPageTiles = visibleTiles
+    ? tiles.filter((tileId) => !visibleTiles.includes(tileId))
+    : [];
+
+  return {
+    tilesToPause: offPageTiles.filter(
+      (tileId) => !pausedTiles.includes(tileId)
+    ),
+    tilesToUnpause: pausedTiles.filter(
+      (tileId) => tiles.includes(tileId) && !offPageTiles.includes(tileId)
+    ),
+  };
+}
@@ -39,9 +39,73 @@ export type LocalVideoContextType = {
   toggleVideo: () => Promise<void>;
 };
 
+export enum ContentShareSourceType {
+  SCREEN = 'SCREEN',
+  WINDOW = 'WINDOW',
+  TAB = 'TAB',
+  SCREEN_WITH_AUDIO = 'SCREEN_WITH_AUDIO',
+  FILE = 'FILE',
+}
+
+export type ContentShareSource = {
+  type: ContentShareSourceType;
+  /** The maximum frame rate of the content share. Defaults to `15`. */
+  frameRate?: number;
+  /** Whether to share the audio of the source. Defaults to `true` for tabs, screens with audio and files. */
+  audio?: boolean;
+  /** The video file, or its URL, to play and share with the `FILE` type. */
+  file?: File | string;
+  /** Whether to play the file in a loop instead of stopping the content share when it ends. */
+  loop?: boolean;
+};
+
+export enum ContentSharePolicy {
+  /** Shows the newest content share, and stops the one of the local user when another attendee starts sharing. */
+  NEWEST_WINS = 'NEWEST_WINS',
+  /** Shows the first content share, and queues the newer ones until it stops. */
+  FIRST_WINS = 'FIRST_WINS',
+  /** Shows the first `maxConcurrentShares` content shares side by side, and queues the newer ones. */
+  ALLOW_CONCURRENT = 'ALLOW_CONCURRENT',
+}
+
+export enum AnnotationTool {
+  PEN = 'PEN',
+  ARROW = 'ARROW',
+  HIGHLIGHTER = 'HIGHLIGHTER',
+  TEXT = 'TEXT',
+}
+
+export enum ContentShareErrorType {
+  /** The browser does not allow sharing on the page for security reasons. */
+  DENIED = 'DENIED',
+  /** The user closed the picker of the browser without picking anything, or the browser or the operating system
+   * denied sharing, which browsers report the same way. */
+  CANCELLED = 'CANCELLED',
+  /** The browser cannot share the source. */
+  UNSUPPORTED = 'UNSUPPORTED',
+  /** Another attendee started sharing, which stopped the content share of the local user,
+   * or other attendees already share as many contents as the policy allows. */
+  SHARED_BY_OTHER = 'SHARED_BY_OTHER',
+  FAILED = 'FAILED',
+}
+
+export type ContentShareError = {
+  type: ContentShareErrorType;
+  /** The error that caused it, if any. */
+  error?: Error;
+};
+
+export type ContentShareResult = {
+  /** Whether the local content share started. */
+  sharing: boolean;
+  error: ContentShareError | null;
+};
+
 export type ContentShareControlContextType = {
   paused: boolean;
-  toggleContentShare: (source?: string | MediaStream) => Promise<void>;
+  toggleContentShare: (
+    source?: string | MediaStream | ContentShareSource
+  ) => Promise<ContentShareResult>;
   togglePauseContentShare: () => void;
 };
 
@@ -54,12 +118,27 @@ export enum MeetingStatus {
   Left,
   TerminalFailure,
   Reconnecting,
+  Rejoining,
+  RejoinFailed,
 }
 
 export type RosterAttendeeType = {
   chimeAttendeeId: string;
   externalUserId?: string;
   name?: string;
+  /** When the attendee joined, in milliseconds since the epoch. */
+  joinedAt?: number;
+  /** When the attendee left, in milliseconds since the epoch. */
+  leftAt?: number;
+  present?: boolean;
+  /** Whether the attendee left because of a dropped connection. */
+  dropped?: boolean;
+  sharingContent?: boolean;
+  muted?: boolean;
+  /** When the attendee was last detected as an active speaker, in milliseconds since the epoch. */
+  lastSpokeAt?: number;
+  /** Application data set with `setAttendeeMetadata`. */
+  metadata?: { [key: string]: unknown };
 };
 
 export type RosterType = {
@@ -80,6 +159,46 @@ export enum DeviceLabels {
   AudioAndVideo,
 }
 
+export enum DeviceChangePolicy {
+  FallbackToDefault = 'FallbackToDefault',
+  PreferNewDevice = 'PreferNewDevice',
+  AskUser = 'AskUser',
+}
+
+export enum MicrophoneTestStatus {
+  IDLE = 'IDLE',
+  RECORDING = 'RECORDING',
+  RECORDED = 'RECORDED',
+  PLAYING = 'PLAYING',
+  FAILED = 'FAILED',
+}
+
+export enum SpeakerTestStatus {
+  IDLE = 'IDLE',
+  PLAYING = 'PLAYING',
+  AWAITING_CONFIRMATION = 'AWAITING_CONFIRMATION',
+  HEARD = 'HEARD',
+  NOT_HEARD = 'NOT_HEARD',
+  FAILED = 'FAILED',
+}
+
+export enum ConnectionQuality {
+  GOOD = 'GOOD',
+  FAIR = 'FAIR',
+  POOR = 'POOR',
+}
+
+export enum ConnectionHealthReason {
+  UPSTREAM_PACKET_LOSS = 'UPSTREAM_PACKET_LOSS',
+  DOWNSTREAM_PACKET_LOSS = 'DOWNSTREAM_PACKET_LOSS',
+  HIGH_ROUND_TRIP_TIME = 'HIGH_ROUND_TRIP_TIME',
+  HIGH_JITTER = 'HIGH_JITTER',
+  LOW_BANDWIDTH = 'LOW_BANDWIDTH',
+  WEAK_SIGNAL = 'WEAK_SIGNAL',
+  CONNECTION_POOR = 'CONNECTION_POOR',
+  VIDEO_STOP_SUGGESTED = 'VIDEO_STOP_SUGGESTED',
+}
+
 export type DeviceLabelTrigger = () => Promise<MediaStream>;
 
 export type MeetingFeatures = {
@@ -0,0 +1,267 @@
+// Copyright Amazon.com, Inc. or its affiliates. All Rights Reserved.
+// SPDX-License-Identifier: Apache-2.0
+
+import { AnnotationTool } from '../types';
+
+/** A point from `[0, 0]` at the top left to `[1, 1]` at the bottom right of the shared content. */
+export type AnnotationPoint = [number, number];
+
+export type Annotation = {
+  id: string;
+  tool: AnnotationTool;
+  color: string;
+  /** The stroke of a pen or highlighter, the start and end of an arrow, or the position of a text. */
+  points: AnnotationPoint[];
+  text?: string;
+};
+
+export type AnnotationItem = Annotation & {
+  /** The chime attendee ID of the author. */
+  attendeeId: string;
+};
+
+/** The events are scoped to the content share of `shareAttendeeId`. */
+export type AnnotationEvent =
+  | { type: 'add'; shareAttendeeId: string; annotation: Annotation }
+  | { type: 'clear'; shareAttendeeId: string }
+  | { type: 'enable'; shareAttendeeId: string; enabled: boolean };
+
+export type AnnotationState = {
+  annotations: AnnotationItem[];
+  /** Whether attendees other than the presenter can annotate. */
+  enabled: boolean;
+};
+
+export type AnnotationRect = {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+};
+
+export const initialAnnotationState: AnnotationState = {
+  annotations: [],
+  enabled: true,
+};
+
+// Keeps the strokes well within the size of a data message
+export const MAX_ANNOTATION_POINTS = 500;
+
+const MAX_TEXT_LENGTH = 200;
+
+const isPoint = (point: unknown): point is AnnotationPoint =>
+  Array.isArray(point) &&
+  point.length === 2 &&
+  point.every((value) => typeof value === 'number' && isFinite(value));
+
+function isAnnotation(annotation: unknown): annotation is Annotation {
+  const { id, tool, color, points, text } = (annotation || {}) as Annotation;
+  return (
+    typeof id === 'string' &&
+    Object.values(AnnotationTool).includes(tool) &&
+    typeof color === 'string' &&
+    Array.isArray(points) &&
+    points.length > 0 &&
+    points.length <= MAX_ANNOTATION_POINTS &&
+    points.every(isPoint) &&
+    (text === undefined ||
+      (typeof text === 'string' && text.length <= MAX_TEXT_LENGTH))
+  );
+}
+
+/**
+ * Checks the payload received from other attendees before it is applied to the annotations.
+ */
+export function isAnnotationEvent(
+  payload: unknown
+): payload is AnnotationEvent {
+  const event = payload as AnnotationEvent;
+  if (!event || typeof event.shareAttendeeId !== 'string') {
+    return false;
+  }
+
+  switch (event.type) {
+    case 'add':
+      return isAnnotation(event.annotation);
+    case 'clear':
+      return true;
+    case 'enable':
+      return typeof event.enabled === 'boolean';
+    default:
+      return false;
+  }
+}
+
+/**
+ * Applies the event of the sender to the annotations. Only the presenter, who shares the content,
+ * can clear or disable the annotations, and can still annotate while they are disabled.
+ */
+export function applyAnnotationEvent(
+  state: AnnotationState,
+  event: AnnotationEvent,
+  senderAttendeeId: string,
+  senderIsPresenter: boolean
+): AnnotationState {
+  switch (event.type) {
+    case 'add': {
+      const { annotation } = event;
+      if (
+        (!state.enabled && !senderIsPresenter) ||
+        state.annotations.some(({ id }) => id === annotation.id)
+      ) {
+        return state;
+      }
+      return {
+        ...state,
+        annotations: [
+          ...state.annotations,
+          { ...annotation, attendeeId: senderAttendeeId },
+        ],
+      };
+    }
+    case 'clear':
+      return senderIsPresenter && state.annotations.length
+        ? { ...state, annotations: [] }
+        : state;
+    case 'enable':
+      return senderIsPresenter && state.enabled !== event.enabled
+        ? { ...state, enabled: event.enabled }
+        : state;
+    default:
+      return state;
+  }
+}
+
+/**
+ * Returns the area where content of the given size is shown within a container,
+ * when it is scaled to fit like `object-fit: contain`.
+ */
+export function getContainedRect(
+  containerWidth: number,
+  containerHeight: number,
+  contentWidth?: number | null,
+  contentHeight?: number | null
+): AnnotationRect {
+  if (!contentWidth || !contentHeight || !containerWidth || !containerHeight) {
+    return { x: 0, y: 0, width: containerWidth, height: containerHeight };
+  }
+
+  const scale = Math.min(
+    containerWidth / contentWidth,
+    containerHeight / contentHeight
+  );
+  const width = contentWidth * scale;
+  const height = contentHeight * scale;
+  return {
+    x: (containerWidth - width) / 2,
+    y: (containerHeight - height) / 2,
+    width,
+    height,
+  };
+}
+
+/**
+ * Converts a position within the container to a point of the content, rounded to keep messages small.
+ */
+export function toAnnotationPoint(
+  x: number,
+  y: number,
+  rect: AnnotationRect
+): AnnotationPoint {
+  const clamp = (value: number): number =>
+    Math.round(Math.min(1, Math.max(0, value)) * 10000) / 10000;
+  return [clamp((x - rect.x) / rect.width), clamp((y - rect.y) / rect.height)];
+}
+
+/**
+ * Keeps at most `maxPoints` points of a stroke, evenly spread and including its last point.
+ */
+export function simplifyPoints(
+  points: AnnotationPoint[],
+  maxPoints = MAX_ANNOTATION_POINTS
+): AnnotationPoint[] {
+  if (points.length <= maxPoints) {
+    return points;
+  }
+
+  const step = (points.length - 1) / (maxPoints - 1);
+  return Array.from(
+    { length: maxPoints },
+    (_, index) => points[Math.round(index * step)]
+  );
+}
+
+function drawArrow(
+  context: CanvasRenderingContext2D,
+  [fromX, fromY]: number[],
+  [toX, toY]: number[],
+  headLength: number
+): void {
+  const angle = Math.atan2(toY - fromY, toX - fromX);
+  context.beginPath();
+  context.moveTo(fromX, fromY);
+  context.lineTo(toX, toY);
+  context.lineTo(
+    toX - headLength * Math.cos(angle - Math.PI / 6),
+    toY - headLength * Math.sin(angle - Math.PI / 6)
+  );
+  context.moveTo(toX, toY);
+  context.lineTo(
+    toX - headLength * Math.cos(angle + Math.PI / 6),
+    toY - headLength * Math.sin(angle + Math.PI / 6)
+  );
+  context.stroke();
+}
+
+/**
+ * Draws an annotation on a canvas, scaling its points to the area of the content.
+ * Line widths and font sizes scale with the content so that every attendee sees the same drawing.
+ */
+export function drawAnnotation(
+  context: CanvasRenderingContext2D,
+  { tool, color, points, text }: Annotation,
+  rect: AnnotationRect
+): void {
+  const scaled = points.map(([x, y]) => [
+    rect.x + x * rect.width,
+    rect.y + y * rect.height,
+  ]);
+  const unit = Math.max(1, rect.width / 400);
+
+  context.save();
+  context.strokeStyle = color;
+  context.fillStyle = color;
+  context.lineCap = 'round';
+  context.lineJoin = 'round';
+
+  switch (tool) {
+    case AnnotationTool.TEXT:
+      context.font = `${Math.round(8 * unit)}px sans-serif`;
+      context.textBaseline = 'top';
+      context.fillText(text || '', scaled[0][0], scaled[0][1]);
+      break;
+    case AnnotationTool.ARROW:
+      context.lineWidth = 1.5 * unit;
+      drawArrow(context, scaled[0], scaled[scaled.length - 1], 8 * unit);
+      break;
+    default:
+      context.globalAlpha = tool === AnnotationTool.HIGHLIGHTER ? 0.35 : 1;
+      context.lineWidth =
+        (tool === AnnotationTool.HIGHLIGHTER ? 8 : 1.5) * unit;
+      context.beginPath();
+      scaled.forEach(([x, y], index) => {
+        if (index === 0) {
+          context.moveTo(x, y);
+        } else {
+          context.lineTo(x, y);
+        }
+      });
+      // Draws a dot for a single point
+      if (scaled.length === 1) {
+        context.lineTo(scaled[0][0], scaled[0][1]);
+      }
+      context.stroke();
+  }
+
+  context.restore();
+}
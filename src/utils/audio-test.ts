@@ -0,0 +1,129 @@
+// Copyright Amazon.com, Inc. or its affiliates. All Rights Reserved.
+// SPDX-License-Identifier: Apache-2.0
+
+// Samples at or above this amplitude are considered clipped
+const CLIPPING_AMPLITUDE = 0.99;
+// The recording clips when more than this fraction of the samples are clipped
+const CLIPPING_RATIO = 0.001;
+// The recording is noisy when the noise floor is above this level, in dBFS
+const NOISY_FLOOR_DB = -50;
+// The lowest level reported, in dBFS
+const MIN_DB = -100;
+
+export type AudioFrameMeasurement = {
+  rms: number;
+  peak: number;
+  clippedSamples: number;
+  samples: number;
+};
+
+export type MicrophoneTestMeasurements = {
+  /** The loudest sample of the recording, in dBFS. */
+  peakDb: number;
+  /** The level of the quietest tenth of the recording, usually the background noise, in dBFS. */
+  noiseFloorDb: number;
+  /** The fraction of the samples that reached the maximum amplitude. */
+  clippedSampleRatio: number;
+  /** Whether the microphone is too loud, which distorts the voice. */
+  clipping: boolean;
+  /** Whether the background noise is loud. */
+  noisy: boolean;
+};
+
+export function toDecibels(amplitude: number): number {
+  if (amplitude <= 0) {
+    return MIN_DB;
+  }
+
+  return Math.max(MIN_DB, 20 * Math.log10(amplitude));
+}
+
+/**
+ * Measures the level of a frame of samples from -1 to 1, as returned by `getFloatTimeDomainData`.
+ */
+export function measureAudioFrame(
+  samples: Float32Array
+): AudioFrameMeasurement {
+  let sumOfSquares = 0;
+  let peak = 0;
+  let clippedSamples = 0;
+  samples.forEach((sample) => {
+    const amplitude = Math.abs(sample);
+    sumOfSquares += sample * sample;
+    peak = Math.max(peak, amplitude);
+    if (amplitude >= CLIPPING_AMPLITUDE) {
+      clippedSamples++;
+    }
+  });
+
+  return {
+    rms: samples.length ? Math.sqrt(sumOfSquares / samples.length) : 0,
+    peak,
+    clippedSamples,
+    samples: samples.length,
+  };
+}
+
+export function summarizeMicrophoneTest(
+  frames: AudioFrameMeasurement[]
+): MicrophoneTestMeasurements {
+  const totalSamples = frames.reduce((sum, { samples }) => sum + samples, 0);
+  const clippedSamples = frames.reduce(
+    (sum, frame) => sum + frame.clippedSamples,
+    0
+  );
+  const peak = frames.reduce((max, frame) => Math.max(max, frame.peak), 0);
+  const levels = frames.map(({ rms }) => rms).sort((a, b) => a - b);
+  const noiseFloor = levels.length
+    ? levels[Math.floor((levels.length - 1) * 0.1)]
+    : 0;
+
+  const clippedSampleRatio = totalSamples ? clippedSamples / totalSamples : 0;
+  const noiseFloorDb = toDecibels(noiseFloor);
+
+  return {
+    peakDb: toDecibels(peak),
+    noiseFloorDb,
+    clippedSampleRatio,
+    clipping: clippedSampleRatio > CLIPPING_RATIO,
+    noisy: noiseFloorDb > NOISY_FLOOR_DB,
+  };
+}
+
+export type Beep = {
+  startMs: number;
+  endMs: number;
+};
+
+/**
+ * Splits the test tone into beeps separated by pauses, which are easier to notice than a continuous tone.
+ */
+export function getTestToneBeeps(
+  durationMs: number,
+  beepMs = 400,
+  pauseMs = 200
+): Beep[] {
+  const beeps: Beep[] = [];
+  for (let startMs = 0; startMs < durationMs; startMs += beepMs + pauseMs) {
+    beeps.push({ startMs, endMs: Math.min(startMs + beepMs, durationMs) });
+  }
+
+  return beeps;
+}
+
+type SinkableAudioElement = HTMLAudioElement & {
+  setSinkId?: (sinkId: string) => Promise<void>;
+};
+
+/**
+ * Plays the audio element through the audio output device, in browsers that support `setSinkId`.
+ */
+export async function setAudioElementSinkId(
+  element: HTMLAudioElement,
+  deviceId: string | null | undefined
+): Promise<void> {
+  const { setSinkId } = element as SinkableAudioElement;
+  if (deviceId && setSinkId) {
+    await setSinkId.call(element, deviceId);
+  }
+}
@@ -0,0 +1,32 @@
+// Copyright Amazon.com, Inc. or its affiliates. All Rights Reserved.
+// SPDX-License-Identifier: Apache-2.0
+
+export type BackoffPolicy = {
+  /** The delay before the first retry. Defaults to 1000ms. */
+  initialDelayMs?: number;
+  /** The upper bound of the delay between two retries. Defaults to 30000ms. */
+  maxDelayMs?: number;
+  /** The factor the delay is multiplied by after each retry. Defaults to 2. */
+  backoffMultiplier?: number;
+  /** The fraction (0 to 1) of the delay randomly added or removed. Defaults to 0.2. */
+  jitter?: number;
+};
+
+export function getBackoffDelay(
+  backoffPolicy: BackoffPolicy,
+  attempt: number
+): number {
+  const {
+    initialDelayMs = 1000,
+    maxDelayMs = 30000,
+    backoffMultiplier = 2,
+    jitter = 0.2,
+  } = backoffPolicy;
+  const delay = Math.min(
+    maxDelayMs,
+    initialDelayMs * Math.pow(backoffMultiplier, attempt - 1)
+  );
+  const jitterRange = delay * Math.min(Math.max(jitter, 0), 1);
+
+  return Math.max(0, delay + jitterRange * (Math.random() * 2 - 1));
+}
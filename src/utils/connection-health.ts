@@ -0,0 +1,154 @@
+// Copyright Amazon.com, Inc. or its affiliates. All Rights Reserved.
+// SPDX-License-Identifier: Apache-2.0
+
+import { ConnectionHealthReason, ConnectionQuality } from '../types';
+
+export type ConnectionHealthInputs = {
+  /** The percentage of audio packets lost from the client to the server. */
+  upstreamPacketLossPercent?: number | null;
+  /** The percentage of audio packets lost from the server to the client. */
+  downstreamPacketLossPercent?: number | null;
+  roundTripTimeMs?: number | null;
+  /** The highest of the upstream and downstream audio jitter. */
+  jitterMs?: number | null;
+  /** The available outgoing bandwidth, in kilobits per second. */
+  availableOutgoingBandwidthKbps?: number | null;
+  /** The signal strength of the attendee from the volume indicator, from 0 to 1. */
+  signalStrength?: number | null;
+  /** Whether the Amazon Chime SDK reported that the connection became poor. */
+  connectionPoor?: boolean;
+  /** Whether the Amazon Chime SDK suggested to stop the local video. */
+  videoStopSuggested?: boolean;
+};
+
+export type ConnectionHealth = {
+  quality: ConnectionQuality;
+  /** Why the quality is not good, worst first. */
+  reasons: ConnectionHealthReason[];
+};
+
+type Grade = {
+  reason: ConnectionHealthReason;
+  quality: ConnectionQuality;
+};
+
+const QUALITY_ORDER = [
+  ConnectionQuality.GOOD,
+  ConnectionQuality.FAIR,
+  ConnectionQuality.POOR,
+];
+
+// Grades a metric that is worse the higher it is, ignoring unknown values
+function gradeAbove(
+  value: number | null | undefined,
+  fairFrom: number,
+  poorFrom: number
+): ConnectionQuality {
+  if (typeof value !== 'number' || isNaN(value)) {
+    return ConnectionQuality.GOOD;
+  }
+  if (value >= poorFrom) {
+    return ConnectionQuality.POOR;
+  }
+  if (value >= fairFrom) {
+    return ConnectionQuality.FAIR;
+  }
+  return ConnectionQuality.GOOD;
+}
+
+// Grades a metric that is worse the lower it is, ignoring unknown values
+function gradeBelow(
+  value: number | null | undefined,
+  fairBelow: number,
+  poorBelow: number
+): ConnectionQuality {
+  if (typeof value !== 'number' || isNaN(value)) {
+    return ConnectionQuality.GOOD;
+  }
+  if (value < poorBelow) {
+    return ConnectionQuality.POOR;
+  }
+  if (value < fairBelow) {
+    return ConnectionQuality.FAIR;
+  }
+  return ConnectionQuality.GOOD;
+}
+
+/**
+ * Returns the quality of the signal strength reported by the volume indicator,
+ * where 0.5 or below is a poor connection.
+ */
+export function getSignalStrengthQuality(
+  signalStrength: number | null | undefined
+): ConnectionQuality {
+  if (typeof signalStrength === 'number' && signalStrength <= 0.5) {
+    return ConnectionQuality.POOR;
+  }
+  return ConnectionQuality.GOOD;
+}
+
+/**
+ * Grades each connection metric and event, and returns the worst quality with the reasons for it.
+ */
+export function getConnectionHealth({
+  upstreamPacketLossPercent,
+  downstreamPacketLossPercent,
+  roundTripTimeMs,
+  jitterMs,
+  availableOutgoingBandwidthKbps,
+  signalStrength,
+  connectionPoor = false,
+  videoStopSuggested = false,
+}: ConnectionHealthInputs): ConnectionHealth {
+  // A bandwidth of 0 means it is not measured yet
+  const outgoingBandwidthKbps = availableOutgoingBandwidthKbps || null;
+
+  const grades: Grade[] = [
+    {
+      reason: ConnectionHealthReason.CONNECTION_POOR,
+      quality: connectionPoor ? ConnectionQuality.POOR : ConnectionQuality.GOOD,
+    },
+    {
+      reason: ConnectionHealthReason.WEAK_SIGNAL,
+      quality: getSignalStrengthQuality(signalStrength),
+    },
+    {
+      reason: ConnectionHealthReason.UPSTREAM_PACKET_LOSS,
+      quality: gradeAbove(upstreamPacketLossPercent, 3, 10),
+    },
+    {
+      reason: ConnectionHealthReason.DOWNSTREAM_PACKET_LOSS,
+      quality: gradeAbove(downstreamPacketLossPercent, 3, 10),
+    },
+    {
+      reason: ConnectionHealthReason.HIGH_ROUND_TRIP_TIME,
+      quality: gradeAbove(roundTripTimeMs, 300, 600),
+    },
+    {
+      reason: ConnectionHealthReason.HIGH_JITTER,
+      quality: gradeAbove(jitterMs, 30, 75),
+    },
+    {
+      reason: ConnectionHealthReason.LOW_BANDWIDTH,
+      quality: gradeBelow(outgoingBandwidthKbps, 300, 100),
+    },
+    {
+      reason: ConnectionHealthReason.VIDEO_STOP_SUGGESTED,
+      quality: videoStopSuggested
+        ? ConnectionQuality.FAIR
+        : ConnectionQuality.GOOD,
+    },
+  ];
+
+  const degraded = grades
+    .filter(({ quality }) => quality !== ConnectionQuality.GOOD)
+    .sort(
+      (a, b) =>
+        QUALITY_ORDER.indexOf(b.quality) - QUALITY_ORDER.indexOf(a.quality)
+    );
+
+  return {
+    quality: degraded.length ? degraded[0].quality : ConnectionQuality.GOOD,
+    reasons: degraded.map(({ reason }) => reason),
+  };
+}
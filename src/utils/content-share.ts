@@ -0,0 +1,206 @@
+// Copyright Amazon.com, Inc. or its affiliates. All Rights Reserved.
+// SPDX-License-Identifier: Apache-2.0
+
+import {
+  ContentShareErrorType,
+  ContentShareSource,
+  ContentShareSourceType,
+} from '../types';
+
+export const DEFAULT_CONTENT_SHARE_FRAME_RATE = 15;
+
+// Display capture hints that are not part of the DOM typings yet
+export type DisplayMediaOptions = {
+  audio: boolean;
+  video: MediaTrackConstraints & { displaySurface?: string };
+  systemAudio?: 'include' | 'exclude';
+  selfBrowserSurface?: 'include' | 'exclude';
+};
+
+export type ContentShareSourceStream = {
+  stream: MediaStream;
+  /** Stops the source and frees what was allocated for it. */
+  release: () => void;
+};
+
+const displaySurfaces: Partial<Record<ContentShareSourceType, string>> = {
+  [ContentShareSourceType.SCREEN]: 'monitor',
+  [ContentShareSourceType.SCREEN_WITH_AUDIO]: 'monitor',
+  [ContentShareSourceType.WINDOW]: 'window',
+  [ContentShareSourceType.TAB]: 'browser',
+};
+
+export function isContentShareSource(
+  source: unknown
+): source is ContentShareSource {
+  return (
+    typeof source === 'object' &&
+    source !== null &&
+    Object.values(ContentShareSourceType).includes(
+      (source as ContentShareSource).type
+    )
+  );
+}
+
+// Named like the `DOMException` that browsers throw for unsupported sources
+function notSupportedError(message: string): Error {
+  const error = new Error(message);
+  error.name = 'NotSupportedError';
+  return error;
+}
+
+/**
+ * Classifies an error thrown while starting a content share. Browsers throw a `NotAllowedError`
+ * both when the user cancels the picker and when the browser or the operating system denies sharing,
+ * and their messages differ by browser, so every `NotAllowedError` is reported as cancelled.
+ */
+export function getContentShareErrorType(
+  error: unknown
+): ContentShareErrorType {
+  const { name = '' } = (error || {}) as Partial<Error>;
+
+  switch (name) {
+    case 'NotAllowedError':
+    case 'AbortError':
+      return ContentShareErrorType.CANCELLED;
+    case 'SecurityError':
+      return ContentShareErrorType.DENIED;
+    case 'NotSupportedError':
+    case 'TypeError':
+      return ContentShareErrorType.UNSUPPORTED;
+    default:
+      return ContentShareErrorType.FAILED;
+  }
+}
+
+/**
+ * Returns whether the audio of a source is shared, which by default is the case
+ * for the sources that usually play sound.
+ */
+export function isContentShareAudioEnabled({
+  type,
+  audio,
+}: ContentShareSource): boolean {
+  if (typeof audio === 'boolean') {
+    return audio;
+  }
+  return (
+    type !== ContentShareSourceType.SCREEN &&
+    type !== ContentShareSourceType.WINDOW
+  );
+}
+
+/**
+ * Returns the `getDisplayMedia` options of a screen, window or tab source. The display surface
+ * only preselects the kind of source in the browser picker, users can still pick another one.
+ */
+export function getDisplayMediaOptions(
+  source: ContentShareSource
+): DisplayMediaOptions {
+  const { type, frameRate = DEFAULT_CONTENT_SHARE_FRAME_RATE } = source;
+  const options: DisplayMediaOptions = {
+    audio: isContentShareAudioEnabled(source),
+    video: {
+      displaySurface: displaySurfaces[type],
+      frameRate: { max: frameRate },
+    },
+  };
+
+  if (type === ContentShareSourceType.SCREEN_WITH_AUDIO) {
+    options.systemAudio = 'include';
+  }
+  if (type === ContentShareSourceType.TAB) {
+    options.selfBrowserSurface = 'exclude';
+  }
+  return options;
+}
+
+/**
+ * Plays a video file in a detached video element and captures it as a stream.
+ * `onEnded` is called when the file ends, unless it loops.
+ */
+export async function createMediaFileStream(
+  source: ContentShareSource,
+  onEnded?: () => void
+): Promise<ContentShareSourceStream> {
+  const {
+    file,
+    frameRate = DEFAULT_CONTENT_SHARE_FRAME_RATE,
+    loop = false,
+  } = source;
+  if (!file) {
+    throw new Error('A file is required to share a media file');
+  }
+
+  const url = typeof file === 'string' ? file : URL.createObjectURL(file);
+  const video = document.createElement('video') as HTMLVideoElement & {
+    captureStream?: (frameRate?: number) => MediaStream;
+    mozCaptureStream?: (frameRate?: number) => MediaStream;
+  };
+  video.src = url;
+  video.loop = loop;
+  video.playsInline = true;
+
+  const release = (): void => {
+    video.onended = null;
+    video.pause();
+    video.removeAttribute('src');
+    video.load();
+    if (typeof file !== 'string') {
+      URL.revokeObjectURL(url);
+    }
+  };
+
+  try {
+    await video.play();
+
+    const capture = video.captureStream || video.mozCaptureStream;
+    if (!capture) {
+      throw notSupportedError(
+        'This browser cannot capture a stream from a media file'
+      );
+    }
+
+    const stream: MediaStream = capture.call(video, frameRate);
+    if (!isContentShareAudioEnabled(source)) {
+      stream.getAudioTracks().forEach((track) => stream.removeTrack(track));
+    }
+    video.onended = (): void => onEnded?.();
+
+    return {
+      stream,
+      release: (): void => {
+        stream.getTracks().forEach((track) => track.stop());
+        release();
+      },
+    };
+  } catch (error) {
+    release();
+    throw error;
+  }
+}
+
+/**
+ * Acquires the stream of a content share source, asking the user to pick a display
+ * for screens, windows and tabs.
+ */
+export async function acquireContentShareSource(
+  source: ContentShareSource,
+  onEnded?: () => void
+): Promise<ContentShareSourceStream> {
+  if (source.type === ContentShareSourceType.FILE) {
+    return createMediaFileStream(source, onEnded);
+  }
+
+  if (!navigator.mediaDevices?.getDisplayMedia) {
+    throw notSupportedError('This browser cannot share the display');
+  }
+
+  const stream = await navigator.mediaDevices.getDisplayMedia(
+    getDisplayMediaOptions(source)
+  );
+  return {
+    stream,
+    release: (): void => stream.getTracks().forEach((track) => track.stop()),
+  };
+}
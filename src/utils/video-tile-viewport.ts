@@ -0,0 +1,85 @@
+// Copyright Amazon.com, Inc. or its affiliates. All Rights Reserved.
+// SPDX-License-Identifier: Apache-2.0
+
+/**
+ * How a video is zoomed within its tile. The offsets are in pixels from the center of the tile,
+ * which is where the video is scaled from.
+ */
+export type VideoViewport = {
+  zoom: number;
+  x: number;
+  y: number;
+};
+
+export type ViewportSize = {
+  width: number;
+  height: number;
+};
+
+export const initialViewport: VideoViewport = { zoom: 1, x: 0, y: 0 };
+
+export const DEFAULT_MAX_ZOOM = 4;
+
+export const DEFAULT_ZOOM_STEP = 1.25;
+
+/**
+ * Keeps the zoom between `1` and `maxZoom`, and the offsets within the edges of the zoomed video
+ * so that it always covers the tile.
+ */
+export function clampViewport(
+  { zoom, x, y }: VideoViewport,
+  { width, height }: ViewportSize,
+  maxZoom = DEFAULT_MAX_ZOOM
+): VideoViewport {
+  const clampedZoom = Math.min(maxZoom, Math.max(1, zoom));
+  const maxX = ((clampedZoom - 1) * width) / 2;
+  const maxY = ((clampedZoom - 1) * height) / 2;
+  return {
+    zoom: clampedZoom,
+    x: Math.min(maxX, Math.max(-maxX, x)),
+    y: Math.min(maxY, Math.max(-maxY, y)),
+  };
+}
+
+/**
+ * Zooms the video, keeping the point at `origin` from the center of the tile in place,
+ * such as the position of the pointer.
+ */
+export function zoomViewport(
+  viewport: VideoViewport,
+  zoom: number,
+  size: ViewportSize,
+  maxZoom = DEFAULT_MAX_ZOOM,
+  origin: [number, number] = [0, 0]
+): VideoViewport {
+  const clampedZoom = Math.min(maxZoom, Math.max(1, zoom));
+  const ratio = clampedZoom / viewport.zoom;
+  const [originX, originY] = origin;
+  return clampViewport(
+    {
+      zoom: clampedZoom,
+      x: originX - ratio * (originX - viewport.x),
+      y: originY - ratio * (originY - viewport.y),
+    },
+    size,
+    maxZoom
+  );
+}
+
+export function panViewport(
+  viewport: VideoViewport,
+  deltaX: number,
+  deltaY: number,
+  size: ViewportSize,
+  maxZoom = DEFAULT_MAX_ZOOM
+): VideoViewport {
+  return clampViewport(
+    { ...viewport, x: viewport.x + deltaX, y: viewport.y + deltaY },
+    size,
+    maxZoom
+  );
+}
+
+export function getViewportTransform({ zoom, x, y }: VideoViewport): string {
+  return `translate(${x}px, ${y}px) scale(${zoom})`;
+}
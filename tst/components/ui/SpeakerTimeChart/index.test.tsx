@@ -0,0 +1,62 @@
+// Copyright Amazon.com, Inc. or its affiliates. All Rights Reserved.
+// SPDX-License-Identifier: Apache-2.0
+
+import '@testing-library/jest-dom';
+
+import React from 'react';
+
+import SpeakerTimeChart from '../../../../src/components/ui/SpeakerTimeChart';
+import lightTheme from '../../../../src/theme/light';
+import { renderWithTheme } from '../../../test-helpers';
+
+const speakers = [
+  { attendeeId: 'attendee-1', name: 'Alice', talkTimeMs: 90000 },
+  { attendeeId: 'attendee-2', talkTimeMs: 30000 },
+];
+
+describe('SpeakerTimeChart', () => {
+  it('should render a row for each speaker', () => {
+    const component = <SpeakerTimeChart speakers={speakers} />;
+    const { getAllByTestId, getByText } = renderWithTheme(
+      lightTheme,
+      component
+    );
+    expect(getAllByTestId('speaker-time-row')).toHaveLength(2);
+    expect(getByText('Alice')).toBeInTheDocument();
+    expect(getByText('attendee-2')).toBeInTheDocument();
+    expect(getByText('1:30')).toBeInTheDocument();
+  });
+
+  it('should size the bars relative to the total speaking time', () => {
+    const component = <SpeakerTimeChart speakers={speakers} />;
+    const { getAllByTestId } = renderWithTheme(lightTheme, component);
+    const bars = getAllByTestId('speaker-time-bar');
+    expect(bars[0]).toHaveAttribute('width', '75%');
+    expect(bars[1]).toHaveAttribute('width', '25%');
+  });
+
+  it('should size the bars relative to the given total', () => {
+    const component = (
+      <SpeakerTimeChart
+        speakers={speakers}
+        totalMs={300000}
+        formatDuration={(durationMs): string => `${durationMs / 1000}s`}
+      />
+    );
+    const { getAllByTestId, getByText } = renderWithTheme(
+      lightTheme,
+      component
+    );
+    expect(getAllByTestId('speaker-time-bar')[0]).toHaveAttribute(
+      'width',
+      '30%'
+    );
+    expect(getByText('90s')).toBeInTheDocument();
+  });
+
+  it('should render an accessible title', () => {
+    const component = <SpeakerTimeChart speakers={[]} title="Talk time" />;
+    const { getByRole } = renderWithTheme(lightTheme, component);
+    expect(getByRole('img')).toHaveAttribute('aria-label', 'Talk time');
+  });
+});
@@ -0,0 +1,163 @@
+// Copyright Amazon.com, Inc. or its affiliates. All Rights Reserved.
+// SPDX-License-Identifier: Apache-2.0
+
+import { renderHook, waitFor } from '@testing-library/react';
+import { DefaultDeviceController } from 'amazon-chime-sdk-js';
+
+import {
+  detectMutedSpeech,
+  initialMutedSpeechState,
+  MutedSpeechState,
+  useMutedSpeechDetection,
+} from '../../../src/hooks/sdk/useMutedSpeechDetection';
+
+let mockMuted = true;
+let mockSelectedDevice: unknown;
+
+jest.mock('../../../src/hooks/sdk/useToggleLocalMute', () => ({
+  useToggleLocalMute: () => ({ muted: mockMuted }),
+}));
+
+jest.mock('../../../src/providers/DevicesProvider', () => ({
+  useAudioInputs: () => ({ selectedDevice: mockSelectedDevice }),
+}));
+
+const options = { threshold: 0.3, minDurationMs: 1000, cooldownMs: 30000 };
+
+const detect = (levels: [number, number][]): number[] => {
+  let state: MutedSpeechState = initialMutedSpeechState;
+  const detections: number[] = [];
+  levels.forEach(([level, now]) => {
+    const result = detectMutedSpeech(state, level, now, options);
+    state = result.state;
+    if (result.detected) {
+      detections.push(now);
+    }
+  });
+  return detections;
+};
+
+describe('detectMutedSpeech', () => {
+  it('should detect speech longer than the minimum duration', () => {
+    expect(
+      detect([
+        [0.5, 0],
+        [0.1, 300],
+        [0.6, 600],
+        [0.5, 1000],
+        [0.5, 1200],
+      ])
+    ).toEqual([1000]);
+  });
+
+  it('should ignore short sounds and quiet levels', () => {
+    expect(
+      detect([
+        [0.5, 0],
+        [0.5, 500],
+        [0.5, 2000],
+        [0.5, 2500],
+        [0.2, 4000],
+        [0.2, 6000],
+      ])
+    ).toEqual([]);
+  });
+
+  it('should not detect again within the cooldown', () => {
+    expect(
+      detect([
+        [0.5, 0],
+        [0.5, 1000],
+        [0.5, 10000],
+        [0.5, 11000],
+        [0.5, 40000],
+        [0.5, 41000],
+      ])
+    ).toEqual([1000, 41000]);
+  });
+});
+
+describe('useMutedSpeechDetection', () => {
+  class FakeMediaStream {
+    constructor(private tracks: MediaStreamTrack[]) {}
+
+    getAudioTracks(): MediaStreamTrack[] {
+      return this.tracks;
+    }
+
+    getTracks(): MediaStreamTrack[] {
+      return this.tracks;
+    }
+  }
+
+  const createTrack = (enabled: boolean): MediaStreamTrack => {
+    const track: { enabled: boolean; stop: jest.Mock; clone: jest.Mock } = {
+      enabled,
+      stop: jest.fn(),
+      clone: jest.fn(() => createTrack(track.enabled)),
+    };
+    return track as unknown as MediaStreamTrack;
+  };
+
+  const meteredStreams: FakeMediaStream[] = [];
+  const source = { connect: jest.fn(), disconnect: jest.fn() };
+  const analyser = {
+    fftSize: 32,
+    // The loudest level, which a disabled track never reaches
+    getByteTimeDomainData: (data: Uint8Array): void => {
+      data.fill(255);
+    },
+  };
+
+  beforeEach(() => {
+    mockMuted = true;
+    meteredStreams.length = 0;
+    // @ts-ignore
+    global.MediaStream = FakeMediaStream;
+    jest.spyOn(DefaultDeviceController, 'getAudioContext').mockReturnValue({
+      createMediaStreamSource: (stream: FakeMediaStream) => {
+        meteredStreams.push(stream);
+        return source;
+      },
+      createAnalyser: () => analyser,
+    } as unknown as AudioContext);
+    jest
+      .spyOn(window, 'requestAnimationFrame')
+      .mockImplementation((callback) => setTimeout(callback, 10) as any);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should meter an enabled copy of the disabled track while muted', async () => {
+    const track = createTrack(false);
+    mockSelectedDevice = new FakeMediaStream([track]);
+    const onMutedSpeech = jest.fn();
+
+    const { result, unmount } = renderHook(() =>
+      useMutedSpeechDetection({ minDurationMs: 0, onMutedSpeech })
+    );
+
+    await waitFor(() => expect(result.current.mutedSpeechDetected).toBe(true));
+    expect(onMutedSpeech).toHaveBeenCalledTimes(1);
+    const [meterTrack] = meteredStreams[0].getTracks();
+    expect(meterTrack).not.toBe(track);
+    expect(meterTrack.enabled).toBe(true);
+    expect(track.enabled).toBe(false);
+
+    unmount();
+    expect(meterTrack.stop).toHaveBeenCalled();
+    expect(track.stop).not.toHaveBeenCalled();
+  });
+
+  it('should not meter the audio input while unmuted', async () => {
+    mockMuted = false;
+    mockSelectedDevice = new FakeMediaStream([createTrack(true)]);
+
+    renderHook(() => useMutedSpeechDetection());
+    await new Promise((resolve) => setTimeout(resolve, 50));
+
+    expect(meteredStreams).toEqual([]);
+  });
+});
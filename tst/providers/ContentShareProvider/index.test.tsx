@@ -6,7 +6,13 @@ import { renderHook, act } from '@testing-library/react';
 import {
   ContentShareProvider,
   useContentShareControls,
+  useContentShareState,
 } from '../../../src/providers/ContentShareProvider';
+import {
+  ContentShareErrorType,
+  ContentSharePolicy,
+  ContentShareSourceType,
+} from '../../../src/types';
 
 // Mock audioVideo object
 const mockAudioVideo = {
@@ -37,19 +43,115 @@ describe('toggleContentShare', () => {
   });
 
   it('Can catch error from startContentShareFromScreenCapture', async () => {
-    mockAudioVideo.startContentShareFromScreenCapture = jest.fn(() => Promise.reject(new Error('startContentShare error')));
+    const error = new Error('startContentShare error');
+    mockAudioVideo.startContentShareFromScreenCapture = jest.fn(() => Promise.reject(error));
+    const { result } = renderHook(() => useContentShareControls(), {
+      wrapper: ({ children }) => (
+        <ContentShareProvider>{children}</ContentShareProvider>
+      ),
+    });
+    let shareResult;
+    await act(async () => {
+      shareResult = await result.current.toggleContentShare();
+    });
+    expect(shareResult).toEqual({
+      sharing: false,
+      error: { type: ContentShareErrorType.FAILED, error },
+    });
+  });
+
+  it('Should report a cancelled content share', async () => {
+    const error = new Error('Permission denied');
+    error.name = 'NotAllowedError';
+    mockAudioVideo.startContentShareFromScreenCapture = jest.fn(() => Promise.reject(error));
+    const onContentShareError = jest.fn();
+    const { result } = renderHook(
+      () => ({
+        controls: useContentShareControls(),
+        state: useContentShareState(),
+      }),
+      {
+        wrapper: ({ children }) => (
+          <ContentShareProvider onContentShareError={onContentShareError}>
+            {children}
+          </ContentShareProvider>
+        ),
+      }
+    );
+    await act(async () => {
+      await result.current.controls.toggleContentShare();
+    });
+    const contentShareError = { type: ContentShareErrorType.CANCELLED, error };
+    expect(result.current.state.error).toEqual(contentShareError);
+    expect(result.current.state.isLocalShareLoading).toBe(false);
+    expect(onContentShareError).toHaveBeenCalledWith(contentShareError);
+  });
+});
+
+describe('toggleContentShare with a content share source', () => {
+  const stream = { getTracks: () => [] };
+
+  beforeEach(() => {
+    mockAudioVideo.startContentShare = jest.fn();
+    Object.defineProperty(navigator, 'mediaDevices', {
+      value: { getDisplayMedia: jest.fn(() => Promise.resolve(stream)) },
+      configurable: true,
+    });
+  });
+
+  it('Should share the display picked for the source', async () => {
     const { result } = renderHook(() => useContentShareControls(), {
       wrapper: ({ children }) => (
         <ContentShareProvider>{children}</ContentShareProvider>
       ),
     });
-    await expect(async () => { 
-      await act(async () => {
-        await result.current.toggleContentShare();
+    await act(async () => {
+      await result.current.toggleContentShare({
+        type: ContentShareSourceType.TAB,
+        frameRate: 30,
+      });
+    });
+    expect(navigator.mediaDevices.getDisplayMedia).toHaveBeenCalledWith({
+      audio: true,
+      video: { displaySurface: 'browser', frameRate: { max: 30 } },
+      selfBrowserSurface: 'exclude',
+    });
+    expect(mockAudioVideo.startContentShare).toHaveBeenCalledWith(stream);
+  });
+});
+
+describe('content share policy', () => {
+  it('Should not start sharing while another attendee shares with the first wins policy', async () => {
+    mockAudioVideo.startContentShareFromScreenCapture = jest.fn();
+    (mockAudioVideo as any).audioVideoController = {
+      realtimeController: { state: { localAttendeeId: 'local' } },
+    };
+    const { result } = renderHook(() => useContentShareControls(), {
+      wrapper: ({ children }) => (
+        <ContentShareProvider policy={ContentSharePolicy.FIRST_WINS}>
+          {children}
+        </ContentShareProvider>
+      ),
+    });
+    const observer = mockAudioVideo.addObserver.mock.calls[
+      mockAudioVideo.addObserver.mock.calls.length - 1
+    ][0];
+    act(() => {
+      observer.videoTileDidUpdate({
+        tileId: 1,
+        isContent: true,
+        boundAttendeeId: 'remote#content',
+      });
+    });
+
+    let shareResult;
+    await act(async () => {
+      shareResult = await result.current.toggleContentShare();
+    });
+    expect(shareResult).toEqual({
+      sharing: false,
+      error: { type: ContentShareErrorType.SHARED_BY_OTHER },
     });
-    }).rejects.toThrow('startContentShare error');
-    // expect(() => {
-    //     result.current.toggleContentShare();
-    //   }).toThrow('startContentShare error');
+    expect(mockAudioVideo.startContentShareFromScreenCapture).not.toHaveBeenCalled();
   });
-});
\ No newline at end of file
+});
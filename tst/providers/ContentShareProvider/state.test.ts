@@ -0,0 +1,133 @@
+// Copyright Amazon.com, Inc. or its affiliates. All Rights Reserved.
+// SPDX-License-Identifier: Apache-2.0
+
+import { VideoTileState } from 'amazon-chime-sdk-js';
+
+import {
+  ContentActionType,
+  ContentShareReducerState,
+  getContentShareState,
+  initialState,
+  reducer,
+} from '../../../src/providers/ContentShareProvider/state';
+import { ContentSharePolicy } from '../../../src/types';
+
+const update = (
+  state: ContentShareReducerState,
+  tileId: number,
+  attendeeId: string,
+  isLocalUser = false
+): ContentShareReducerState =>
+  reducer(state, {
+    type: ContentActionType.UPDATE,
+    payload: {
+      isLocalUser,
+      tileState: {
+        tileId,
+        boundAttendeeId: `${attendeeId}#content`,
+      } as VideoTileState,
+    },
+  });
+
+describe('reducer', () => {
+  it('should track every content share, oldest first', () => {
+    let state = update(initialState, 3, 'bob');
+    state = update(state, 1, 'alice', true);
+    state = update(state, 3, 'bob');
+
+    expect(state.tiles).toEqual([
+      {
+        tileId: 1,
+        attendeeId: 'alice',
+        boundAttendeeId: 'alice#content',
+        isLocalUser: true,
+      },
+      {
+        tileId: 3,
+        attendeeId: 'bob',
+        boundAttendeeId: 'bob#content',
+        isLocalUser: false,
+      },
+    ]);
+  });
+
+  it('should remove content shares', () => {
+    let state = update(initialState, 1, 'alice', true);
+    state = update(state, 2, 'bob');
+    state = reducer(state, { type: ContentActionType.TOGGLE_PAUSE });
+    expect(state.paused).toBe(true);
+
+    state = reducer(state, { type: ContentActionType.REMOVE, payload: 1 });
+    expect(state.tiles.map(({ tileId }) => tileId)).toEqual([2]);
+    expect(state.paused).toBe(false);
+  });
+
+  it('should only remove the local content share when it stops', () => {
+    let state = update(initialState, 1, 'alice', true);
+    state = update(state, 2, 'bob');
+    state = reducer(state, { type: ContentActionType.DID_STOP });
+
+    expect(state.tiles.map(({ attendeeId }) => attendeeId)).toEqual(['bob']);
+  });
+});
+
+describe('getContentShareState', () => {
+  let state = update(initialState, 1, 'alice');
+  state = update(state, 2, 'bob', true);
+  state = update(state, 3, 'carol');
+
+  const tileIds = (policy: ContentSharePolicy, max = 2) => {
+    const { shares, queuedShares, tileId } = getContentShareState(
+      state,
+      policy,
+      max
+    );
+    return {
+      shares: shares.map((share) => share.tileId),
+      queuedShares: queuedShares.map((share) => share.tileId),
+      tileId,
+    };
+  };
+
+  it('should show the newest content share', () => {
+    expect(tileIds(ContentSharePolicy.NEWEST_WINS)).toEqual({
+      shares: [3],
+      queuedShares: [1, 2],
+      tileId: 3,
+    });
+  });
+
+  it('should show the first content share', () => {
+    expect(tileIds(ContentSharePolicy.FIRST_WINS)).toEqual({
+      shares: [1],
+      queuedShares: [2, 3],
+      tileId: 1,
+    });
+  });
+
+  it('should show the first content shares up to the limit', () => {
+    expect(tileIds(ContentSharePolicy.ALLOW_CONCURRENT)).toEqual({
+      shares: [1, 2],
+      queuedShares: [3],
+      tileId: 2,
+    });
+    expect(tileIds(ContentSharePolicy.ALLOW_CONCURRENT, 0).shares).toEqual([1]);
+  });
+
+  it('should report the sharing attendee and whether the local user shares', () => {
+    expect(
+      getContentShareState(state, ContentSharePolicy.NEWEST_WINS, 2)
+    ).toMatchObject({
+      sharingAttendeeId: 'carol#content',
+      isLocalUserSharing: true,
+    });
+    expect(
+      getContentShareState(initialState, ContentSharePolicy.NEWEST_WINS, 2)
+    ).toMatchObject({
+      tileId: null,
+      sharingAttendeeId: null,
+      isLocalUserSharing: false,
+      shares: [],
+    });
+  });
+});
@@ -0,0 +1,163 @@
+// Copyright Amazon.com, Inc. or its affiliates. All Rights Reserved.
+// SPDX-License-Identifier: Apache-2.0
+
+import {
+  AudioVideoFacade,
+  ConsoleLogger,
+  DataMessage,
+  LogLevel,
+} from 'amazon-chime-sdk-js';
+
+import {
+  DataMessageChannel,
+  DataMessageStatus,
+} from '../../../src/providers/DataMessagesProvider/DataMessageChannel';
+import { encodeFrames } from '../../../src/providers/DataMessagesProvider/codecs';
+
+describe('DataMessageChannel', () => {
+  const logger = new ConsoleLogger('DataMessageChannel', LogLevel.OFF);
+  let receive: (dataMessage: DataMessage) => void;
+  let audioVideo: AudioVideoFacade;
+  let channel: DataMessageChannel;
+
+  const sentFrames = (): Uint8Array[] =>
+    (audioVideo.realtimeSendDataMessage as jest.Mock).mock.calls.map(
+      ([, frame]) => frame
+    );
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    audioVideo = {
+      realtimeSendDataMessage: jest.fn(),
+      realtimeSubscribeToReceiveDataMessage: jest.fn(
+        (_topic, callback) => (receive = callback)
+      ),
+      realtimeUnsubscribeFromReceiveDataMessage: jest.fn(),
+    } as unknown as AudioVideoFacade;
+    channel = new DataMessageChannel(audioVideo, 'local', logger, {
+      maxMessageSize: 4096,
+      maxMessagesPerSecond: 10,
+      retryPolicy: { maxAttempts: 2, initialDelayMs: 100, jitter: 0 },
+    });
+  });
+
+  afterEach(() => {
+    channel.destroy();
+    jest.useRealTimers();
+  });
+
+  it('should reject invalid topics and oversized messages', () => {
+    expect(() => channel.send('invalid topic', new Uint8Array())).toThrow();
+    expect(() => channel.send('chat', new Uint8Array(5000))).toThrow();
+  });
+
+  it('should pace the frames and mark the message as sent', () => {
+    const observer = jest.fn();
+    channel.subscribeToMessages('chat', observer);
+
+    const entry = channel.send('chat', new Uint8Array(3000), 1000);
+
+    expect(entry).toMatchObject({
+      senderAttendeeId: 'local',
+      local: true,
+      status: DataMessageStatus.QUEUED,
+    });
+    jest.advanceTimersByTime(0);
+    expect(sentFrames()).toHaveLength(1);
+    expect(audioVideo.realtimeSendDataMessage).toHaveBeenCalledWith(
+      'chat',
+      expect.any(Uint8Array),
+      1000
+    );
+
+    jest.advanceTimersByTime(100);
+    expect(sentFrames()).toHaveLength(2);
+    expect(channel.getMessages('chat')[0].status).toBe(DataMessageStatus.SENT);
+    expect(observer).toHaveBeenLastCalledWith([
+      { ...entry, status: DataMessageStatus.SENT },
+    ]);
+  });
+
+  it('should send throttled frames again, then mark the message as failed', () => {
+    channel.send('chat', Uint8Array.from([1]));
+    jest.advanceTimersByTime(0);
+
+    receive(new DataMessage(1, 'chat', sentFrames()[0], 'local', 'me', true));
+    expect(channel.getMessages('chat')[0].status).toBe(
+      DataMessageStatus.QUEUED
+    );
+
+    jest.advanceTimersByTime(200);
+    expect(sentFrames()).toHaveLength(2);
+    expect(channel.getMessages('chat')[0].status).toBe(DataMessageStatus.SENT);
+
+    receive(new DataMessage(2, 'chat', sentFrames()[1], 'local', 'me', true));
+    jest.advanceTimersByTime(1000);
+    expect(sentFrames()).toHaveLength(2);
+    expect(channel.getMessages('chat')[0].status).toBe(
+      DataMessageStatus.FAILED
+    );
+  });
+
+  it('should mark the message as failed and keep sending when a send throws', () => {
+    (audioVideo.realtimeSendDataMessage as jest.Mock).mockImplementationOnce(
+      () => {
+        throw new Error('closed');
+      }
+    );
+    channel.send('chat', new Uint8Array(3000));
+    channel.send('chat', Uint8Array.from([1]));
+
+    jest.advanceTimersByTime(0);
+    jest.advanceTimersByTime(100);
+
+    expect(sentFrames()).toHaveLength(2);
+    expect(channel.getMessages('chat').map(({ status }) => status)).toEqual([
+      DataMessageStatus.FAILED,
+      DataMessageStatus.SENT,
+    ]);
+  });
+
+  it('should reassemble chunked messages and receive unframed messages', () => {
+    channel.subscribeToMessages('chat', jest.fn());
+    const data = new Uint8Array(3000).map((_, index) => index % 256);
+    const [first, second] = encodeFrames('remote1', data);
+
+    receive(new DataMessage(1, 'chat', second, 'remote', 'them'));
+    expect(channel.getMessages('chat')).toEqual([]);
+
+    receive(new DataMessage(2, 'chat', first, 'remote', 'them'));
+    receive(
+      new DataMessage(3, 'chat', Uint8Array.from([42]), 'remote', 'them')
+    );
+
+    expect(channel.getMessages('chat')).toEqual([
+      {
+        messageId: 'remote1',
+        topic: 'chat',
+        data,
+        senderAttendeeId: 'remote',
+        senderExternalUserId: 'them',
+        timestampMs: 2,
+        local: false,
+        status: DataMessageStatus.SENT,
+      },
+      expect.objectContaining({ messageId: '3', data: Uint8Array.from([42]) }),
+    ]);
+  });
+
+  it('should keep the most recent messages of each topic', () => {
+    const smallChannel = new DataMessageChannel(audioVideo, 'local', logger, {
+      logSize: 2,
+    });
+
+    [1, 2, 3].forEach((value) =>
+      smallChannel.send('chat', Uint8Array.from([value]))
+    );
+
+    expect(smallChannel.getMessages('chat').map(({ data }) => data[0])).toEqual(
+      [2, 3]
+    );
+    smallChannel.destroy();
+  });
+});
@@ -0,0 +1,58 @@
+// Copyright Amazon.com, Inc. or its affiliates. All Rights Reserved.
+// SPDX-License-Identifier: Apache-2.0
+
+import { TextDecoder, TextEncoder } from 'util';
+
+import {
+  concatChunks,
+  decodeFrame,
+  encodeFrames,
+  jsonCodec,
+  MAX_DATA_MESSAGE_SIZE,
+} from '../../../src/providers/DataMessagesProvider/codecs';
+
+Object.assign(global, { TextDecoder, TextEncoder });
+
+describe('data message codecs', () => {
+  it('should encode and decode JSON payloads', () => {
+    const payload = { text: 'héllo', count: 2 };
+
+    expect(jsonCodec.decode(jsonCodec.encode(payload))).toEqual(payload);
+  });
+
+  it('should fit small payloads in one frame', () => {
+    const data = Uint8Array.from([1, 2, 3]);
+    const frames = encodeFrames('abc', data);
+
+    expect(frames).toHaveLength(1);
+    expect(decodeFrame(frames[0])).toEqual({
+      messageId: 'abc',
+      index: 0,
+      count: 1,
+      data,
+    });
+  });
+
+  it('should split large payloads into frames that fit in a data message', () => {
+    const data = new Uint8Array(5000).map((_, index) => index % 256);
+    const frames = encodeFrames('abc', data);
+
+    expect(frames).toHaveLength(3);
+    frames.forEach((frame) =>
+      expect(frame.length).toBeLessThanOrEqual(MAX_DATA_MESSAGE_SIZE)
+    );
+
+    const decodedFrames = frames.map(decodeFrame);
+    expect(decodedFrames.map((frame) => frame?.index)).toEqual([0, 1, 2]);
+    expect(
+      concatChunks(
+        decodedFrames.map((frame) => frame?.data || new Uint8Array())
+      )
+    ).toEqual(data);
+  });
+
+  it('should not decode unframed data', () => {
+    expect(decodeFrame(Uint8Array.from([123, 125]))).toBeNull();
+    expect(decodeFrame(Uint8Array.from([0x1e, 97, 10]))).toBeNull();
+  });
+});
@@ -0,0 +1,41 @@
+// Copyright Amazon.com, Inc. or its affiliates. All Rights Reserved.
+// SPDX-License-Identifier: Apache-2.0
+
+import React from 'react';
+import { renderHook } from '@testing-library/react';
+
+import {
+  DataMessagesProvider,
+  useDataMessages,
+} from '../../../src/providers/DataMessagesProvider';
+
+jest.mock('../../../src/providers/AudioVideoProvider', () => ({
+  useAudioVideo: () => null,
+}));
+
+jest.mock('../../../src/providers/MeetingProvider', () => ({
+  useMeetingManager: () => ({}),
+}));
+
+describe('useDataMessages', () => {
+  it('should throw without a DataMessagesProvider', () => {
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+
+    expect(() => renderHook(() => useDataMessages('chat'))).toThrow(
+      'useDataMessages must be used within DataMessagesProvider'
+    );
+  });
+
+  it('should throw when sending before the meeting session starts', () => {
+    const { result } = renderHook(() => useDataMessages('chat'), {
+      wrapper: ({ children }) => (
+        <DataMessagesProvider>{children}</DataMessagesProvider>
+      ),
+    });
+
+    expect(result.current.messages).toEqual([]);
+    expect(() => result.current.send('hello')).toThrow(
+      'Cannot send data messages before the meeting session starts'
+    );
+  });
+});
@@ -0,0 +1,79 @@
+// Copyright Amazon.com, Inc. or its affiliates. All Rights Reserved.
+// SPDX-License-Identifier: Apache-2.0
+
+import React from 'react';
+import { act, renderHook, waitFor } from '@testing-library/react';
+import { ConsoleLogger, DeviceChangeObserver } from 'amazon-chime-sdk-js';
+
+import {
+  AudioInputProvider,
+  useAudioInputs,
+} from '../../../src/providers/DevicesProvider/AudioInputProvider';
+import { InMemoryDevicePreferenceStore } from '../../../src/providers/MeetingProvider/DevicePreferenceStore';
+import { MeetingManager } from '../../../src/providers/MeetingProvider/MeetingManager';
+import { DeviceLabels } from '../../../src/types';
+
+const builtIn = {
+  deviceId: 'built-in',
+  label: 'Built-in',
+  groupId: 'built-in',
+} as MediaDeviceInfo;
+const headset = {
+  deviceId: 'headset',
+  label: 'Headset',
+  groupId: 'headset',
+} as MediaDeviceInfo;
+
+const mockAudioVideo = {
+  listAudioInputDevices: jest.fn().mockResolvedValue([builtIn, headset]),
+  startAudioInput: jest.fn().mockResolvedValue(undefined),
+  addDeviceChangeObserver: jest.fn(),
+  removeDeviceChangeObserver: jest.fn(),
+};
+let mockMeetingManager: MeetingManager;
+
+jest.mock('../../../src/providers/AudioVideoProvider', () => ({
+  useAudioVideo: () => mockAudioVideo,
+}));
+
+jest.mock('../../../src/providers/MeetingProvider', () => ({
+  useMeetingManager: () => mockMeetingManager,
+}));
+
+describe('AudioInputProvider', () => {
+  beforeEach(() => {
+    mockMeetingManager = new MeetingManager(
+      new ConsoleLogger('MeetingManager'),
+      new InMemoryDevicePreferenceStore()
+    );
+    // @ts-ignore
+    mockMeetingManager.audioVideo = mockAudioVideo;
+    // @ts-ignore
+    mockMeetingManager.deviceLabels = DeviceLabels.Audio;
+  });
+
+  it('should keep the preferred device when it is unplugged', async () => {
+    mockMeetingManager.audioInputDevices = [builtIn, headset];
+    await mockMeetingManager.startAudioInputDevice('headset');
+    const { result } = renderHook(() => useAudioInputs(), {
+      wrapper: ({ children }) => (
+        <AudioInputProvider>{children}</AudioInputProvider>
+      ),
+    });
+    await waitFor(() =>
+      expect(mockAudioVideo.addDeviceChangeObserver).toHaveBeenCalled()
+    );
+
+    const [observer]: [DeviceChangeObserver] =
+      mockAudioVideo.addDeviceChangeObserver.mock.calls[0];
+    await act(async () => {
+      await observer.audioInputsChanged?.([builtIn]);
+    });
+
+    expect(mockAudioVideo.startAudioInput).toHaveBeenLastCalledWith('built-in');
+    expect(result.current.selectedDevice).toBe('built-in');
+    expect(
+      mockMeetingManager.devicePreferenceStore.get('audioinput')
+    ).toMatchObject({ deviceId: 'headset', label: 'Headset' });
+  });
+});
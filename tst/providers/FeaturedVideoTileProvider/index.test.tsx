@@ -0,0 +1,124 @@
+// Copyright Amazon.com, Inc. or its affiliates. All Rights Reserved.
+// SPDX-License-Identifier: Apache-2.0
+
+import React from 'react';
+import { act, renderHook } from '@testing-library/react';
+import { DataMessage } from 'amazon-chime-sdk-js';
+import { TextDecoder, TextEncoder } from 'util';
+
+import {
+  FeaturedTilePolicy,
+  FeaturedVideoTileProvider,
+  useFeaturedTileState,
+} from '../../../src/providers/FeaturedVideoTileProvider';
+
+Object.assign(global, { TextDecoder, TextEncoder });
+
+const createAudioVideo = () => {
+  const audioVideo = {
+    receiveCallback: null as ((dataMessage: DataMessage) => void) | null,
+    realtimeSubscribeToReceiveDataMessage: jest.fn(
+      (_topic: string, callback: (dataMessage: DataMessage) => void) => {
+        audioVideo.receiveCallback = callback;
+      }
+    ),
+    realtimeUnsubscribeFromReceiveDataMessage: jest.fn(),
+    realtimeSendDataMessage: jest.fn(),
+  };
+  return audioVideo;
+};
+
+let mockAudioVideo: ReturnType<typeof createAudioVideo>;
+const mockMeetingManager = {
+  meetingSessionConfiguration: { credentials: { attendeeId: 'local' } },
+  subscribeToActiveSpeaker: jest.fn(),
+  unsubscribeFromActiveSpeaker: jest.fn(),
+};
+const mockRoster = {
+  local: { chimeAttendeeId: 'local', metadata: {} as { role?: string } },
+  host: { chimeAttendeeId: 'host', metadata: { role: 'host' } },
+  guest: { chimeAttendeeId: 'guest', metadata: {} },
+};
+
+jest.mock('../../../src/providers/AudioVideoProvider', () => ({
+  useAudioVideo: () => mockAudioVideo,
+}));
+
+jest.mock('../../../src/providers/MeetingProvider', () => ({
+  useMeetingManager: () => mockMeetingManager,
+}));
+
+jest.mock('../../../src/providers/RosterProvider', () => ({
+  useRosterState: () => ({ roster: mockRoster }),
+}));
+
+jest.mock('../../../src/providers/RemoteVideoTileProvider', () => ({
+  useRemoteVideoTileState: () => ({
+    tiles: [1, 2],
+    attendeeIdToTileId: { host: 1, guest: 2 },
+  }),
+}));
+
+describe('FeaturedVideoTileProvider', () => {
+  const renderFeaturedTile = () =>
+    renderHook(() => useFeaturedTileState(), {
+      wrapper: ({ children }) => (
+        <FeaturedVideoTileProvider policy={FeaturedTilePolicy.PINNED}>
+          {children}
+        </FeaturedVideoTileProvider>
+      ),
+    });
+
+  const receive = (senderAttendeeId: string, payload: unknown): void => {
+    const data = new TextEncoder().encode(JSON.stringify(payload));
+    act(() =>
+      mockAudioVideo.receiveCallback?.(
+        new DataMessage(1, 'spotlight', data, senderAttendeeId, '')
+      )
+    );
+  };
+
+  beforeEach(() => {
+    mockAudioVideo = createAudioVideo();
+    mockRoster.local.metadata = {};
+  });
+
+  it('should feature the tile spotlighted by a remote host', () => {
+    const { result } = renderFeaturedTile();
+    expect(result.current.tileId).toBeNull();
+
+    receive('host', { attendeeId: 'guest' });
+
+    expect(result.current.spotlightAttendeeId).toBe('guest');
+    expect(result.current).toMatchObject({ tileId: 2, pinned: true });
+
+    receive('host', { attendeeId: null });
+
+    expect(result.current.tileId).toBeNull();
+  });
+
+  it('should ignore the spotlight of attendees who are not hosts', () => {
+    const { result } = renderFeaturedTile();
+
+    receive('guest', { attendeeId: 'guest' });
+
+    expect(result.current.spotlightAttendeeId).toBeNull();
+    expect(result.current.canSpotlight).toBe(false);
+    expect(() => result.current.spotlightTile('guest')).toThrow(
+      'Only hosts can spotlight attendees'
+    );
+  });
+
+  it('should send the spotlight of the local host', () => {
+    mockRoster.local.metadata = { role: 'host' };
+    const { result } = renderFeaturedTile();
+
+    act(() => result.current.spotlightTile('guest'));
+
+    expect(mockAudioVideo.realtimeSendDataMessage).toHaveBeenCalledWith(
+      'spotlight',
+      { attendeeId: 'guest' }
+    );
+    expect(result.current.tileId).toBe(2);
+  });
+});
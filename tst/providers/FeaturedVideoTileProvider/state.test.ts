@@ -0,0 +1,102 @@
+// Copyright Amazon.com, Inc. or its affiliates. All Rights Reserved.
+// SPDX-License-Identifier: Apache-2.0
+
+import {
+  FeaturedTilePolicy,
+  getNextRoundRobinTileId,
+  isContentFeatured,
+  isSpotlightEvent,
+  selectFeaturedTile,
+} from '../../../src/providers/FeaturedVideoTileProvider/state';
+
+describe('selectFeaturedTile', () => {
+  const options = {
+    policy: FeaturedTilePolicy.ACTIVE_SPEAKER,
+    tiles: [1, 2, 3],
+    attendeeIdToTileId: { alice: 1, bob: 2, carol: 3 },
+    pinnedAttendeeId: null,
+    spotlightAttendeeId: null,
+    activeSpeakerTileId: 2,
+    roundRobinTileId: 3,
+  };
+
+  it('should feature the active speaker', () => {
+    expect(selectFeaturedTile(options)).toEqual({ tileId: 2, pinned: false });
+  });
+
+  it('should feature the pinned attendee over the policy', () => {
+    expect(
+      selectFeaturedTile({ ...options, pinnedAttendeeId: 'alice' })
+    ).toEqual({ tileId: 1, pinned: true });
+  });
+
+  it('should feature the spotlighted attendee over the pinned attendee', () => {
+    expect(
+      selectFeaturedTile({
+        ...options,
+        pinnedAttendeeId: 'alice',
+        spotlightAttendeeId: 'carol',
+      })
+    ).toEqual({ tileId: 3, pinned: true });
+  });
+
+  it('should fall back to the policy when the pinned attendee has no tile', () => {
+    expect(
+      selectFeaturedTile({ ...options, pinnedAttendeeId: 'dave' })
+    ).toEqual({ tileId: 2, pinned: false });
+  });
+
+  it('should only feature pinned attendees with the pinned policy', () => {
+    expect(
+      selectFeaturedTile({ ...options, policy: FeaturedTilePolicy.PINNED })
+    ).toEqual({ tileId: null, pinned: false });
+  });
+
+  it('should feature the round-robin tile, or the first tile once it is removed', () => {
+    const policy = FeaturedTilePolicy.ROUND_ROBIN;
+
+    expect(selectFeaturedTile({ ...options, policy })).toEqual({
+      tileId: 3,
+      pinned: false,
+    });
+    expect(selectFeaturedTile({ ...options, policy, tiles: [1, 2] })).toEqual({
+      tileId: 1,
+      pinned: false,
+    });
+  });
+});
+
+describe('getNextRoundRobinTileId', () => {
+  it('should cycle through the tiles', () => {
+    expect(getNextRoundRobinTileId([1, 2], null)).toBe(1);
+    expect(getNextRoundRobinTileId([1, 2], 1)).toBe(2);
+    expect(getNextRoundRobinTileId([1, 2], 2)).toBe(1);
+    expect(getNextRoundRobinTileId([], 1)).toBeNull();
+  });
+});
+
+describe('isContentFeatured', () => {
+  it('should feature the content share unless a tile is pinned', () => {
+    expect(isContentFeatured(FeaturedTilePolicy.ACTIVE_SPEAKER, 5, false)).toBe(
+      true
+    );
+    expect(isContentFeatured(FeaturedTilePolicy.ACTIVE_SPEAKER, 5, true)).toBe(
+      false
+    );
+    expect(isContentFeatured(FeaturedTilePolicy.CONTENT_FIRST, 5, true)).toBe(
+      true
+    );
+    expect(
+      isContentFeatured(FeaturedTilePolicy.CONTENT_FIRST, null, false)
+    ).toBe(false);
+  });
+});
+
+describe('isSpotlightEvent', () => {
+  it('should accept an attendee ID or null', () => {
+    expect(isSpotlightEvent({ attendeeId: 'alice' })).toBe(true);
+    expect(isSpotlightEvent({ attendeeId: null })).toBe(true);
+    expect(isSpotlightEvent({ attendeeId: 1 })).toBe(false);
+    expect(isSpotlightEvent(null)).toBe(false);
+  });
+});
@@ -0,0 +1,119 @@
+// Copyright Amazon.com, Inc. or its affiliates. All Rights Reserved.
+// SPDX-License-Identifier: Apache-2.0
+
+import {
+  getLobbyState,
+  LobbyChecks,
+  LobbyFailureReason,
+  LobbyOptions,
+  LobbyStep,
+} from '../../../src/providers/LobbyProvider/state';
+import { DeviceLabelTriggerStatus } from '../../../src/types';
+
+describe('getLobbyState', () => {
+  const microphone = { deviceId: 'mic', label: 'Microphone' };
+  const camera = { deviceId: 'camera', label: 'Camera' };
+  const options: LobbyOptions = {
+    requireCamera: false,
+    skipMicCheck: false,
+    skipCameraPreview: false,
+  };
+  let checks: LobbyChecks;
+
+  beforeEach(() => {
+    checks = {
+      deviceLabelTriggerStatus: DeviceLabelTriggerStatus.GRANTED,
+      audioInputs: [microphone],
+      videoInputs: [camera],
+      hasSelectedAudioInput: true,
+      hasSelectedVideoInput: true,
+      micLevelVerified: true,
+      cameraPreviewStarted: true,
+      joined: false,
+      joinFailed: false,
+    };
+  });
+
+  it('should wait for permissions', () => {
+    checks.deviceLabelTriggerStatus = DeviceLabelTriggerStatus.IN_PROGRESS;
+    checks.audioInputs = [{ deviceId: 'mic', label: '' }];
+    checks.videoInputs = [];
+
+    expect(getLobbyState(checks, options)).toEqual({
+      step: LobbyStep.PERMISSIONS,
+      failureReason: null,
+    });
+  });
+
+  it('should consider labelled devices as granted permissions', () => {
+    checks.deviceLabelTriggerStatus = DeviceLabelTriggerStatus.UNTRIGGERED;
+
+    expect(getLobbyState(checks, options).step).toBe(LobbyStep.READY);
+  });
+
+  it('should report denied permissions', () => {
+    checks.deviceLabelTriggerStatus = DeviceLabelTriggerStatus.DENIED;
+
+    expect(getLobbyState(checks, options)).toEqual({
+      step: LobbyStep.PERMISSIONS,
+      failureReason: LobbyFailureReason.PERMISSION_DENIED,
+    });
+  });
+
+  it('should report a missing microphone', () => {
+    checks.audioInputs = [];
+
+    expect(getLobbyState(checks, options)).toEqual({
+      step: LobbyStep.DEVICE_SELECTION,
+      failureReason: LobbyFailureReason.NO_MICROPHONE,
+    });
+  });
+
+  it('should only report a missing camera when it is required', () => {
+    checks.videoInputs = [];
+    checks.hasSelectedVideoInput = false;
+
+    expect(getLobbyState(checks, options).step).toBe(LobbyStep.READY);
+    expect(
+      getLobbyState(checks, { ...options, requireCamera: true })
+    ).toEqual({
+      step: LobbyStep.DEVICE_SELECTION,
+      failureReason: LobbyFailureReason.NO_CAMERA,
+    });
+  });
+
+  it('should wait for the microphone level check unless skipped', () => {
+    checks.micLevelVerified = false;
+
+    expect(getLobbyState(checks, options).step).toBe(LobbyStep.MIC_CHECK);
+    expect(
+      getLobbyState(checks, { ...options, skipMicCheck: true }).step
+    ).toBe(LobbyStep.READY);
+  });
+
+  it('should wait for the camera preview when a camera is selected', () => {
+    checks.cameraPreviewStarted = false;
+
+    expect(getLobbyState(checks, options).step).toBe(
+      LobbyStep.CAMERA_PREVIEW
+    );
+    expect(
+      getLobbyState(checks, { ...options, skipCameraPreview: true }).step
+    ).toBe(LobbyStep.READY);
+  });
+
+  it('should report a failed join when ready', () => {
+    checks.joinFailed = true;
+
+    expect(getLobbyState(checks, options)).toEqual({
+      step: LobbyStep.READY,
+      failureReason: LobbyFailureReason.JOIN_FAILED,
+    });
+  });
+
+  it('should be joined once the meeting started', () => {
+    checks.joined = true;
+
+    expect(getLobbyState(checks, options).step).toBe(LobbyStep.JOINED);
+  });
+});
@@ -0,0 +1,66 @@
+// Copyright Amazon.com, Inc. or its affiliates. All Rights Reserved.
+// SPDX-License-Identifier: Apache-2.0
+
+import {
+  clampVolume,
+  DEFAULT_AUDIO_OUTPUT_VOLUME,
+  getEffectiveVolume,
+  getOutputLevel,
+  loadAudioOutputVolume,
+  saveAudioOutputVolume,
+} from '../../../src/providers/LocalAudioOutputProvider/state';
+
+describe('audio output volume', () => {
+  const storageKey = 'test.audio-output-volume';
+
+  afterEach(() => {
+    window.localStorage.clear();
+  });
+
+  it('should clamp the volume', () => {
+    expect(clampVolume(-1)).toBe(0);
+    expect(clampVolume(0.5)).toBe(0.5);
+    expect(clampVolume(2)).toBe(1);
+    expect(clampVolume(NaN)).toBe(1);
+  });
+
+  it('should load the saved volume', () => {
+    expect(loadAudioOutputVolume(storageKey)).toEqual(
+      DEFAULT_AUDIO_OUTPUT_VOLUME
+    );
+
+    saveAudioOutputVolume(storageKey, { volume: 0.4, muted: true });
+    expect(loadAudioOutputVolume(storageKey)).toEqual({
+      volume: 0.4,
+      muted: true,
+    });
+  });
+
+  it('should ignore invalid saved volumes', () => {
+    window.localStorage.setItem(storageKey, '{"volume": 3, "muted": "yes"}');
+    expect(loadAudioOutputVolume(storageKey)).toEqual({
+      volume: 1,
+      muted: false,
+    });
+
+    window.localStorage.setItem(storageKey, 'not json');
+    expect(loadAudioOutputVolume(storageKey)).toEqual(
+      DEFAULT_AUDIO_OUTPUT_VOLUME
+    );
+  });
+
+  it('should scale the volume while ducked', () => {
+    expect(getEffectiveVolume(0.5, false, 0.2)).toBe(0.5);
+    expect(getEffectiveVolume(0.5, true, 0.2)).toBe(0.1);
+  });
+});
+
+describe('getOutputLevel', () => {
+  it('should convert silence to 0 and full scale to 1', () => {
+    expect(getOutputLevel(new Uint8Array(8).fill(128))).toBe(0);
+    expect(getOutputLevel(new Uint8Array([128, 255, 128, 1]))).toBeCloseTo(
+      1,
+      1
+    );
+  });
+});
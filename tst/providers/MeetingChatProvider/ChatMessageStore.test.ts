@@ -0,0 +1,64 @@
+// Copyright Amazon.com, Inc. or its affiliates. All Rights Reserved.
+// SPDX-License-Identifier: Apache-2.0
+
+import { DataMessageStatus } from '../../../src/providers/DataMessagesProvider/DataMessageChannel';
+import { LocalStorageChatMessageStore } from '../../../src/providers/MeetingChatProvider/ChatMessageStore';
+import { ChatMessage } from '../../../src/providers/MeetingChatProvider/state';
+
+const createMessage = (
+  messageId: string,
+  local: boolean,
+  status: DataMessageStatus
+): ChatMessage => ({
+  messageId,
+  local,
+  status,
+  content: 'Hello',
+  createdTimestamp: '2026-10-19T00:00:00.000Z',
+  redacted: false,
+  senderName: 'Alice',
+  senderId: 'attendee-1',
+});
+
+describe('LocalStorageChatMessageStore', () => {
+  afterEach(() => {
+    window.localStorage.clear();
+  });
+
+  it('should persist the history across instances', () => {
+    const history = {
+      messages: [createMessage('sent', true, DataMessageStatus.SENT)],
+      lastReadTimestamp: '2026-10-19T00:00:00.000Z',
+    };
+    new LocalStorageChatMessageStore('test-key.').set('meeting', history);
+
+    expect(
+      new LocalStorageChatMessageStore('test-key.').get('meeting')
+    ).toEqual(history);
+
+    new LocalStorageChatMessageStore('test-key.').clear('meeting');
+    expect(
+      new LocalStorageChatMessageStore('test-key.').get('meeting')
+    ).toBeUndefined();
+  });
+
+  it('should mark the local messages that were still sending as failed', () => {
+    const store = new LocalStorageChatMessageStore();
+    store.set('meeting', {
+      messages: [
+        createMessage('queued', true, DataMessageStatus.QUEUED),
+        createMessage('sent', true, DataMessageStatus.SENT),
+      ],
+    });
+
+    expect(
+      store.get('meeting')?.messages.map(({ messageId, status }) => ({
+        messageId,
+        status,
+      }))
+    ).toEqual([
+      { messageId: 'queued', status: DataMessageStatus.FAILED },
+      { messageId: 'sent', status: DataMessageStatus.SENT },
+    ]);
+  });
+});
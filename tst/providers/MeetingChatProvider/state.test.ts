@@ -0,0 +1,165 @@
+// Copyright Amazon.com, Inc. or its affiliates. All Rights Reserved.
+// SPDX-License-Identifier: Apache-2.0
+
+import { DataMessageStatus } from '../../../src/providers/DataMessagesProvider/DataMessageChannel';
+import {
+  applyChatEvent,
+  ChatEventSender,
+  ChatMessage,
+  getUnreadCount,
+  isChatEvent,
+  resolveSenderNames,
+  setChatMessageStatus,
+} from '../../../src/providers/MeetingChatProvider/state';
+
+const alice: ChatEventSender = {
+  attendeeId: 'alice',
+  name: 'Alice',
+  timestampMs: 1000,
+  local: false,
+};
+const bob: ChatEventSender = {
+  attendeeId: 'bob',
+  name: 'Bob',
+  timestampMs: 2000,
+  local: true,
+};
+
+describe('isChatEvent', () => {
+  it('should accept valid events', () => {
+    expect(
+      isChatEvent({ type: 'message', messageId: '1', content: 'Hi' })
+    ).toBe(true);
+    expect(isChatEvent({ type: 'edit', messageId: '1', content: 'Hey' })).toBe(
+      true
+    );
+    expect(isChatEvent({ type: 'redact', messageId: '1' })).toBe(true);
+  });
+
+  it('should reject invalid events and attachments', () => {
+    expect(isChatEvent(null)).toBe(false);
+    expect(isChatEvent({ type: 'message', messageId: 1, content: 'Hi' })).toBe(
+      false
+    );
+    expect(isChatEvent({ type: 'react', messageId: '1' })).toBe(false);
+    expect(
+      isChatEvent({
+        type: 'message',
+        messageId: '1',
+        content: 'Hi',
+        attachment: { name: 'file', downloadUrl: 'javascript:alert(1)' },
+      })
+    ).toBe(false);
+  });
+});
+
+describe('applyChatEvent', () => {
+  const messages = applyChatEvent(
+    [],
+    { type: 'message', messageId: '1', content: 'Hi' },
+    alice
+  );
+
+  it('should add messages once', () => {
+    expect(messages).toEqual([
+      {
+        messageId: '1',
+        content: 'Hi',
+        attachment: undefined,
+        createdTimestamp: '1970-01-01T00:00:01.000Z',
+        redacted: false,
+        senderId: 'alice',
+        senderName: 'Alice',
+        local: false,
+        status: DataMessageStatus.SENT,
+      },
+    ]);
+    expect(
+      applyChatEvent(
+        messages,
+        { type: 'message', messageId: '1', content: 'Again' },
+        alice
+      )
+    ).toBe(messages);
+  });
+
+  it('should only let the sender edit and redact a message', () => {
+    const event = { type: 'edit' as const, messageId: '1', content: 'Hey' };
+
+    expect(applyChatEvent(messages, event, bob)).toBe(messages);
+    expect(
+      applyChatEvent(messages, event, { ...alice, timestampMs: 3000 })[0]
+    ).toMatchObject({
+      content: 'Hey',
+      lastEditedTimestamp: '1970-01-01T00:00:03.000Z',
+    });
+  });
+
+  it('should clear redacted messages and ignore their edits', () => {
+    const redacted = applyChatEvent(
+      messages,
+      { type: 'redact', messageId: '1' },
+      alice
+    );
+
+    expect(redacted[0]).toMatchObject({ content: '', redacted: true });
+    expect(
+      applyChatEvent(
+        redacted,
+        { type: 'edit', messageId: '1', content: 'Hey' },
+        alice
+      )
+    ).toBe(redacted);
+  });
+});
+
+describe('chat messages', () => {
+  const message: ChatMessage = {
+    messageId: '1',
+    content: 'Hi',
+    createdTimestamp: '2024-01-01T00:00:01.000Z',
+    redacted: false,
+    senderId: 'alice',
+    senderName: 'alice@example.com',
+    local: false,
+    status: DataMessageStatus.SENT,
+  };
+  const localMessage: ChatMessage = {
+    ...message,
+    messageId: '2',
+    senderId: 'bob',
+    local: true,
+    status: DataMessageStatus.QUEUED,
+  };
+
+  it('should only set the status of local messages', () => {
+    expect(
+      setChatMessageStatus(
+        [message, localMessage],
+        '2',
+        DataMessageStatus.FAILED
+      ).map(({ status }) => status)
+    ).toEqual([DataMessageStatus.SENT, DataMessageStatus.FAILED]);
+  });
+
+  it('should count the unread messages of other attendees', () => {
+    const messages = [
+      message,
+      localMessage,
+      { ...message, messageId: '3', redacted: true },
+    ];
+
+    expect(getUnreadCount(messages)).toBe(1);
+    expect(getUnreadCount(messages, '2024-01-01T00:00:00.000Z')).toBe(1);
+    expect(getUnreadCount(messages, '2024-01-01T00:00:01.000Z')).toBe(0);
+  });
+
+  it('should resolve the sender names from the roster', () => {
+    const messages = resolveSenderNames([message, localMessage], {
+      alice: { chimeAttendeeId: 'alice', name: 'Alice' },
+    });
+
+    expect(messages[0].senderName).toBe('Alice');
+    expect(messages[1]).toBe(localMessage);
+  });
+});
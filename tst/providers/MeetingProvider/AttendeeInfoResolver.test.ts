@@ -0,0 +1,124 @@
+// Copyright Amazon.com, Inc. or its affiliates. All Rights Reserved.
+// SPDX-License-Identifier: Apache-2.0
+
+import { ConsoleLogger, LogLevel } from 'amazon-chime-sdk-js';
+
+import {
+  AttendeeInfoResolver,
+  AttendeeInfoSource,
+} from '../../../src/providers/MeetingProvider/AttendeeInfoResolver';
+import { AttendeeRequest } from '../../../src/providers/MeetingProvider/types';
+
+describe('AttendeeInfoResolver', () => {
+  const logger = new ConsoleLogger('AttendeeInfoResolver', LogLevel.OFF);
+  const retryPolicy = { maxAttempts: 3, initialDelayMs: 1, jitter: 0 };
+
+  const createResolver = (
+    source: AttendeeInfoSource,
+    ttlMs?: number
+  ): AttendeeInfoResolver =>
+    new AttendeeInfoResolver(source, logger, {
+      ttlMs,
+      batchDelayMs: 0,
+      maxBatchSize: 2,
+      retryPolicy,
+    });
+
+  it('should resolve undefined without a lookup function', async () => {
+    const resolver = createResolver({});
+
+    expect(await resolver.resolve('attendee-1')).toBeUndefined();
+  });
+
+  it('should share concurrent lookups and cache the result', async () => {
+    const getAttendee = jest.fn().mockResolvedValue({ name: 'Alice' });
+    const resolver = createResolver({ getAttendee });
+
+    const responses = await Promise.all([
+      resolver.resolve('attendee-1', 'alice'),
+      resolver.resolve('attendee-1', 'alice'),
+    ]);
+    await resolver.resolve('attendee-1');
+
+    expect(responses).toEqual([{ name: 'Alice' }, { name: 'Alice' }]);
+    expect(getAttendee).toHaveBeenCalledTimes(1);
+    expect(getAttendee).toHaveBeenCalledWith('attendee-1', 'alice');
+  });
+
+  it('should look the attendee up again once the cache expired', async () => {
+    const getAttendee = jest.fn().mockResolvedValue({ name: 'Alice' });
+    const resolver = createResolver({ getAttendee }, 0);
+
+    await resolver.resolve('attendee-1');
+    await resolver.resolve('attendee-1');
+
+    expect(getAttendee).toHaveBeenCalledTimes(2);
+  });
+
+  it('should batch lookups with getAttendees', async () => {
+    const getAttendee = jest.fn();
+    const getAttendees = jest
+      .fn()
+      .mockImplementation(async (attendees: AttendeeRequest[]) =>
+        Object.fromEntries(
+          attendees.map(({ chimeAttendeeId }) => [
+            chimeAttendeeId,
+            { name: chimeAttendeeId.toUpperCase() },
+          ])
+        )
+      );
+    const resolver = createResolver({ getAttendee, getAttendees });
+
+    const responses = await Promise.all(
+      ['a', 'b', 'c'].map((chimeAttendeeId) =>
+        resolver.resolve(chimeAttendeeId)
+      )
+    );
+
+    expect(responses).toEqual([{ name: 'A' }, { name: 'B' }, { name: 'C' }]);
+    expect(getAttendee).not.toHaveBeenCalled();
+    expect(getAttendees).toHaveBeenCalledTimes(2);
+    expect(getAttendees).toHaveBeenNthCalledWith(1, [
+      { chimeAttendeeId: 'a', externalUserId: undefined },
+      { chimeAttendeeId: 'b', externalUserId: undefined },
+    ]);
+  });
+
+  it('should retry failed lookups', async () => {
+    const getAttendee = jest
+      .fn()
+      .mockRejectedValueOnce(new Error('throttled'))
+      .mockResolvedValue({ name: 'Alice' });
+    const resolver = createResolver({ getAttendee });
+
+    expect(await resolver.resolve('attendee-1')).toEqual({ name: 'Alice' });
+    expect(getAttendee).toHaveBeenCalledTimes(2);
+  });
+
+  it('should resolve undefined and not cache once all attempts failed', async () => {
+    const getAttendee = jest.fn().mockRejectedValue(new Error('unavailable'));
+    const resolver = createResolver({ getAttendee });
+
+    expect(await resolver.resolve('attendee-1')).toBeUndefined();
+    expect(getAttendee).toHaveBeenCalledTimes(3);
+
+    await resolver.resolve('attendee-1');
+    expect(getAttendee).toHaveBeenCalledTimes(6);
+  });
+
+  it('should drop the cache and notify observers on invalidation', async () => {
+    const getAttendee = jest
+      .fn()
+      .mockResolvedValueOnce({ name: 'Alice' })
+      .mockResolvedValue({ name: 'Alicia' });
+    const resolver = createResolver({ getAttendee });
+    const observer = jest.fn();
+    resolver.subscribeToInvalidation(observer);
+
+    await resolver.resolve('attendee-1');
+    resolver.invalidate('attendee-1');
+
+    expect(observer).toHaveBeenCalledWith('attendee-1');
+    expect(await resolver.resolve('attendee-1')).toEqual({ name: 'Alicia' });
+  });
+});
@@ -0,0 +1,97 @@
+// Copyright Amazon.com, Inc. or its affiliates. All Rights Reserved.
+// SPDX-License-Identifier: Apache-2.0
+
+import {
+  findPreferredDevice,
+  InMemoryDevicePreferenceStore,
+  LocalStorageDevicePreferenceStore,
+} from '../../../src/providers/MeetingProvider/DevicePreferenceStore';
+
+const createDevice = (
+  deviceId: string,
+  label: string,
+  groupId: string
+): MediaDeviceInfo =>
+  ({
+    deviceId,
+    label,
+    groupId,
+    kind: 'audioinput',
+  } as MediaDeviceInfo);
+
+describe('DevicePreferenceStore', () => {
+  describe('InMemoryDevicePreferenceStore', () => {
+    it('should store a preference per device kind', () => {
+      const store = new InMemoryDevicePreferenceStore();
+      store.set('audioinput', { deviceId: 'mic' });
+
+      expect(store.get('audioinput')).toEqual({ deviceId: 'mic' });
+      expect(store.get('videoinput')).toBeUndefined();
+
+      store.clear();
+      expect(store.get('audioinput')).toBeUndefined();
+    });
+  });
+
+  describe('LocalStorageDevicePreferenceStore', () => {
+    afterEach(() => {
+      window.localStorage.clear();
+    });
+
+    it('should persist preferences across instances', () => {
+      new LocalStorageDevicePreferenceStore('test-key').set('audiooutput', {
+        deviceId: 'speaker',
+        label: 'Headset',
+      });
+
+      expect(
+        new LocalStorageDevicePreferenceStore('test-key').get('audiooutput')
+      ).toEqual({ deviceId: 'speaker', label: 'Headset' });
+    });
+
+    it('should ignore malformed values', () => {
+      window.localStorage.setItem('test-key', '{not json');
+
+      expect(
+        new LocalStorageDevicePreferenceStore('test-key').get('audioinput')
+      ).toBeUndefined();
+    });
+  });
+
+  describe('findPreferredDevice', () => {
+    const devices = [
+      createDevice('default', 'Default', 'group-1'),
+      createDevice('rotated-id', 'Headset', 'group-2'),
+      createDevice('other-id', 'Speakerphone', 'group-3'),
+    ];
+
+    it('should match by device ID first', () => {
+      expect(
+        findPreferredDevice(devices, {
+          deviceId: 'other-id',
+          label: 'Headset',
+        })
+      ).toBe(devices[2]);
+    });
+
+    it('should fall back to the label and then the group ID', () => {
+      expect(
+        findPreferredDevice(devices, { deviceId: 'old-id', label: 'Headset' })
+      ).toBe(devices[1]);
+      expect(
+        findPreferredDevice(devices, {
+          deviceId: 'old-id',
+          label: 'Renamed',
+          groupId: 'group-3',
+        })
+      ).toBe(devices[2]);
+    });
+
+    it('should return undefined without a match', () => {
+      expect(
+        findPreferredDevice(devices, { deviceId: 'old-id' })
+      ).toBeUndefined();
+      expect(findPreferredDevice(devices, undefined)).toBeUndefined();
+    });
+  });
+});
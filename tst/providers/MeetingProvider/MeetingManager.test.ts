@@ -9,10 +9,20 @@ import {
   DefaultDeviceController,
   DefaultMeetingSession,
   MeetingSessionConfiguration,
+  MeetingSessionStatus,
+  MeetingSessionStatusCode,
 } from 'amazon-chime-sdk-js';
 
-import { MeetingManager } from '../../../src/providers/MeetingProvider/MeetingManager';
-import { MeetingManagerJoinOptions } from '../../../src/providers/MeetingProvider/types';
+import { InMemoryDevicePreferenceStore } from '../../../src/providers/MeetingProvider/DevicePreferenceStore';
+import {
+  getDeviceIdAfterChange,
+  MeetingManager,
+} from '../../../src/providers/MeetingProvider/MeetingManager';
+import {
+  DeviceChange,
+  MeetingManagerJoinOptions,
+} from '../../../src/providers/MeetingProvider/types';
+import { DeviceChangePolicy, MeetingStatus } from '../../../src/types';
 
 describe('Meeting Manager', () => {
   let mockMeetingManagerJoinOptions: MeetingManagerJoinOptions;
@@ -37,8 +47,22 @@ describe('Meeting Manager', () => {
         listVideoInputDevices: jest.fn().mockReturnValue({}),
         listAudioOutputDevices: jest.fn().mockReturnValue({}),
         startAudioInput: jest.fn().mockReturnValue({}),
+        stopAudioInput: jest.fn().mockResolvedValue({}),
+        addDeviceChangeObserver: jest.fn(),
+        removeDeviceChangeObserver: jest.fn(),
+        hasStartedLocalVideoTile: jest.fn().mockReturnValue(false),
         setDeviceLabelTrigger: jest.fn().mockReturnValue({}),
         subscribeToActiveSpeakerDetector: jest.fn().mockReturnValue({}),
+        unsubscribeFromActiveSpeakerDetector: jest.fn().mockReturnValue({}),
+        start: jest.fn().mockReturnValue({}),
+        stop: jest.fn().mockReturnValue({}),
+        stopContentShare: jest.fn().mockReturnValue({}),
+        stopLocalVideoTile: jest.fn().mockReturnValue({}),
+        unbindAudioElement: jest.fn().mockReturnValue({}),
+      },
+      deviceController: {
+        chooseAudioOutput: jest.fn().mockResolvedValue({}),
+        destroy: jest.fn().mockResolvedValue({}),
       },
       eventController:  {
         addObserver: jest.fn().mockReturnValue({}),
@@ -79,4 +103,364 @@ describe('Meeting Manager', () => {
       );
     });
   });
+
+  describe('device preferences', () => {
+    const devices = [
+      { deviceId: 'built-in', label: 'Built-in', groupId: 'group-1' },
+      { deviceId: 'headset', label: 'Headset', groupId: 'group-2' },
+    ] as MediaDeviceInfo[];
+    let devicePreferenceStore: InMemoryDevicePreferenceStore;
+
+    beforeEach(async () => {
+      devicePreferenceStore = new InMemoryDevicePreferenceStore();
+      meetingManager = new MeetingManager(
+        new ConsoleLogger('MeetingManager'),
+        devicePreferenceStore
+      );
+      await meetingManager.join(mockMeetingSessionConfiguration, {
+        skipDeviceSelection: true,
+      });
+      // @ts-ignore
+      meetingManager.audioVideo.listAudioInputDevices = jest
+        .fn()
+        .mockResolvedValue(devices);
+      // @ts-ignore
+      meetingManager.audioVideo.listVideoInputDevices = jest
+        .fn()
+        .mockResolvedValue(devices);
+      // @ts-ignore
+      meetingManager.audioVideo.listAudioOutputDevices = jest
+        .fn()
+        .mockResolvedValue([]);
+    });
+
+    it('should select the first devices without a preference', async () => {
+      await meetingManager.listAndSelectDevices();
+
+      expect(meetingManager.selectedAudioInputDevice).toBe('built-in');
+      expect(meetingManager.selectedVideoInputDevice).toBe('built-in');
+    });
+
+    it('should restore the preferred devices on join', async () => {
+      devicePreferenceStore.set('audioinput', {
+        deviceId: 'rotated-id',
+        label: 'Headset',
+      });
+      devicePreferenceStore.set('videoinput', { deviceId: 'headset' });
+
+      await meetingManager.listAndSelectDevices();
+
+      expect(meetingManager.audioVideo?.startAudioInput).toHaveBeenCalledWith(
+        'headset'
+      );
+      expect(meetingManager.selectedAudioInputDevice).toBe('headset');
+      expect(meetingManager.selectedVideoInputDevice).toBe('headset');
+    });
+
+    it('should record selected devices', async () => {
+      await meetingManager.listAndSelectDevices();
+      await meetingManager.startAudioInputDevice('headset');
+
+      expect(devicePreferenceStore.get('audioinput')).toEqual({
+        deviceId: 'headset',
+        label: 'Headset',
+        groupId: 'group-2',
+      });
+    });
+  });
+
+  describe('device changes', () => {
+    const builtIn = {
+      deviceId: 'built-in',
+      label: 'Built-in',
+    } as MediaDeviceInfo;
+    const headset = {
+      deviceId: 'headset',
+      label: 'Headset',
+    } as MediaDeviceInfo;
+    const flushPromises = (): Promise<void> =>
+      new Promise((resolve) => setTimeout(resolve));
+
+    const joinWithPolicy = async (
+      deviceChangePolicy: DeviceChangePolicy
+    ): Promise<void> => {
+      // @ts-ignore
+      DefaultDeviceController.getIntrinsicDeviceId = (device) => device;
+      meetingManager = new MeetingManager(
+        new ConsoleLogger('MeetingManager'),
+        new InMemoryDevicePreferenceStore()
+      );
+      await meetingManager.join(mockMeetingSessionConfiguration, {
+        skipDeviceSelection: true,
+        deviceChangePolicy,
+      });
+      meetingManager.audioInputDevices = [builtIn, headset];
+      meetingManager.selectedAudioInputDevice = 'headset';
+    };
+
+    const changeAudioInputs = async (
+      devices: MediaDeviceInfo[]
+    ): Promise<void> => {
+      const [observer] = (
+        meetingManager.audioVideo?.addDeviceChangeObserver as jest.Mock
+      ).mock.calls[0];
+      observer.audioInputsChanged(devices);
+      await flushPromises();
+    };
+
+    it('should not observe device changes without a policy', async () => {
+      await meetingManager.join(mockMeetingSessionConfiguration);
+
+      expect(
+        meetingManager.audioVideo?.addDeviceChangeObserver
+      ).not.toHaveBeenCalled();
+    });
+
+    it('should fall back when the selected device is unplugged', async () => {
+      await joinWithPolicy(DeviceChangePolicy.FallbackToDefault);
+      const deviceChanges: DeviceChange[] = [];
+      meetingManager.subscribeToDeviceChange((deviceChange) =>
+        deviceChanges.push(deviceChange)
+      );
+
+      await changeAudioInputs([builtIn]);
+
+      expect(meetingManager.audioVideo?.startAudioInput).toHaveBeenCalledWith(
+        'built-in'
+      );
+      expect(meetingManager.selectedAudioInputDevice).toBe('built-in');
+      expect(meetingManager.audioInputDevices).toEqual([builtIn]);
+      expect(deviceChanges).toEqual([
+        {
+          kind: 'audioinput',
+          policy: DeviceChangePolicy.FallbackToDefault,
+          addedDevices: [],
+          removedDevices: [headset],
+          previousDevice: headset,
+          selectedDevice: builtIn,
+        },
+      ]);
+    });
+
+    it('should not record the fallback device as the preference', async () => {
+      await joinWithPolicy(DeviceChangePolicy.FallbackToDefault);
+
+      await changeAudioInputs([builtIn]);
+
+      expect(
+        meetingManager.devicePreferenceStore.get('audioinput')
+      ).toBeUndefined();
+    });
+
+    it('should stop the audio input and clear the selection when asking the user', async () => {
+      await joinWithPolicy(DeviceChangePolicy.AskUser);
+
+      await changeAudioInputs([builtIn]);
+
+      expect(meetingManager.audioVideo?.stopAudioInput).toHaveBeenCalled();
+      expect(meetingManager.selectedAudioInputDevice).toBeUndefined();
+    });
+
+    it('should replace the fallback device with the latest subscribed callback', async () => {
+      await joinWithPolicy(DeviceChangePolicy.FallbackToDefault);
+      const firstCallback = jest.fn().mockResolvedValue('first');
+      const latestCallback = jest.fn().mockResolvedValue('latest');
+      meetingManager.subscribeToDeviceReplacement(firstCallback);
+      meetingManager.subscribeToDeviceReplacement(latestCallback);
+
+      await changeAudioInputs([builtIn]);
+
+      expect(firstCallback).not.toHaveBeenCalled();
+      expect(latestCallback).toHaveBeenCalledWith('built-in', 'headset');
+      expect(meetingManager.selectedAudioInputDevice).toBe('latest');
+
+      meetingManager.unsubscribeFromDeviceReplacement(latestCallback);
+      await changeAudioInputs([headset]);
+
+      expect(latestCallback).toHaveBeenCalledTimes(1);
+      expect(firstCallback).toHaveBeenCalledWith('headset', 'latest');
+    });
+
+    it('should log a failure to handle device changes', async () => {
+      await joinWithPolicy(DeviceChangePolicy.FallbackToDefault);
+      const errorSpy = jest
+        // @ts-ignore
+        .spyOn(meetingManager.logger, 'error')
+        .mockImplementation(() => {});
+      jest
+        // @ts-ignore
+        .spyOn(meetingManager, 'getSelectedDeviceId')
+        // @ts-ignore
+        .mockRejectedValue(new Error('device error'));
+
+      await changeAudioInputs([builtIn]);
+
+      expect(errorSpy).toHaveBeenCalledWith(
+        expect.stringContaining('device error')
+      );
+    });
+
+    it('should stop observing device changes on leave', async () => {
+      await joinWithPolicy(DeviceChangePolicy.PreferNewDevice);
+      const audioVideo = meetingManager.audioVideo;
+
+      await meetingManager.leave();
+
+      expect(audioVideo?.removeDeviceChangeObserver).toHaveBeenCalled();
+    });
+  });
+
+  describe('getDeviceIdAfterChange', () => {
+    const builtIn = { deviceId: 'built-in' } as MediaDeviceInfo;
+    const headset = { deviceId: 'headset' } as MediaDeviceInfo;
+    const defaultDevice = { deviceId: 'default' } as MediaDeviceInfo;
+
+    it('should keep the selected device while it is available', () => {
+      expect(
+        getDeviceIdAfterChange(
+          DeviceChangePolicy.FallbackToDefault,
+          [builtIn, headset],
+          [headset],
+          'built-in'
+        )
+      ).toBe('built-in');
+    });
+
+    it('should prefer the default device when falling back', () => {
+      expect(
+        getDeviceIdAfterChange(
+          DeviceChangePolicy.FallbackToDefault,
+          [builtIn, defaultDevice],
+          [],
+          'headset'
+        )
+      ).toBe('default');
+      expect(
+        getDeviceIdAfterChange(
+          DeviceChangePolicy.FallbackToDefault,
+          [],
+          [],
+          'headset'
+        )
+      ).toBeNull();
+    });
+
+    it('should select a newly plugged device but ignore the default device', () => {
+      expect(
+        getDeviceIdAfterChange(
+          DeviceChangePolicy.PreferNewDevice,
+          [builtIn, headset, defaultDevice],
+          [defaultDevice, headset],
+          'built-in'
+        )
+      ).toBe('headset');
+    });
+
+    it('should clear the selection when asking the user', () => {
+      expect(
+        getDeviceIdAfterChange(
+          DeviceChangePolicy.AskUser,
+          [builtIn],
+          [],
+          'headset'
+        )
+      ).toBeNull();
+      expect(
+        getDeviceIdAfterChange(
+          DeviceChangePolicy.AskUser,
+          [builtIn, headset],
+          [headset],
+          'built-in'
+        )
+      ).toBe('built-in');
+    });
+  });
+
+  describe('rejoin', () => {
+    const nonTerminalFailure = new MeetingSessionStatus(
+      MeetingSessionStatusCode.TaskFailed
+    );
+
+    beforeEach(() => {
+      jest.useFakeTimers();
+    });
+
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    it('should fail and leave on a non-terminal failure without a reconnect policy', async () => {
+      await meetingManager.join(mockMeetingSessionConfiguration);
+      const statuses: MeetingStatus[] = [];
+      meetingManager.subscribeToMeetingStatus((status) => statuses.push(status));
+
+      meetingManager.audioVideoDidStop(nonTerminalFailure);
+
+      expect(statuses).toContain(MeetingStatus.Failed);
+      expect(statuses).not.toContain(MeetingStatus.Rejoining);
+    });
+
+    it('should rebuild the meeting session after the backoff delay', async () => {
+      await meetingManager.join(mockMeetingSessionConfiguration, {
+        reconnectPolicy: { maxAttempts: 2, initialDelayMs: 100, jitter: 0 },
+      });
+
+      meetingManager.audioVideoDidStop(nonTerminalFailure);
+      expect(meetingManager.meetingStatus).toBe(MeetingStatus.Rejoining);
+      expect(DefaultMeetingSession).toHaveBeenCalledTimes(1);
+
+      jest.advanceTimersByTime(100);
+      for (let i = 0; i < 10; i++) {
+        await Promise.resolve();
+      }
+
+      expect(DefaultMeetingSession).toHaveBeenCalledTimes(2);
+      expect(meetingManager.audioVideo?.start).toHaveBeenCalled();
+    });
+
+    it('should publish RejoinFailed once all attempts are used', async () => {
+      await meetingManager.join(mockMeetingSessionConfiguration, {
+        reconnectPolicy: { maxAttempts: 0 },
+      });
+      const statuses: MeetingStatus[] = [];
+      meetingManager.subscribeToMeetingStatus((status) => statuses.push(status));
+
+      meetingManager.audioVideoDidStop(nonTerminalFailure);
+
+      expect(statuses).toContain(MeetingStatus.RejoinFailed);
+      expect(statuses).not.toContain(MeetingStatus.Rejoining);
+    });
+
+    it('should cancel a pending rejoin on leave', async () => {
+      await meetingManager.join(mockMeetingSessionConfiguration, {
+        reconnectPolicy: { maxAttempts: 1, initialDelayMs: 100 },
+      });
+
+      meetingManager.audioVideoDidStop(nonTerminalFailure);
+      await meetingManager.leave();
+      jest.advanceTimersByTime(1000);
+
+      expect(DefaultMeetingSession).toHaveBeenCalledTimes(1);
+    });
+
+    it('should not rebuild the meeting session when leaving during a rejoin', async () => {
+      await meetingManager.join(mockMeetingSessionConfiguration, {
+        reconnectPolicy: { maxAttempts: 2, initialDelayMs: 100, jitter: 0 },
+      });
+      const statuses: MeetingStatus[] = [];
+      meetingManager.subscribeToMeetingStatus((status) => statuses.push(status));
+
+      meetingManager.audioVideoDidStop(nonTerminalFailure);
+      jest.advanceTimersByTime(100);
+      // Leaves while the previous meeting session is torn down
+      const leave = meetingManager.leave();
+      for (let i = 0; i < 10; i++) {
+        await Promise.resolve();
+      }
+      await leave;
+
+      expect(DefaultMeetingSession).toHaveBeenCalledTimes(1);
+      expect(statuses).not.toContain(MeetingStatus.RejoinFailed);
+    });
+  });
 });
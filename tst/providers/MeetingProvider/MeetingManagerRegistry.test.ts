@@ -0,0 +1,89 @@
+// Copyright Amazon.com, Inc. or its affiliates. All Rights Reserved.
+// SPDX-License-Identifier: Apache-2.0
+
+import { ConsoleLogger } from 'amazon-chime-sdk-js';
+
+import { MeetingManager } from '../../../src/providers/MeetingProvider/MeetingManager';
+import { MeetingManagerRegistry } from '../../../src/providers/MeetingProvider/MeetingManagerRegistry';
+
+describe('MeetingManagerRegistry', () => {
+  let registry: MeetingManagerRegistry;
+
+  beforeEach(() => {
+    registry = new MeetingManagerRegistry(
+      new ConsoleLogger('MeetingManagerRegistry')
+    );
+  });
+
+  it('should create a MeetingManager once per meeting ID', () => {
+    const main = registry.getOrCreate('main');
+
+    expect(registry.getOrCreate('main')).toBe(main);
+    expect(registry.getOrCreate('breakout')).not.toBe(main);
+    expect(registry.getMeetingIds()).toEqual(['main', 'breakout']);
+  });
+
+  it('should register an existing MeetingManager', () => {
+    const meetingManager = new MeetingManager(new ConsoleLogger('Test'));
+    registry.register('main', meetingManager);
+
+    expect(registry.get('main')).toBe(meetingManager);
+    expect(() =>
+      registry.register('main', new MeetingManager(new ConsoleLogger('Test')))
+    ).toThrow();
+  });
+
+  it('should unregister a MeetingManager without leaving the meeting', () => {
+    const meetingManager = registry.getOrCreate('main');
+    const leave = jest.spyOn(meetingManager, 'leave');
+
+    registry.unregister('main', new MeetingManager(new ConsoleLogger('Test')));
+    expect(registry.get('main')).toBe(meetingManager);
+
+    registry.unregister('main', meetingManager);
+    expect(registry.get('main')).toBeUndefined();
+    expect(leave).not.toHaveBeenCalled();
+  });
+
+  it('should leave the meeting when removing a MeetingManager', async () => {
+    const meetingManager = registry.getOrCreate('main');
+    const leave = jest.spyOn(meetingManager, 'leave');
+
+    await registry.remove('main');
+
+    expect(leave).toHaveBeenCalledTimes(1);
+    expect(registry.get('main')).toBeUndefined();
+  });
+
+  it('should move the selected devices to another meeting', async () => {
+    const from = registry.getOrCreate('main');
+    const to = registry.getOrCreate('breakout');
+    const stopAudioInput = jest.fn();
+    // @ts-ignore
+    from.audioVideo = {
+      stopAudioInput,
+      stopVideoInput: jest.fn(),
+      hasStartedLocalVideoTile: jest.fn().mockReturnValue(false),
+    };
+    from.selectedAudioInputDevice = 'mic';
+    from.selectedVideoInputDevice = 'camera';
+    const startAudioInputDevice = jest
+      .spyOn(to, 'startAudioInputDevice')
+      .mockResolvedValue();
+
+    await registry.transferDevices('main', 'breakout');
+
+    expect(stopAudioInput).toHaveBeenCalledTimes(1);
+    expect(startAudioInputDevice).toHaveBeenCalledWith('mic', { persist: false });
+    expect(from.selectedVideoInputDevice).toBeUndefined();
+    expect(to.selectedVideoInputDevice).toBe('camera');
+  });
+
+  it('should throw when transferring devices to an unknown meeting', async () => {
+    registry.getOrCreate('main');
+
+    await expect(
+      registry.transferDevices('main', 'unknown')
+    ).rejects.toThrow();
+  });
+});
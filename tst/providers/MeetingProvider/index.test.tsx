@@ -13,7 +13,9 @@ import {
   NoOpDebugLogger,
 } from 'amazon-chime-sdk-js';
 
+import { MeetingManagerRegistryProvider } from '../../../src/providers/MeetingManagerRegistryProvider';
 import { MeetingManager } from '../../../src/providers/MeetingProvider/MeetingManager';
+import { MeetingManagerRegistry } from '../../../src/providers/MeetingProvider/MeetingManagerRegistry';
 import { MeetingManagerJoinOptions } from '../../../src/providers/MeetingProvider/types';
 
 import '@testing-library/jest-dom';
@@ -114,6 +116,7 @@ describe('Meeting Provider', () => {
     // Render and unmount the provider.
     const { unmount } = renderHook(() => useMeetingManager(), {
       wrapper: ({ children }) => (
+        // @ts-ignore
         <MeetingProvider {...meetingProviderParams}>{children}</MeetingProvider>
       ),
     });
@@ -124,4 +127,82 @@ describe('Meeting Provider', () => {
 
     expect(meetingProviderParams).toStrictEqual(meetingProviderParams);
   });
+
+  describe('with a meetingId', () => {
+    let registry: MeetingManagerRegistry;
+
+    beforeEach(() => {
+      registry = new MeetingManagerRegistry(new ConsoleLogger('Test'));
+    });
+
+    it('should unregister the MeetingManager on unmount', async () => {
+      const { result, unmount } = renderHook(() => useMeetingManager('main'), {
+        wrapper: ({ children }) => (
+          <MeetingManagerRegistryProvider registry={registry}>
+            <MeetingProvider meetingId="main">{children}</MeetingProvider>
+          </MeetingManagerRegistryProvider>
+        ),
+      });
+
+      expect(registry.get('main')).toBe(result.current);
+
+      await act(async () => {
+        unmount();
+      });
+
+      expect(registry.get('main')).toBeUndefined();
+    });
+
+    it('should register the MeetingManager of the new meeting ID', () => {
+      let meetingId = 'main';
+      const { result, rerender } = renderHook(
+        () => useMeetingManager(meetingId),
+        {
+          wrapper: ({ children }) => (
+            <MeetingManagerRegistryProvider registry={registry}>
+              <MeetingProvider meetingId={meetingId}>
+                {children}
+              </MeetingProvider>
+            </MeetingManagerRegistryProvider>
+          ),
+        }
+      );
+      const mainMeetingManager = result.current;
+
+      meetingId = 'breakout';
+      rerender();
+
+      expect(registry.getMeetingIds()).toEqual(['breakout']);
+      expect(result.current).toBe(registry.get('breakout'));
+      expect(result.current).not.toBe(mainMeetingManager);
+    });
+
+    it('should let the children refer to a meeting rendered after them', () => {
+      const { result } = renderHook(() => useMeetingManager('breakout'), {
+        wrapper: ({ children }) => (
+          <MeetingManagerRegistryProvider registry={registry}>
+            <MeetingProvider meetingId="main">{children}</MeetingProvider>
+            <MeetingProvider meetingId="breakout" />
+          </MeetingManagerRegistryProvider>
+        ),
+      });
+
+      expect(result.current).toBe(registry.get('breakout'));
+    });
+
+    it('should throw for a meeting ID that is not registered', () => {
+      jest.spyOn(console, 'error').mockImplementation(() => {});
+
+      expect(() =>
+        renderHook(() => useMeetingManager('unknown'), {
+          wrapper: ({ children }) => (
+            <MeetingManagerRegistryProvider registry={registry}>
+              <MeetingProvider meetingId="main">{children}</MeetingProvider>
+            </MeetingManagerRegistryProvider>
+          ),
+        })
+      ).toThrow('could not find a MeetingManager registered for unknown');
+      expect(registry.getMeetingIds()).toEqual(['main']);
+    });
+  });
 });
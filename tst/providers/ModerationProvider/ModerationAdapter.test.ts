@@ -0,0 +1,27 @@
+// Copyright Amazon.com, Inc. or its affiliates. All Rights Reserved.
+// SPDX-License-Identifier: Apache-2.0
+
+import { InMemoryModerationAdapter } from '../../../src/providers/ModerationProvider/ModerationAdapter';
+
+describe('InMemoryModerationAdapter', () => {
+  it('should record the removed attendees per meeting', async () => {
+    const adapter = new InMemoryModerationAdapter();
+
+    await adapter.removeAttendee('meeting-1', 'alice');
+    await adapter.removeAttendee('meeting-1', 'bob');
+
+    expect(adapter.getRemovedAttendees('meeting-1')).toEqual(['alice', 'bob']);
+    expect(adapter.getRemovedAttendees('meeting-2')).toEqual([]);
+  });
+
+  it('should lock and unlock meetings', async () => {
+    const adapter = new InMemoryModerationAdapter();
+
+    await adapter.setMeetingLocked('meeting-1', true);
+    expect(adapter.isMeetingLocked('meeting-1')).toBe(true);
+    expect(adapter.isMeetingLocked('meeting-2')).toBe(false);
+
+    await adapter.setMeetingLocked('meeting-1', false);
+    expect(adapter.isMeetingLocked('meeting-1')).toBe(false);
+  });
+});
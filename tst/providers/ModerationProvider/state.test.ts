@@ -0,0 +1,66 @@
+// Copyright Amazon.com, Inc. or its affiliates. All Rights Reserved.
+// SPDX-License-Identifier: Apache-2.0
+
+import {
+  AttendeeRole,
+  canModerate,
+  getAttendeeRole,
+  isModerationEvent,
+} from '../../../src/providers/ModerationProvider/state';
+
+describe('getAttendeeRole', () => {
+  it('should read the role from the metadata of the attendee', () => {
+    expect(
+      getAttendeeRole({ chimeAttendeeId: 'alice', metadata: { role: 'host' } })
+    ).toBe(AttendeeRole.HOST);
+    expect(
+      getAttendeeRole({
+        chimeAttendeeId: 'bob',
+        metadata: { role: 'moderator' },
+      })
+    ).toBe(AttendeeRole.MODERATOR);
+  });
+
+  it('should default to the attendee role', () => {
+    expect(getAttendeeRole()).toBe(AttendeeRole.ATTENDEE);
+    expect(getAttendeeRole({ chimeAttendeeId: 'carol' })).toBe(
+      AttendeeRole.ATTENDEE
+    );
+    expect(
+      getAttendeeRole({ chimeAttendeeId: 'dan', metadata: { role: 'admin' } })
+    ).toBe(AttendeeRole.ATTENDEE);
+  });
+});
+
+describe('canModerate', () => {
+  it('should let hosts moderate everyone', () => {
+    expect(canModerate(AttendeeRole.HOST, AttendeeRole.HOST)).toBe(true);
+    expect(canModerate(AttendeeRole.HOST, AttendeeRole.ATTENDEE)).toBe(true);
+  });
+
+  it('should let moderators moderate everyone but hosts', () => {
+    expect(canModerate(AttendeeRole.MODERATOR, AttendeeRole.HOST)).toBe(false);
+    expect(canModerate(AttendeeRole.MODERATOR, AttendeeRole.MODERATOR)).toBe(
+      true
+    );
+  });
+
+  it('should not let attendees moderate', () => {
+    expect(canModerate(AttendeeRole.ATTENDEE, AttendeeRole.ATTENDEE)).toBe(
+      false
+    );
+  });
+});
+
+describe('isModerationEvent', () => {
+  it('should only accept valid events', () => {
+    expect(isModerationEvent({ type: 'mute', attendeeId: 'alice' })).toBe(true);
+    expect(isModerationEvent({ type: 'muteAll' })).toBe(true);
+    expect(isModerationEvent({ type: 'lock', locked: false })).toBe(true);
+    expect(isModerationEvent({ type: 'mute' })).toBe(false);
+    expect(isModerationEvent({ type: 'lock', locked: 'yes' })).toBe(false);
+    expect(isModerationEvent({ type: 'remove', attendeeId: 'alice' })).toBe(
+      false
+    );
+  });
+});
@@ -0,0 +1,91 @@
+// Copyright Amazon.com, Inc. or its affiliates. All Rights Reserved.
+// SPDX-License-Identifier: Apache-2.0
+
+import {
+  applyRaiseHandEvent,
+  DEFAULT_REACTIONS,
+  isRaiseHandEvent,
+  isReactionEvent,
+  RaisedHand,
+  removeDepartedHands,
+} from '../../../src/providers/RaiseHandProvider/state';
+
+describe('raise hand events', () => {
+  it('should only accept valid events', () => {
+    expect(isRaiseHandEvent({ type: 'raise', raisedAt: 1000 })).toBe(true);
+    expect(isRaiseHandEvent({ type: 'lower', attendeeId: 'alice' })).toBe(true);
+    expect(isRaiseHandEvent({ type: 'lowerAll' })).toBe(true);
+    expect(isRaiseHandEvent({ type: 'raise', raisedAt: '1000' })).toBe(false);
+    expect(isRaiseHandEvent({ type: 'lower' })).toBe(false);
+    expect(isRaiseHandEvent(null)).toBe(false);
+  });
+
+  it('should only accept allowed reactions', () => {
+    expect(isReactionEvent({ emoji: '👍' }, DEFAULT_REACTIONS)).toBe(true);
+    expect(isReactionEvent({ emoji: '💩' }, DEFAULT_REACTIONS)).toBe(false);
+    expect(isReactionEvent(undefined, DEFAULT_REACTIONS)).toBe(false);
+  });
+});
+
+describe('applyRaiseHandEvent', () => {
+  const queue: RaisedHand[] = [
+    { attendeeId: 'bob', raisedAt: 1000 },
+    { attendeeId: 'carol', raisedAt: 3000 },
+  ];
+
+  it('should order the hands by the time they were raised', () => {
+    expect(
+      applyRaiseHandEvent(
+        queue,
+        { type: 'raise', raisedAt: 2000 },
+        'alice',
+        false
+      )
+    ).toEqual([
+      { attendeeId: 'bob', raisedAt: 1000 },
+      { attendeeId: 'alice', raisedAt: 2000 },
+      { attendeeId: 'carol', raisedAt: 3000 },
+    ]);
+    expect(
+      applyRaiseHandEvent(
+        queue,
+        { type: 'raise', raisedAt: 5000 },
+        'bob',
+        false
+      )
+    ).toBe(queue);
+  });
+
+  it('should only let hosts lower the hands of other attendees', () => {
+    const event = { type: 'lower' as const, attendeeId: 'carol' };
+
+    expect(applyRaiseHandEvent(queue, event, 'bob', false)).toBe(queue);
+    expect(applyRaiseHandEvent(queue, event, 'carol', false)).toEqual([
+      queue[0],
+    ]);
+    expect(applyRaiseHandEvent(queue, event, 'bob', true)).toEqual([queue[0]]);
+  });
+
+  it('should only let hosts lower every hand', () => {
+    expect(applyRaiseHandEvent(queue, { type: 'lowerAll' }, 'bob', false)).toBe(
+      queue
+    );
+    expect(
+      applyRaiseHandEvent(queue, { type: 'lowerAll' }, 'dan', true)
+    ).toEqual([]);
+  });
+});
+
+describe('removeDepartedHands', () => {
+  const queue: RaisedHand[] = [
+    { attendeeId: 'bob', raisedAt: 1000 },
+    { attendeeId: 'carol', raisedAt: 3000 },
+  ];
+
+  it('should remove the hands of departed attendees only', () => {
+    const bob = { chimeAttendeeId: 'bob' };
+
+    expect(removeDepartedHands(queue, { bob }, {})).toEqual([queue[1]]);
+    expect(removeDepartedHands(queue, {}, { bob })).toBe(queue);
+  });
+});
@@ -0,0 +1,132 @@
+// Copyright Amazon.com, Inc. or its affiliates. All Rights Reserved.
+// SPDX-License-Identifier: Apache-2.0
+
+import React from 'react';
+import { act, renderHook } from '@testing-library/react';
+
+import {
+  RosterProvider,
+  useRosterHistory,
+  useRosterState,
+} from '../../../src/providers/RosterProvider';
+import { MeetingStatus } from '../../../src/types';
+
+type PresenceCallback = (
+  chimeAttendeeId: string,
+  present: boolean,
+  externalUserId?: string,
+  dropped?: boolean
+) => void;
+
+const createAudioVideo = () => {
+  const audioVideo = {
+    presenceCallback: null as PresenceCallback | null,
+    realtimeSubscribeToAttendeeIdPresence: jest.fn(
+      (callback: PresenceCallback) => {
+        audioVideo.presenceCallback = callback;
+      }
+    ),
+    realtimeUnsubscribeToAttendeeIdPresence: jest.fn(),
+    realtimeSubscribeToVolumeIndicator: jest.fn(),
+    realtimeUnsubscribeFromVolumeIndicator: jest.fn(),
+  };
+  return audioVideo;
+};
+
+let mockAudioVideo: ReturnType<typeof createAudioVideo> | null;
+
+const mockMeetingManager = {
+  meetingStatus: MeetingStatus.Succeeded,
+  audioVideo: null as ReturnType<typeof createAudioVideo> | null,
+  subscribeToActiveSpeaker: jest.fn(),
+  unsubscribeFromActiveSpeaker: jest.fn(),
+  attendeeInfoResolver: {
+    resolve: jest.fn().mockResolvedValue(null),
+    subscribeToInvalidation: jest.fn(),
+    unsubscribeFromInvalidation: jest.fn(),
+  },
+};
+
+jest.mock('../../../src/providers/AudioVideoProvider', () => ({
+  useAudioVideo: () => mockAudioVideo,
+}));
+
+jest.mock('../../../src/providers/MeetingProvider', () => ({
+  useMeetingManager: () => mockMeetingManager,
+}));
+
+describe('RosterProvider', () => {
+  const renderRoster = () =>
+    renderHook(
+      () => ({ roster: useRosterState(), history: useRosterHistory() }),
+      {
+        wrapper: ({ children }) => <RosterProvider>{children}</RosterProvider>,
+      }
+    );
+
+  const switchAudioVideo = (
+    rerender: () => void,
+    audioVideo: ReturnType<typeof createAudioVideo> | null,
+    meetingStatus: MeetingStatus
+  ): void => {
+    mockAudioVideo = audioVideo;
+    mockMeetingManager.audioVideo = audioVideo;
+    mockMeetingManager.meetingStatus = meetingStatus;
+    rerender();
+  };
+
+  beforeEach(() => {
+    mockAudioVideo = createAudioVideo();
+    mockMeetingManager.audioVideo = mockAudioVideo;
+    mockMeetingManager.meetingStatus = MeetingStatus.Succeeded;
+  });
+
+  it('should keep the attendees across a rejoin', async () => {
+    const { result, rerender } = renderRoster();
+    await act(async () => {
+      mockAudioVideo?.presenceCallback?.('attendee-1', true, 'user-1');
+    });
+    const { joinedAt } = result.current.roster.roster['attendee-1'];
+
+    const rejoinedAudioVideo = createAudioVideo();
+    act(() =>
+      switchAudioVideo(rerender, rejoinedAudioVideo, MeetingStatus.Rejoining)
+    );
+    await act(async () => {
+      rejoinedAudioVideo.presenceCallback?.('attendee-1', true, 'user-1');
+    });
+
+    expect(result.current.history.departedAttendees).toEqual([]);
+    expect(result.current.roster.roster['attendee-1'].joinedAt).toBe(joinedAt);
+  });
+
+  it('should record the attendees as departed on leave', async () => {
+    const { result, rerender } = renderRoster();
+    await act(async () => {
+      mockAudioVideo?.presenceCallback?.('attendee-1', true, 'user-1');
+    });
+
+    act(() => switchAudioVideo(rerender, null, MeetingStatus.Left));
+
+    expect(result.current.roster.attendees).toEqual([]);
+    expect(result.current.history.departedAttendees).toMatchObject([
+      { chimeAttendeeId: 'attendee-1', present: false, dropped: false },
+    ]);
+  });
+
+  it('should record the attendees who did not return after a rejoin on leave', async () => {
+    const { result, rerender } = renderRoster();
+    await act(async () => {
+      mockAudioVideo?.presenceCallback?.('attendee-1', true, 'user-1');
+    });
+
+    act(() =>
+      switchAudioVideo(rerender, createAudioVideo(), MeetingStatus.Rejoining)
+    );
+    act(() => switchAudioVideo(rerender, null, MeetingStatus.Left));
+
+    expect(result.current.history.departedAttendees).toMatchObject([
+      { chimeAttendeeId: 'attendee-1' },
+    ]);
+  });
+});
@@ -0,0 +1,156 @@
+// Copyright Amazon.com, Inc. or its affiliates. All Rights Reserved.
+// SPDX-License-Identifier: Apache-2.0
+
+import {
+  addToRosterHistory,
+  AttendanceReportFormat,
+  formatAttendanceReport,
+  getAttendanceRecords,
+  RosterHistoryEntry,
+  RosterSortBy,
+  selectRosterAttendees,
+} from '../../../src/providers/RosterProvider/state';
+import { RosterType } from '../../../src/types';
+
+describe('selectRosterAttendees', () => {
+  const roster: RosterType = {
+    carol: {
+      chimeAttendeeId: 'carol',
+      name: 'Carol',
+      joinedAt: 1,
+      muted: false,
+      lastSpokeAt: 30,
+    },
+    alice: {
+      chimeAttendeeId: 'alice',
+      name: 'Alice',
+      joinedAt: 3,
+      muted: true,
+    },
+    bob: {
+      chimeAttendeeId: 'bob',
+      externalUserId: 'bob@example.com',
+      joinedAt: 2,
+      muted: false,
+      lastSpokeAt: 40,
+    },
+  };
+
+  const getIds = (sortBy?: RosterSortBy): string[] =>
+    selectRosterAttendees(roster, { sortBy }).map(
+      ({ chimeAttendeeId }) => chimeAttendeeId
+    );
+
+  it('should keep the roster order without an order', () => {
+    expect(getIds()).toEqual(['carol', 'alice', 'bob']);
+  });
+
+  it('should sort alphabetically by name, falling back to the external user ID', () => {
+    expect(getIds(RosterSortBy.ALPHABETICAL)).toEqual([
+      'alice',
+      'bob',
+      'carol',
+    ]);
+  });
+
+  it('should sort by join order', () => {
+    expect(getIds(RosterSortBy.JOIN_ORDER)).toEqual(['carol', 'bob', 'alice']);
+  });
+
+  it('should sort the most recent speakers first', () => {
+    expect(getIds(RosterSortBy.SPEAKING_RECENCY)).toEqual([
+      'bob',
+      'carol',
+      'alice',
+    ]);
+  });
+
+  it('should sort muted attendees first', () => {
+    expect(getIds(RosterSortBy.MUTED_FIRST)).toEqual(['alice', 'bob', 'carol']);
+  });
+
+  it('should filter and search attendees', () => {
+    const attendees = selectRosterAttendees(roster, {
+      filter: (attendee) => !attendee.muted,
+      search: ' EXAMPLE ',
+    });
+
+    expect(attendees).toEqual([roster.bob]);
+  });
+});
+
+describe('roster history', () => {
+  const alice: RosterHistoryEntry = {
+    chimeAttendeeId: 'alice',
+    name: 'Alice',
+    joinedAt: 1000,
+    leftAt: 4000,
+    dropped: true,
+    timeInMeetingMs: 3000,
+  };
+  const bob: RosterHistoryEntry = {
+    chimeAttendeeId: 'bob',
+    name: '=Bob, "the builder"',
+    joinedAt: 2000,
+    leftAt: 3000,
+    dropped: false,
+    timeInMeetingMs: 1000,
+  };
+
+  it('should add the most recent departure first and keep the history bounded', () => {
+    const carol = { ...alice, chimeAttendeeId: 'carol' };
+    const history = addToRosterHistory([alice], bob, 2);
+
+    expect(addToRosterHistory(history, { ...alice, leftAt: 5000 }, 2)).toEqual([
+      { ...alice, leftAt: 5000 },
+      bob,
+    ]);
+    expect(addToRosterHistory(history, carol, 2)).toEqual([carol, bob]);
+  });
+
+  it('should count the previous sessions of present attendees', () => {
+    const records = getAttendanceRecords(
+      { alice: { chimeAttendeeId: 'alice', name: 'Alice', joinedAt: 8000 } },
+      [bob],
+      { alice: 3000 },
+      10000
+    );
+
+    expect(records).toEqual([
+      {
+        chimeAttendeeId: 'alice',
+        externalUserId: undefined,
+        name: 'Alice',
+        joinedAt: 8000,
+        present: true,
+        dropped: false,
+        timeInMeetingMs: 5000,
+      },
+      {
+        chimeAttendeeId: 'bob',
+        externalUserId: undefined,
+        name: '=Bob, "the builder"',
+        joinedAt: 2000,
+        leftAt: 3000,
+        present: false,
+        dropped: false,
+        timeInMeetingMs: 1000,
+      },
+    ]);
+  });
+
+  it('should export the attendance report as JSON and CSV', () => {
+    const records = getAttendanceRecords({}, [alice, bob], {}, 10000);
+
+    expect(
+      JSON.parse(formatAttendanceReport(records, AttendanceReportFormat.JSON))
+    ).toEqual(records);
+    expect(
+      formatAttendanceReport(records, AttendanceReportFormat.CSV).split('\n')
+    ).toEqual([
+      'chimeAttendeeId,externalUserId,name,joinedAt,leftAt,present,dropped,timeInMeetingMs',
+      'alice,,Alice,1000,4000,false,true,3000',
+      `bob,,"'=Bob, ""the builder""",2000,3000,false,false,1000`,
+    ]);
+  });
+});
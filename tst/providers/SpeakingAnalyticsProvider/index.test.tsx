@@ -0,0 +1,86 @@
+// Copyright Amazon.com, Inc. or its affiliates. All Rights Reserved.
+// SPDX-License-Identifier: Apache-2.0
+
+import React from 'react';
+import { act, renderHook } from '@testing-library/react';
+
+import {
+  SpeakingAnalyticsProvider,
+  useSpeakingStats,
+} from '../../../src/providers/SpeakingAnalyticsProvider';
+
+type VolumeIndicatorCallback = (
+  attendeeId: string,
+  volume: number | null,
+  muted: boolean | null
+) => void;
+
+const createAudioVideo = () => ({
+  realtimeSubscribeToVolumeIndicator: jest.fn(),
+  realtimeUnsubscribeFromVolumeIndicator: jest.fn(),
+});
+
+let mockAudioVideo: ReturnType<typeof createAudioVideo>;
+const mockMeetingManager = { meetingId: 'meeting-1' as string | null };
+const mockRoster = {
+  'attendee-1': { chimeAttendeeId: 'attendee-1', name: 'Alice' },
+};
+
+jest.mock('../../../src/providers/AudioVideoProvider', () => ({
+  useAudioVideo: () => mockAudioVideo,
+}));
+
+jest.mock('../../../src/providers/MeetingProvider', () => ({
+  useMeetingManager: () => mockMeetingManager,
+}));
+
+jest.mock('../../../src/providers/RosterProvider', () => ({
+  useRosterState: () => ({ roster: mockRoster }),
+}));
+
+describe('SpeakingAnalyticsProvider', () => {
+  const renderStats = () =>
+    renderHook(() => useSpeakingStats(), {
+      wrapper: ({ children }) => (
+        <SpeakingAnalyticsProvider>{children}</SpeakingAnalyticsProvider>
+      ),
+    });
+
+  const speak = (audioVideo: ReturnType<typeof createAudioVideo>): void => {
+    const [[attendeeId, callback]] = audioVideo
+      .realtimeSubscribeToVolumeIndicator.mock.calls as [
+      string,
+      VolumeIndicatorCallback
+    ][];
+    act(() => callback(attendeeId, 1, false));
+  };
+
+  beforeEach(() => {
+    mockAudioVideo = createAudioVideo();
+    mockMeetingManager.meetingId = 'meeting-1';
+  });
+
+  it('should keep the stats when rejoining the same meeting', () => {
+    const { result, rerender } = renderStats();
+    speak(mockAudioVideo);
+    expect(result.current.speakers).toHaveLength(1);
+
+    mockAudioVideo = createAudioVideo();
+    rerender();
+
+    expect(result.current.speakers).toMatchObject([
+      { attendeeId: 'attendee-1', name: 'Alice' },
+    ]);
+  });
+
+  it('should reset the stats when another meeting starts', () => {
+    const { result, rerender } = renderStats();
+    speak(mockAudioVideo);
+
+    mockAudioVideo = createAudioVideo();
+    mockMeetingManager.meetingId = 'meeting-2';
+    rerender();
+
+    expect(result.current.speakers).toEqual([]);
+  });
+});
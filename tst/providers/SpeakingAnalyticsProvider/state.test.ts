@@ -0,0 +1,147 @@
+// Copyright Amazon.com, Inc. or its affiliates. All Rights Reserved.
+// SPDX-License-Identifier: Apache-2.0
+
+import {
+  addVolumeSample,
+  createSpeakingAnalytics,
+  getSpeakerStats,
+  SpeakingAnalytics,
+  updateSpeakingState,
+} from '../../../src/providers/SpeakingAnalyticsProvider/state';
+
+const options = { turnGapMs: 1000, minSilenceGapMs: 3000 };
+
+const apply = (
+  analytics: SpeakingAnalytics,
+  changes: [string, boolean, number][]
+): SpeakingAnalytics =>
+  changes.reduce(
+    (current, [attendeeId, speaking, now]) =>
+      updateSpeakingState(current, attendeeId, speaking, now, options),
+    analytics
+  );
+
+describe('updateSpeakingState', () => {
+  it('should accumulate the talk time and turns', () => {
+    const analytics = apply(createSpeakingAnalytics(0), [
+      ['alice', true, 1000],
+      ['alice', false, 4000],
+      ['alice', true, 10000],
+      ['alice', false, 12000],
+    ]);
+
+    expect(analytics.speakers.alice).toEqual({
+      attendeeId: 'alice',
+      talkTimeMs: 5000,
+      turns: 2,
+      interruptions: 0,
+      speakingSince: null,
+      lastSpokeAt: 12000,
+    });
+  });
+
+  it('should ignore updates that do not change the speaking state', () => {
+    const analytics = apply(createSpeakingAnalytics(0), [
+      ['alice', true, 1000],
+    ]);
+
+    expect(updateSpeakingState(analytics, 'alice', true, 2000, options)).toBe(
+      analytics
+    );
+    expect(updateSpeakingState(analytics, 'bob', false, 2000, options)).toBe(
+      analytics
+    );
+  });
+
+  it('should continue the turn after a short pause', () => {
+    const analytics = apply(createSpeakingAnalytics(0), [
+      ['alice', true, 1000],
+      ['alice', false, 2000],
+      ['alice', true, 2500],
+      ['alice', false, 3000],
+    ]);
+
+    expect(analytics.speakers.alice.turns).toBe(1);
+    expect(analytics.speakers.alice.talkTimeMs).toBe(1500);
+  });
+
+  it('should count the turns started while someone else speaks as interruptions', () => {
+    const analytics = apply(createSpeakingAnalytics(0), [
+      ['alice', true, 1000],
+      ['bob', true, 2000],
+      ['alice', false, 3000],
+      ['bob', false, 4000],
+      ['alice', true, 4500],
+    ]);
+
+    expect(analytics.speakers.alice.interruptions).toBe(0);
+    expect(analytics.speakers.bob.interruptions).toBe(1);
+    expect(analytics.speakers.alice.turns).toBe(2);
+  });
+
+  it('should count the silences longer than the minimum gap', () => {
+    const analytics = apply(createSpeakingAnalytics(0), [
+      ['alice', true, 1000],
+      ['alice', false, 2000],
+      ['bob', true, 4000],
+      ['bob', false, 5000],
+      ['alice', true, 10000],
+      ['alice', false, 11000],
+      ['bob', true, 15000],
+    ]);
+
+    expect(analytics.silence).toEqual({
+      gaps: 2,
+      totalMs: 9000,
+      longestMs: 5000,
+    });
+    expect(analytics.silenceSince).toBeNull();
+  });
+
+  it('should start the silence when the last speaker stops', () => {
+    const analytics = apply(createSpeakingAnalytics(0), [
+      ['alice', true, 1000],
+      ['bob', true, 2000],
+      ['alice', false, 3000],
+    ]);
+    expect(analytics.silenceSince).toBeNull();
+
+    expect(
+      updateSpeakingState(analytics, 'bob', false, 4000, options).silenceSince
+    ).toBe(4000);
+  });
+});
+
+describe('getSpeakerStats', () => {
+  it('should include the current turns and sort by talk time', () => {
+    const analytics = apply(createSpeakingAnalytics(0), [
+      ['alice', true, 1000],
+      ['alice', false, 3000],
+      ['bob', true, 4000],
+    ]);
+
+    expect(
+      getSpeakerStats(analytics, 7000).map(({ attendeeId, talkTimeMs }) => [
+        attendeeId,
+        talkTimeMs,
+      ])
+    ).toEqual([
+      ['bob', 3000],
+      ['alice', 2000],
+    ]);
+    expect(analytics.speakers.bob.talkTimeMs).toBe(0);
+  });
+});
+
+describe('addVolumeSample', () => {
+  it('should drop the oldest samples', () => {
+    let history = addVolumeSample([], { timestampMs: 1, volume: 0.1 }, 2);
+    history = addVolumeSample(history, { timestampMs: 2, volume: 0.2 }, 2);
+    history = addVolumeSample(history, { timestampMs: 3, volume: 0.3 }, 2);
+
+    expect(history).toEqual([
+      { timestampMs: 2, volume: 0.2 },
+      { timestampMs: 3, volume: 0.3 },
+    ]);
+  });
+});
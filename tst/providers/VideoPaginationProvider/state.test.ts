@@ -0,0 +1,44 @@
+// Copyright Amazon.com, Inc. or its affiliates. All Rights Reserved.
+// SPDX-License-Identifier: Apache-2.0
+
+import {
+  getPageAfterResize,
+  getPageCount,
+  getPageTiles,
+  getPauseChanges,
+} from '../../../src/providers/VideoPaginationProvider/state';
+
+describe('video pagination', () => {
+  const tiles = [1, 2, 3, 4, 5];
+
+  it('should count at least one page', () => {
+    expect(getPageCount(0, 2)).toBe(1);
+    expect(getPageCount(5, 2)).toBe(3);
+    expect(getPageCount(4, 2)).toBe(2);
+  });
+
+  it('should return the tiles of the page', () => {
+    expect(getPageTiles(tiles, 0, 2)).toEqual([1, 2]);
+    expect(getPageTiles(tiles, 2, 2)).toEqual([5]);
+  });
+
+  it('should keep the first tile of the page visible after a resize', () => {
+    expect(getPageAfterResize(2, 2, 3)).toBe(1);
+    expect(getPageAfterResize(1, 3, 2)).toBe(1);
+    expect(getPageAfterResize(0, 3, 1)).toBe(0);
+  });
+
+  it('should pause the tiles off the page', () => {
+    expect(getPauseChanges(tiles, [3, 4], [1, 3])).toEqual({
+      tilesToPause: [2, 5],
+      tilesToUnpause: [3],
+    });
+  });
+
+  it('should unpause every paused tile without pagination', () => {
+    expect(getPauseChanges(tiles, null, [1, 2, 6])).toEqual({
+      tilesToPause: [],
+      tilesToUnpause: [1, 2],
+    });
+  });
+});
@@ -0,0 +1,211 @@
+// Copyright Amazon.com, Inc. or its affiliates. All Rights Reserved.
+// SPDX-License-Identifier: Apache-2.0
+
+import { AnnotationTool } from '../../src/types';
+import {
+  Annotation,
+  AnnotationPoint,
+  applyAnnotationEvent,
+  getContainedRect,
+  initialAnnotationState,
+  isAnnotationEvent,
+  MAX_ANNOTATION_POINTS,
+  simplifyPoints,
+  toAnnotationPoint,
+} from '../../src/utils/annotations';
+
+const annotation: Annotation = {
+  id: 'annotation-1',
+  tool: AnnotationTool.PEN,
+  color: '#000000',
+  points: [
+    [0.1, 0.1],
+    [0.2, 0.3],
+  ],
+};
+
+describe('isAnnotationEvent', () => {
+  it('should accept valid events', () => {
+    expect(
+      isAnnotationEvent({ type: 'add', shareAttendeeId: 'a', annotation })
+    ).toBe(true);
+    expect(isAnnotationEvent({ type: 'clear', shareAttendeeId: 'a' })).toBe(
+      true
+    );
+    expect(
+      isAnnotationEvent({ type: 'enable', shareAttendeeId: 'a', enabled: true })
+    ).toBe(true);
+  });
+
+  it('should reject invalid events', () => {
+    expect(isAnnotationEvent(null)).toBe(false);
+    expect(isAnnotationEvent({ type: 'clear' })).toBe(false);
+    expect(isAnnotationEvent({ type: 'erase', shareAttendeeId: 'a' })).toBe(
+      false
+    );
+    expect(
+      isAnnotationEvent({ type: 'enable', shareAttendeeId: 'a', enabled: 1 })
+    ).toBe(false);
+    expect(
+      isAnnotationEvent({
+        type: 'add',
+        shareAttendeeId: 'a',
+        annotation: { ...annotation, tool: 'eraser' },
+      })
+    ).toBe(false);
+    expect(
+      isAnnotationEvent({
+        type: 'add',
+        shareAttendeeId: 'a',
+        annotation: { ...annotation, points: [[0.1, 'a']] },
+      })
+    ).toBe(false);
+    expect(
+      isAnnotationEvent({
+        type: 'add',
+        shareAttendeeId: 'a',
+        annotation: { ...annotation, points: [] },
+      })
+    ).toBe(false);
+  });
+});
+
+describe('applyAnnotationEvent', () => {
+  const add = {
+    type: 'add' as const,
+    shareAttendeeId: 'presenter',
+    annotation,
+  };
+
+  it('should add annotations with their author', () => {
+    const state = applyAnnotationEvent(
+      initialAnnotationState,
+      add,
+      'viewer',
+      false
+    );
+
+    expect(state.annotations).toEqual([
+      { ...annotation, attendeeId: 'viewer' },
+    ]);
+  });
+
+  it('should ignore annotations that were already added', () => {
+    const state = applyAnnotationEvent(
+      initialAnnotationState,
+      add,
+      'viewer',
+      false
+    );
+
+    expect(applyAnnotationEvent(state, add, 'viewer', false)).toBe(state);
+  });
+
+  it('should only let the presenter annotate when annotations are disabled', () => {
+    const disabled = { ...initialAnnotationState, enabled: false };
+
+    expect(applyAnnotationEvent(disabled, add, 'viewer', false)).toBe(disabled);
+    expect(
+      applyAnnotationEvent(disabled, add, 'presenter', true).annotations
+    ).toHaveLength(1);
+  });
+
+  it('should only let the presenter clear the annotations', () => {
+    const clear = { type: 'clear' as const, shareAttendeeId: 'presenter' };
+    const state = applyAnnotationEvent(
+      initialAnnotationState,
+      add,
+      'viewer',
+      false
+    );
+
+    expect(applyAnnotationEvent(state, clear, 'viewer', false)).toBe(state);
+    expect(
+      applyAnnotationEvent(state, clear, 'presenter', true).annotations
+    ).toEqual([]);
+  });
+
+  it('should only let the presenter disable the annotations', () => {
+    const disable = {
+      type: 'enable' as const,
+      shareAttendeeId: 'presenter',
+      enabled: false,
+    };
+
+    expect(
+      applyAnnotationEvent(initialAnnotationState, disable, 'viewer', false)
+    ).toBe(initialAnnotationState);
+    expect(
+      applyAnnotationEvent(initialAnnotationState, disable, 'presenter', true)
+        .enabled
+    ).toBe(false);
+  });
+});
+
+describe('getContainedRect', () => {
+  it('should letterbox wide content', () => {
+    expect(getContainedRect(400, 400, 1600, 900)).toEqual({
+      x: 0,
+      y: 87.5,
+      width: 400,
+      height: 225,
+    });
+  });
+
+  it('should pillarbox tall content', () => {
+    expect(getContainedRect(400, 200, 100, 100)).toEqual({
+      x: 100,
+      y: 0,
+      width: 200,
+      height: 200,
+    });
+  });
+
+  it('should fill the container when the content size is unknown', () => {
+    expect(getContainedRect(400, 200, null, null)).toEqual({
+      x: 0,
+      y: 0,
+      width: 400,
+      height: 200,
+    });
+  });
+});
+
+describe('toAnnotationPoint', () => {
+  const rect = { x: 100, y: 0, width: 200, height: 200 };
+
+  it('should return the position relative to the content', () => {
+    expect(toAnnotationPoint(150, 100, rect)).toEqual([0.25, 0.5]);
+    expect(toAnnotationPoint(100 + 200 / 3, 0, rect)).toEqual([0.3333, 0]);
+  });
+
+  it('should clamp positions outside of the content', () => {
+    expect(toAnnotationPoint(50, 300, rect)).toEqual([0, 1]);
+  });
+});
+
+describe('simplifyPoints', () => {
+  const points: AnnotationPoint[] = Array.from({ length: 1000 }, (_, index) => [
+    index / 1000,
+    0,
+  ]);
+
+  it('should keep short strokes as they are', () => {
+    const stroke = points.slice(0, 10);
+
+    expect(simplifyPoints(stroke)).toBe(stroke);
+  });
+
+  it('should keep at most the given number of points with the first and last ones', () => {
+    const simplified = simplifyPoints(points);
+
+    expect(simplified).toHaveLength(MAX_ANNOTATION_POINTS);
+    expect(simplified[0]).toBe(points[0]);
+    expect(simplified[simplified.length - 1]).toBe(points[999]);
+    expect(simplifyPoints(points, 3)).toEqual([
+      points[0],
+      points[500],
+      points[999],
+    ]);
+  });
+});
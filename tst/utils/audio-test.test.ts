@@ -0,0 +1,95 @@
+// Copyright Amazon.com, Inc. or its affiliates. All Rights Reserved.
+// SPDX-License-Identifier: Apache-2.0
+
+import {
+  getTestToneBeeps,
+  measureAudioFrame,
+  setAudioElementSinkId,
+  summarizeMicrophoneTest,
+  toDecibels,
+} from '../../src/utils/audio-test';
+
+const frame = (amplitude: number, clippedSamples = 0) => ({
+  rms: amplitude,
+  peak: amplitude,
+  clippedSamples,
+  samples: 1000,
+});
+
+describe('toDecibels', () => {
+  it('should convert amplitudes to dBFS', () => {
+    expect(toDecibels(1)).toBe(0);
+    expect(toDecibels(0.1)).toBeCloseTo(-20);
+    expect(toDecibels(0)).toBe(-100);
+  });
+});
+
+describe('measureAudioFrame', () => {
+  it('should measure the level and clipped samples', () => {
+    const measurement = measureAudioFrame(
+      new Float32Array([0.5, -0.5, 1, -0.5])
+    );
+
+    expect(measurement.rms).toBeCloseTo(Math.sqrt(0.4375));
+    expect(measurement.peak).toBe(1);
+    expect(measurement.clippedSamples).toBe(1);
+    expect(measurement.samples).toBe(4);
+  });
+});
+
+describe('summarizeMicrophoneTest', () => {
+  it('should report a quiet recording without clipping', () => {
+    const measurements = summarizeMicrophoneTest([
+      ...Array(9).fill(frame(0.3)),
+      frame(0.001),
+    ]);
+
+    expect(measurements.noiseFloorDb).toBeCloseTo(-60);
+    expect(measurements.peakDb).toBeCloseTo(toDecibels(0.3));
+    expect(measurements.clipping).toBe(false);
+    expect(measurements.noisy).toBe(false);
+  });
+
+  it('should report clipping and background noise', () => {
+    const measurements = summarizeMicrophoneTest([frame(0.05), frame(1, 10)]);
+
+    expect(measurements.clippedSampleRatio).toBe(0.005);
+    expect(measurements.clipping).toBe(true);
+    expect(measurements.noisy).toBe(true);
+  });
+
+  it('should handle empty recordings', () => {
+    expect(summarizeMicrophoneTest([])).toEqual({
+      peakDb: -100,
+      noiseFloorDb: -100,
+      clippedSampleRatio: 0,
+      clipping: false,
+      noisy: false,
+    });
+  });
+});
+
+describe('getTestToneBeeps', () => {
+  it('should split the tone into beeps', () => {
+    expect(getTestToneBeeps(1500)).toEqual([
+      { startMs: 0, endMs: 400 },
+      { startMs: 600, endMs: 1000 },
+      { startMs: 1200, endMs: 1500 },
+    ]);
+    expect(getTestToneBeeps(0)).toEqual([]);
+  });
+});
+
+describe('setAudioElementSinkId', () => {
+  it('should set the sink ID when the browser supports it', async () => {
+    const element = document.createElement('audio');
+    const setSinkId = jest.fn().mockResolvedValue(undefined);
+    Object.assign(element, { setSinkId });
+
+    await setAudioElementSinkId(element, 'speaker');
+    await setAudioElementSinkId(element, null);
+
+    expect(setSinkId).toHaveBeenCalledTimes(1);
+    expect(setSinkId).toHaveBeenCalledWith('speaker');
+  });
+});
@@ -0,0 +1,26 @@
+// Copyright Amazon.com, Inc. or its affiliates. All Rights Reserved.
+// SPDX-License-Identifier: Apache-2.0
+
+import { getBackoffDelay } from '../../src/utils/backoff';
+
+describe('getBackoffDelay', () => {
+  it('should grow exponentially up to the maximum delay', () => {
+    const backoffPolicy = {
+      initialDelayMs: 100,
+      maxDelayMs: 500,
+      jitter: 0,
+    };
+
+    expect(getBackoffDelay(backoffPolicy, 1)).toBe(100);
+    expect(getBackoffDelay(backoffPolicy, 2)).toBe(200);
+    expect(getBackoffDelay(backoffPolicy, 3)).toBe(400);
+    expect(getBackoffDelay(backoffPolicy, 4)).toBe(500);
+  });
+
+  it('should keep the jittered delay within range', () => {
+    const delay = getBackoffDelay({ initialDelayMs: 1000, jitter: 0.5 }, 1);
+
+    expect(delay).toBeGreaterThanOrEqual(500);
+    expect(delay).toBeLessThanOrEqual(1500);
+  });
+});
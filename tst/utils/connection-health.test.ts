@@ -0,0 +1,103 @@
+// Copyright Amazon.com, Inc. or its affiliates. All Rights Reserved.
+// SPDX-License-Identifier: Apache-2.0
+
+import { ConnectionHealthReason, ConnectionQuality } from '../../src/types';
+import {
+  getConnectionHealth,
+  getSignalStrengthQuality,
+} from '../../src/utils/connection-health';
+
+describe('getSignalStrengthQuality', () => {
+  it('should be poor at half signal strength or below', () => {
+    expect(getSignalStrengthQuality(1)).toBe(ConnectionQuality.GOOD);
+    expect(getSignalStrengthQuality(0.5)).toBe(ConnectionQuality.POOR);
+    expect(getSignalStrengthQuality(0)).toBe(ConnectionQuality.POOR);
+  });
+
+  it('should be good when the signal strength is unknown', () => {
+    expect(getSignalStrengthQuality(null)).toBe(ConnectionQuality.GOOD);
+    expect(getSignalStrengthQuality(undefined)).toBe(ConnectionQuality.GOOD);
+  });
+});
+
+describe('getConnectionHealth', () => {
+  it('should be good without metrics', () => {
+    expect(getConnectionHealth({})).toEqual({
+      quality: ConnectionQuality.GOOD,
+      reasons: [],
+    });
+  });
+
+  it('should be good with healthy metrics', () => {
+    expect(
+      getConnectionHealth({
+        upstreamPacketLossPercent: 1,
+        downstreamPacketLossPercent: 0,
+        roundTripTimeMs: 80,
+        jitterMs: 10,
+        availableOutgoingBandwidthKbps: 1500,
+        signalStrength: 1,
+      })
+    ).toEqual({ quality: ConnectionQuality.GOOD, reasons: [] });
+  });
+
+  it('should grade packet loss, round trip time and jitter', () => {
+    expect(getConnectionHealth({ upstreamPacketLossPercent: 3 })).toEqual({
+      quality: ConnectionQuality.FAIR,
+      reasons: [ConnectionHealthReason.UPSTREAM_PACKET_LOSS],
+    });
+    expect(getConnectionHealth({ downstreamPacketLossPercent: 10 })).toEqual({
+      quality: ConnectionQuality.POOR,
+      reasons: [ConnectionHealthReason.DOWNSTREAM_PACKET_LOSS],
+    });
+    expect(getConnectionHealth({ roundTripTimeMs: 650 }).quality).toBe(
+      ConnectionQuality.POOR
+    );
+    expect(getConnectionHealth({ jitterMs: 40 }).quality).toBe(
+      ConnectionQuality.FAIR
+    );
+  });
+
+  it('should grade low bandwidth and ignore unmeasured bandwidth', () => {
+    expect(
+      getConnectionHealth({ availableOutgoingBandwidthKbps: 200 })
+    ).toEqual({
+      quality: ConnectionQuality.FAIR,
+      reasons: [ConnectionHealthReason.LOW_BANDWIDTH],
+    });
+    expect(
+      getConnectionHealth({ availableOutgoingBandwidthKbps: 50 }).quality
+    ).toBe(ConnectionQuality.POOR);
+    expect(
+      getConnectionHealth({ availableOutgoingBandwidthKbps: 0 }).quality
+    ).toBe(ConnectionQuality.GOOD);
+  });
+
+  it('should grade the connection events', () => {
+    expect(getConnectionHealth({ connectionPoor: true })).toEqual({
+      quality: ConnectionQuality.POOR,
+      reasons: [ConnectionHealthReason.CONNECTION_POOR],
+    });
+    expect(getConnectionHealth({ videoStopSuggested: true })).toEqual({
+      quality: ConnectionQuality.FAIR,
+      reasons: [ConnectionHealthReason.VIDEO_STOP_SUGGESTED],
+    });
+  });
+
+  it('should return the worst quality with the worst reasons first', () => {
+    expect(
+      getConnectionHealth({
+        roundTripTimeMs: 400,
+        signalStrength: 0.2,
+        videoStopSuggested: true,
+      })
+    ).toEqual({
+      quality: ConnectionQuality.POOR,
+      reasons: [
+        ConnectionHealthReason.WEAK_SIGNAL,
+        ConnectionHealthReason.HIGH_ROUND_TRIP_TIME,
+        ConnectionHealthReason.VIDEO_STOP_SUGGESTED,
+      ],
+    });
+  });
+});
@@ -0,0 +1,129 @@
+// Copyright Amazon.com, Inc. or its affiliates. All Rights Reserved.
+// SPDX-License-Identifier: Apache-2.0
+
+import { ContentShareErrorType, ContentShareSourceType } from '../../src/types';
+import {
+  getContentShareErrorType,
+  getDisplayMediaOptions,
+  isContentShareAudioEnabled,
+  isContentShareSource,
+} from '../../src/utils/content-share';
+
+describe('isContentShareSource', () => {
+  it('should recognize content share sources', () => {
+    expect(isContentShareSource({ type: ContentShareSourceType.TAB })).toBe(
+      true
+    );
+    expect(isContentShareSource('source-id')).toBe(false);
+    expect(isContentShareSource({ id: 'stream-id' })).toBe(false);
+    expect(isContentShareSource(undefined)).toBe(false);
+  });
+});
+
+describe('isContentShareAudioEnabled', () => {
+  it('should share audio by default for sources that usually play sound', () => {
+    expect(
+      isContentShareAudioEnabled({ type: ContentShareSourceType.SCREEN })
+    ).toBe(false);
+    expect(
+      isContentShareAudioEnabled({ type: ContentShareSourceType.WINDOW })
+    ).toBe(false);
+    expect(
+      isContentShareAudioEnabled({ type: ContentShareSourceType.TAB })
+    ).toBe(true);
+    expect(
+      isContentShareAudioEnabled({ type: ContentShareSourceType.FILE })
+    ).toBe(true);
+  });
+
+  it('should follow the audio option', () => {
+    expect(
+      isContentShareAudioEnabled({
+        type: ContentShareSourceType.SCREEN,
+        audio: true,
+      })
+    ).toBe(true);
+    expect(
+      isContentShareAudioEnabled({
+        type: ContentShareSourceType.TAB,
+        audio: false,
+      })
+    ).toBe(false);
+  });
+});
+
+describe('getDisplayMediaOptions', () => {
+  it('should preselect the display surface of the source', () => {
+    expect(
+      getDisplayMediaOptions({ type: ContentShareSourceType.SCREEN })
+    ).toEqual({
+      audio: false,
+      video: { displaySurface: 'monitor', frameRate: { max: 15 } },
+    });
+    expect(
+      getDisplayMediaOptions({ type: ContentShareSourceType.WINDOW }).video
+        .displaySurface
+    ).toBe('window');
+  });
+
+  it('should exclude the current tab when sharing a tab', () => {
+    expect(
+      getDisplayMediaOptions({
+        type: ContentShareSourceType.TAB,
+        frameRate: 30,
+      })
+    ).toEqual({
+      audio: true,
+      video: { displaySurface: 'browser', frameRate: { max: 30 } },
+      selfBrowserSurface: 'exclude',
+    });
+  });
+
+  it('should include the system audio when sharing a screen with audio', () => {
+    expect(
+      getDisplayMediaOptions({ type: ContentShareSourceType.SCREEN_WITH_AUDIO })
+    ).toEqual({
+      audio: true,
+      video: { displaySurface: 'monitor', frameRate: { max: 15 } },
+      systemAudio: 'include',
+    });
+  });
+});
+
+describe('getContentShareErrorType', () => {
+  const domError = (name: string, message = '') => {
+    const error = new Error(message);
+    error.name = name;
+    return error;
+  };
+
+  it('should report every NotAllowedError as cancelled, whatever the browser message', () => {
+    [
+      'Permission denied',
+      'Permission denied by system',
+      'The request is not allowed by the user agent or the platform in the current context.',
+    ].forEach((message) =>
+      expect(
+        getContentShareErrorType(domError('NotAllowedError', message))
+      ).toBe(ContentShareErrorType.CANCELLED)
+    );
+    expect(getContentShareErrorType(domError('SecurityError'))).toBe(
+      ContentShareErrorType.DENIED
+    );
+  });
+
+  it('should classify unsupported and unknown errors', () => {
+    expect(getContentShareErrorType(domError('NotSupportedError'))).toBe(
+      ContentShareErrorType.UNSUPPORTED
+    );
+    expect(getContentShareErrorType(new TypeError('not a function'))).toBe(
+      ContentShareErrorType.UNSUPPORTED
+    );
+    expect(getContentShareErrorType(new Error('failed'))).toBe(
+      ContentShareErrorType.FAILED
+    );
+    expect(getContentShareErrorType(undefined)).toBe(
+      ContentShareErrorType.FAILED
+    );
+  });
+});
@@ -0,0 +1,91 @@
+// Copyright Amazon.com, Inc. or its affiliates. All Rights Reserved.
+// SPDX-License-Identifier: Apache-2.0
+
+import {
+  clampViewport,
+  getViewportTransform,
+  initialViewport,
+  panViewport,
+  zoomViewport,
+} from '../../src/utils/video-tile-viewport';
+
+const size = { width: 400, height: 200 };
+
+describe('clampViewport', () => {
+  it('should keep the zoom between 1 and the max zoom', () => {
+    expect(clampViewport({ zoom: 0.5, x: 0, y: 0 }, size)).toEqual(
+      initialViewport
+    );
+    expect(clampViewport({ zoom: 10, x: 0, y: 0 }, size, 3).zoom).toBe(3);
+  });
+
+  it('should keep the zoomed video over the whole tile', () => {
+    expect(clampViewport({ zoom: 2, x: 500, y: -500 }, size)).toEqual({
+      zoom: 2,
+      x: 200,
+      y: -100,
+    });
+    expect(clampViewport({ zoom: 1, x: 50, y: 50 }, size)).toEqual(
+      initialViewport
+    );
+  });
+});
+
+describe('zoomViewport', () => {
+  it('should zoom around the center of the tile by default', () => {
+    expect(zoomViewport(initialViewport, 2, size)).toEqual({
+      zoom: 2,
+      x: 0,
+      y: 0,
+    });
+  });
+
+  it('should keep the point at the origin in place', () => {
+    // The right edge of the tile stays at the right edge
+    expect(zoomViewport(initialViewport, 2, size, 4, [200, 0])).toEqual({
+      zoom: 2,
+      x: -200,
+      y: 0,
+    });
+  });
+
+  it('should bring the video back within the tile when zooming out', () => {
+    expect(zoomViewport({ zoom: 3, x: 400, y: 0 }, 2, size)).toEqual({
+      zoom: 2,
+      x: 200,
+      y: 0,
+    });
+    expect(zoomViewport({ zoom: 2, x: 200, y: 100 }, 1, size)).toEqual(
+      initialViewport
+    );
+  });
+});
+
+describe('panViewport', () => {
+  it('should move the zoomed video within the edges', () => {
+    const viewport = { zoom: 2, x: 0, y: 0 };
+
+    expect(panViewport(viewport, 50, -20, size)).toEqual({
+      zoom: 2,
+      x: 50,
+      y: -20,
+    });
+    expect(panViewport(viewport, 1000, 1000, size)).toEqual({
+      zoom: 2,
+      x: 200,
+      y: 100,
+    });
+  });
+
+  it('should not move a video that is not zoomed', () => {
+    expect(panViewport(initialViewport, 50, 50, size)).toEqual(initialViewport);
+  });
+});
+
+describe('getViewportTransform', () => {
+  it('should translate and scale the video', () => {
+    expect(getViewportTransform({ zoom: 2, x: 10, y: -5 })).toBe(
+      'translate(10px, -5px) scale(2)'
+    );
+  });
+});